@@ -0,0 +1,116 @@
+import { PassThrough } from "node:stream";
+import { describe, expect, it } from "vitest";
+
+import { filterMultiselect } from "../runtime/prompts/filterMultiselect.js";
+import { selectWithShortcuts } from "../runtime/shortcutPrompts.js";
+import { ShortcutRegistry } from "../runtime/shortcutRegistry.js";
+
+function createTerminal() {
+	const input = new PassThrough();
+	const output = new PassThrough();
+	const terminal = { input, output, rendered: "" };
+	output.on("data", (chunk) => {
+		terminal.rendered += String(chunk);
+	});
+	return terminal;
+}
+
+function deferred<T>() {
+	let resolve!: (value: T) => void;
+	let reject!: (error: Error) => void;
+	const promise = new Promise<T>((res, rej) => {
+		resolve = res;
+		reject = rej;
+	});
+	return { promise, resolve, reject };
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+// readline waits briefly before treating a lone escape as a key.
+const escapeDelay = () => new Promise((resolve) => setTimeout(resolve, 100));
+
+describe("async options", () => {
+	it("shows a spinner until the provider resolves and ignores keys meanwhile", async () => {
+		const terminal = createTerminal();
+		const pending = deferred<Array<{ value: string; label: string }>>();
+
+		const result = selectWithShortcuts({
+			message: "Pick a branch",
+			options: () => pending.promise,
+			initialValue: "dev",
+			registry: new ShortcutRegistry(),
+			input: terminal.input,
+			output: terminal.output,
+		});
+
+		expect(terminal.rendered).toContain("Loading options...");
+		terminal.input.write("x");
+		pending.resolve([
+			{ value: "main", label: "main" },
+			{ value: "dev", label: "dev" },
+		]);
+		await tick();
+		expect(terminal.rendered).toContain("ctrl+l refresh");
+		terminal.input.write("\r");
+
+		await expect(result).resolves.toBe("dev");
+	});
+
+	it("retries a failed load with enter", async () => {
+		const terminal = createTerminal();
+		let calls = 0;
+
+		const result = selectWithShortcuts({
+			message: "Pick a branch",
+			options: async () => {
+				calls += 1;
+				if (calls === 1) {
+					throw new Error("network down");
+				}
+				return [{ value: "main", label: "main" }];
+			},
+			registry: new ShortcutRegistry(),
+			input: terminal.input,
+			output: terminal.output,
+		});
+
+		await tick();
+		expect(terminal.rendered).toContain("Failed to load options: network down");
+		terminal.input.write("\r");
+		await tick();
+		terminal.input.write("\r");
+
+		await expect(result).resolves.toBe("main");
+		expect(calls).toBe(2);
+	});
+
+	it("refreshes with ctrl+l and keeps the previous options on escape", async () => {
+		const terminal = createTerminal();
+		const loads = [
+			Promise.resolve([{ value: "a" }, { value: "b" }]),
+			new Promise<Array<{ value: string }>>(() => {}),
+		];
+		let signal: AbortSignal | undefined;
+
+		const result = filterMultiselect({
+			message: "Pick packages",
+			options: (context) => {
+				signal = context.signal;
+				return loads.shift()!;
+			},
+			initialValues: ["b"],
+			input: terminal.input,
+			output: terminal.output,
+		});
+
+		await tick();
+		terminal.input.write("\u000c");
+		expect(terminal.rendered).toContain("esc keep previous options");
+		terminal.input.write("\u001b");
+		await escapeDelay();
+		expect(signal?.aborted).toBe(true);
+		terminal.input.write("\r");
+
+		await expect(result).resolves.toEqual(["b"]);
+	});
+});
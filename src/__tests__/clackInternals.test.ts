@@ -0,0 +1,89 @@
+import { isCancel, Prompt, TextPrompt } from "@clack/core";
+import { PassThrough } from "node:stream";
+import { describe, expect, it } from "vitest";
+
+import {
+	cancelSymbol,
+	closePrompt,
+	interceptKeypresses,
+	renderPrompt,
+	replacePromptLine,
+} from "../runtime/prompts/clackInternals.js";
+
+// These pin the @clack/core internals the custom prompts rely on; a failure
+// here after a clack upgrade means clackInternals.ts needs updating.
+function createTextPrompt() {
+	const input = new PassThrough();
+	const output = new PassThrough();
+	let rendered = "";
+	output.on("data", (chunk) => {
+		rendered += String(chunk);
+	});
+	const prompt = new TextPrompt({ render: () => "frame", input, output });
+	return { input, prompt, rendered: () => rendered };
+}
+
+describe("clackInternals", () => {
+	it("intercepts keys before clack handles them", async () => {
+		const input = new PassThrough();
+		const prompt = new Prompt({ render: () => "frame", input, output: new PassThrough() }, false);
+		const intercepted: string[] = [];
+		const handled: string[] = [];
+		interceptKeypresses(prompt, (char, key, next) => {
+			intercepted.push(key?.name ?? String(char));
+			if (char !== "x") {
+				next(char, key);
+			}
+		});
+		prompt.on("key", (char) => handled.push(String(char)));
+
+		const result = prompt.prompt();
+		input.write("axb\r");
+
+		expect(isCancel(await result)).toBe(false);
+		expect(intercepted).toEqual(["a", "x", "b", "return"]);
+		expect(handled).toEqual(["a", "b", "\r"]);
+	});
+
+	it("replaces the readline line behind the value", async () => {
+		const { input, prompt } = createTextPrompt();
+		const result = prompt.prompt();
+		input.write("draft");
+
+		replacePromptLine(prompt, "final");
+		expect(prompt.value).toBe("final");
+
+		input.write("\r");
+		await expect(result).resolves.toBe("final");
+	});
+
+	it("renders and closes on demand", async () => {
+		const { prompt, rendered } = createTextPrompt();
+		let frames = 0;
+		const counting = new Prompt({
+			render: () => `frame ${++frames}`,
+			input: new PassThrough(),
+			output: new PassThrough(),
+		});
+		const pending = counting.prompt();
+		renderPrompt(counting);
+		expect(frames).toBe(2);
+
+		const result = prompt.prompt();
+		prompt.value = "done";
+		prompt.state = "submit";
+		prompt.emit("submit", "done");
+		closePrompt(prompt);
+		await expect(result).resolves.toBe("done");
+		expect(rendered()).toContain("frame");
+
+		counting.state = "cancel";
+		counting.emit("cancel");
+		closePrompt(counting);
+		expect(isCancel(await pending)).toBe(true);
+	});
+
+	it("produces clack's cancel symbol", async () => {
+		expect(isCancel(await cancelSymbol())).toBe(true);
+	});
+});
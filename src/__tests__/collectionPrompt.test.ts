@@ -0,0 +1,96 @@
+import { PassThrough } from "node:stream";
+import { describe, expect, it } from "vitest";
+
+import { keyValuePrompt, listPrompt, splitEntry } from "../runtime/prompts/collectionPrompt.js";
+
+const UP = "\u001b[A";
+const SHIFT_UP = "\u001b[1;2A";
+const CTRL_D = "\u0004";
+
+function createStreams() {
+	const input = new PassThrough();
+	const output = new PassThrough();
+	const frames = { text: "" };
+	output.on("data", (chunk) => {
+		frames.text += String(chunk);
+	});
+	return { input, output, frames };
+}
+
+describe("listPrompt", () => {
+	it("adds, edits, reorders and deletes rows before submitting", async () => {
+		const { input, output } = createStreams();
+		const result = listPrompt({
+			message: "Hosts",
+			initialValue: ["a.example.com"],
+			input,
+			output,
+		});
+
+		input.write("ab.example.com\r");
+		input.write(SHIFT_UP);
+		input.write("e\x7f\x7f\x7fnet\r");
+		input.write("ac.example.com\r");
+		input.write("d");
+		input.write(CTRL_D);
+
+		await expect(result).resolves.toEqual(["b.example.net", "a.example.com"]);
+	});
+
+	it("keeps an invalid row open with its error", async () => {
+		const { input, output, frames } = createStreams();
+		const result = listPrompt({
+			message: "Hosts",
+			validateItem: (item) => (item.includes(" ") ? "Hostnames can't contain spaces." : undefined),
+			input,
+			output,
+		});
+
+		input.write("\rbad host\r");
+		expect(frames.text).toContain("Hostnames can't contain spaces.");
+		input.write("\x15good\r");
+		input.write(CTRL_D);
+
+		await expect(result).resolves.toEqual(["good"]);
+	});
+
+	it("enforces a minimum number of rows on submit", async () => {
+		const { input, output, frames } = createStreams();
+		const result = listPrompt({ message: "Hosts", minItems: 1, input, output });
+
+		input.write(CTRL_D);
+		expect(frames.text).toContain("Add at least 1 item.");
+		input.write("aone\r");
+		input.write(CTRL_D);
+
+		await expect(result).resolves.toEqual(["one"]);
+	});
+});
+
+describe("keyValuePrompt", () => {
+	it("splits entries at the first equals sign", () => {
+		expect(splitEntry("URL=a=b")).toEqual(["URL", "a=b"]);
+		expect(splitEntry("=value")).toBeUndefined();
+		expect(splitEntry("NAME")).toBeUndefined();
+	});
+
+	it("rejects malformed and duplicate keys and returns a record", async () => {
+		const { input, output, frames } = createStreams();
+		const result = keyValuePrompt({
+			message: "Environment",
+			initialValue: { NODE_ENV: "production" },
+			input,
+			output,
+		});
+
+		input.write("aPORT\r");
+		expect(frames.text).toContain("Use KEY=value.");
+		input.write("\x15NODE_ENV=dev\r");
+		expect(frames.text).toContain('Duplicate key "NODE_ENV".');
+		input.write("\x15PORT=8080\r");
+		input.write(UP);
+		input.write(CTRL_D);
+
+		await expect(result).resolves.toEqual({ NODE_ENV: "production", PORT: "8080" });
+	});
+});
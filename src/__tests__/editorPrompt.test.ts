@@ -0,0 +1,136 @@
+import { isCancel } from "@clack/core";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import process from "node:process";
+import { PassThrough } from "node:stream";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { editorPrompt, resolveEditorCommand, splitEditorCommand } from "../runtime/prompts/editorPrompt.js";
+import { multilinePrompt } from "../runtime/prompts/multilinePrompt.js";
+
+describe("resolveEditorCommand", () => {
+	it("prefers VISUAL over EDITOR and ignores blank values", () => {
+		expect(resolveEditorCommand({ VISUAL: "code --wait", EDITOR: "vim" })).toBe("code --wait");
+		expect(resolveEditorCommand({ VISUAL: "  ", EDITOR: "vim" })).toBe("vim");
+		expect(resolveEditorCommand({})).toBeUndefined();
+	});
+});
+
+describe("splitEditorCommand", () => {
+	it("splits the command into words without expanding anything", () => {
+		expect(splitEditorCommand("code --wait")).toEqual(["code", "--wait"]);
+		expect(splitEditorCommand(`"/opt/My Editor/edit" -w '$HOME' ""`)).toEqual([
+			"/opt/My Editor/edit",
+			"-w",
+			"$HOME",
+			"",
+		]);
+		expect(splitEditorCommand("my\\ editor \\\"x\\\"")).toEqual(["my editor", '"x"']);
+		expect(splitEditorCommand("C:\\Tools\\edit.exe --wait")).toEqual(["C:\\Tools\\edit.exe", "--wait"]);
+	});
+});
+
+describe("multilinePrompt", () => {
+	it("inserts newlines on enter and submits on ctrl+d", async () => {
+		const input = new PassThrough();
+		const output = new PassThrough();
+		output.resume();
+
+		const result = multilinePrompt({
+			message: "Changelog entry",
+			validate: (value) => (value.includes("\n") ? undefined : "Add a body."),
+			input,
+			output,
+		});
+
+		input.write("Fix\u0004");
+		input.write("\rbodyx\x7f\u0004");
+
+		await expect(result).resolves.toBe("Fix\nbody");
+	});
+
+	it("cancels on escape", async () => {
+		const input = new PassThrough();
+		const output = new PassThrough();
+		output.resume();
+
+		const result = multilinePrompt({ message: "Notes", input, output });
+		input.write("\u001b");
+
+		expect(isCancel(await result)).toBe(true);
+	});
+});
+
+describe("editorPrompt", () => {
+	let tmpDir: string;
+
+	beforeEach(async () => {
+		tmpDir = await mkdtemp(path.join(os.tmpdir(), "editor-prompt-test-"));
+	});
+
+	afterEach(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	it("reopens the editor with the validation error as a comment header", async () => {
+		const logPath = path.join(tmpDir, "opened.log");
+		const scriptPath = path.join(tmpDir, "editor.cjs");
+		// Appends "!" to whatever the wizard wrote and records each opened file.
+		await writeFile(
+			scriptPath,
+			[
+				"const fs = require('node:fs');",
+				"const file = process.argv[2];",
+				"const contents = fs.readFileSync(file, 'utf8');",
+				"fs.appendFileSync(process.env.EDITOR_LOG, contents + '\\n---\\n');",
+				"fs.writeFileSync(file, contents + '!\\n');",
+			].join("\n"),
+		);
+		const output = new PassThrough();
+		output.resume();
+
+		const result = await editorPrompt({
+			message: "Commit message",
+			initialValue: "draft",
+			validate: (value) => (value.endsWith("!!") ? undefined : "Needs more emphasis."),
+			env: {
+				...process.env,
+				VISUAL: `"${process.execPath}" "${scriptPath}"`,
+				EDITOR_LOG: logPath,
+			},
+			output,
+		});
+
+		expect(result).toBe("draft!!");
+		const opened = (await readFile(logPath, "utf8")).split("\n---\n");
+		expect(opened[0]).toBe("draft");
+		expect(opened[1]).toMatch(/^# Error: Needs more emphasis\.\n/);
+		expect(opened[1]).toMatch(/\n\ndraft!$/);
+	});
+
+	it("keeps markdown headings at the top of the text after an error", async () => {
+		const scriptPath = path.join(tmpDir, "editor.cjs");
+		// Appends a line to whatever the wizard wrote.
+		await writeFile(
+			scriptPath,
+			[
+				"const fs = require('node:fs');",
+				"const file = process.argv[2];",
+				"fs.writeFileSync(file, fs.readFileSync(file, 'utf8') + '\\n- entry');",
+			].join("\n"),
+		);
+		const output = new PassThrough();
+		output.resume();
+
+		const result = await editorPrompt({
+			message: "Changelog",
+			initialValue: "# 1.2.0\n## Fixes",
+			validate: (value) => (value.split("- entry").length > 2 ? undefined : "Add another entry."),
+			env: { ...process.env, VISUAL: `"${process.execPath}" "${scriptPath}"` },
+			output,
+		});
+
+		expect(result).toBe("# 1.2.0\n## Fixes\n- entry\n- entry");
+	});
+});
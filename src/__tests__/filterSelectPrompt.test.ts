@@ -0,0 +1,260 @@
+import { PassThrough } from "node:stream";
+import { describe, expect, it } from "vitest";
+
+import {
+	FilterMultiSelectPrompt,
+	FilterSelectPrompt,
+} from "../runtime/prompts/filterSelectPrompt.js";
+import {
+	filterOptions,
+	fuzzyMatch,
+	highlightMatches,
+} from "../runtime/prompts/fuzzyMatch.js";
+
+describe("fuzzyMatch", () => {
+	it("matches subsequences case-insensitively and records indices", () => {
+		expect(fuzzyMatch("wsb", "Workspace Bootstrap")).toMatchObject({
+			indices: [0, 4, 10],
+		});
+		expect(fuzzyMatch("xyz", "Workspace Bootstrap")).toBeUndefined();
+	});
+
+	it("ranks prefix and consecutive matches above scattered ones", () => {
+		const matches = filterOptions(
+			[
+				{ value: "release-notes", label: "Release notes" },
+				{ value: "rollout", label: "Rollout" },
+				{ value: "rebuild", label: "Rebuild" },
+			],
+			"rel",
+		);
+		expect(matches.map((match) => match.option.value)).toEqual(["release-notes", "rebuild"]);
+
+		const ranked = filterOptions(
+			[
+				{ value: "maintenance", label: "Maintenance window" },
+				{ value: "main", label: "Main flow" },
+			],
+			"main",
+		);
+		expect(ranked.map((match) => match.option.value)).toEqual(["main", "maintenance"]);
+	});
+
+	it("falls back to value and hint matches", () => {
+		const matches = filterOptions(
+			[
+				{ value: "pkg-ui", label: "Terminal UI" },
+				{ value: "pkg-engine", label: "Engine", hint: "core runtime" },
+			],
+			"runtime",
+		);
+		expect(matches).toHaveLength(1);
+		expect(matches[0]).toMatchObject({
+			option: { value: "pkg-engine" },
+			labelIndices: [],
+			hintIndices: [5, 6, 7, 8, 9, 10, 11],
+		});
+	});
+
+	it("wraps matched runs with the highlight formatter", () => {
+		expect(highlightMatches("Bootstrap", [0, 1, 4], (value) => `[${value}]`)).toBe(
+			"[Bo]ot[s]trap",
+		);
+	});
+});
+
+describe("FilterSelectPrompt", () => {
+	it("submits the best match for the typed query", async () => {
+		const input = new PassThrough();
+		const output = new PassThrough();
+		output.resume();
+		const prompt = new FilterSelectPrompt({
+			options: [
+				{ value: "alpha", label: "Alpha" },
+				{ value: "beta", label: "Beta" },
+				{ value: "gamma", label: "Gamma" },
+			],
+			input,
+			output,
+			render() {
+				return this.options.map((option) => option.label).join("\n");
+			},
+		});
+		const result = prompt.prompt();
+
+		input.write("gm");
+		expect(prompt.options.map((option) => option.value)).toEqual(["gamma"]);
+		input.write("\r");
+
+		await expect(result).resolves.toBe("gamma");
+	});
+
+	it("refuses to submit when nothing matches", async () => {
+		const input = new PassThrough();
+		const output = new PassThrough();
+		output.resume();
+		const prompt = new FilterSelectPrompt({
+			options: [{ value: "alpha", label: "Alpha" }],
+			input,
+			output,
+			render() {
+				return this.state;
+			},
+		});
+		const result = prompt.prompt();
+
+		input.write("zz\r");
+		expect(prompt.state).toBe("error");
+		input.write("\x7f\x7f\r");
+
+		await expect(result).resolves.toBe("alpha");
+	});
+
+	it("skips disabled options and refuses to submit them", async () => {
+		const input = new PassThrough();
+		const output = new PassThrough();
+		output.resume();
+		const prompt = new FilterSelectPrompt({
+			options: [
+				{ value: "bun", label: "Bun", disabled: true, disabledReason: "not installed" },
+				{ value: "node", label: "Node" },
+				{ value: "deno", label: "Deno", disabled: true },
+			],
+			input,
+			output,
+			render() {
+				return this.state;
+			},
+		});
+		const result = prompt.prompt();
+
+		expect(prompt.highlighted?.value).toBe("node");
+		input.write("\u001b[B");
+		expect(prompt.highlighted?.value).toBe("node");
+		input.write("bun\r");
+		expect(prompt.state).toBe("error");
+		expect(prompt.error).toBe("This option is disabled.");
+		input.write("\x7f\x7f\x7f\r");
+
+		await expect(result).resolves.toBe("node");
+	});
+});
+
+describe("FilterMultiSelectPrompt", () => {
+	const packages = [
+		{ value: "apps/web", label: "apps/web" },
+		{ value: "apps/docs", label: "apps/docs" },
+		{ value: "libs/ui", label: "libs/ui" },
+		{ value: "libs/core", label: "libs/core" },
+	];
+
+	function createPrompt(initialValues?: string[]) {
+		const input = new PassThrough();
+		const output = new PassThrough();
+		output.resume();
+		const prompt = new FilterMultiSelectPrompt({
+			options: packages,
+			initialValues,
+			input,
+			output,
+			render() {
+				return `${this.query}|${this.selected.join(",")}`;
+			},
+		});
+		return { input, prompt, result: prompt.prompt() };
+	}
+
+	it("selects every visible option and keeps space out of the query", async () => {
+		const { input, prompt, result } = createPrompt();
+
+		input.write("libs");
+		input.write("\u0001");
+		expect(prompt.selected).toEqual(["libs/ui", "libs/core"]);
+
+		input.write(" ");
+		expect(prompt.query).toBe("libs");
+		expect(prompt.selected).toEqual(["libs/core"]);
+		input.write("\r");
+
+		await expect(result).resolves.toEqual(["libs/core"]);
+	});
+
+	it("clears and inverts only the visible options", async () => {
+		const { input, prompt, result } = createPrompt(["apps/web", "libs/ui"]);
+
+		input.write("apps");
+		input.write("\u0012");
+		expect(prompt.selected).toEqual(["libs/ui", "apps/docs"]);
+
+		input.write("\u000e");
+		expect(prompt.selected).toEqual(["libs/ui"]);
+		input.write("\r");
+
+		await expect(result).resolves.toEqual(["libs/ui"]);
+	});
+
+	it("requires a selection by default", async () => {
+		const { input, prompt, result } = createPrompt();
+
+		input.write("\r");
+		expect(prompt.state).toBe("error");
+		expect(prompt.error).toBe("Select at least one option.");
+		input.write(" \r");
+
+		await expect(result).resolves.toEqual(["apps/web"]);
+	});
+
+	it("never selects disabled options", async () => {
+		const input = new PassThrough();
+		const output = new PassThrough();
+		output.resume();
+		const prompt = new FilterMultiSelectPrompt({
+			options: [
+				{ value: "apps/web", label: "apps/web", disabled: true },
+				...packages.slice(1),
+			],
+			initialValues: ["apps/web"],
+			input,
+			output,
+			render() {
+				return this.selected.join(",");
+			},
+		});
+		const result = prompt.prompt();
+
+		expect(prompt.selected).toEqual([]);
+		expect(prompt.highlighted?.value).toBe("apps/docs");
+		input.write("\u0001");
+		input.write("\u0012");
+		input.write("\u0012");
+		input.write("\r");
+
+		await expect(result).resolves.toEqual(["apps/docs", "libs/ui", "libs/core"]);
+	});
+
+	it("toggles the highlighted group with tab", async () => {
+		const input = new PassThrough();
+		const output = new PassThrough();
+		output.resume();
+		const prompt = new FilterMultiSelectPrompt({
+			options: packages.map((option) => ({
+				...option,
+				group: option.value.split("/")[0],
+			})),
+			input,
+			output,
+			render() {
+				return this.selected.join(",");
+			},
+		});
+		const result = prompt.prompt();
+
+		input.write("\t");
+		expect(prompt.selected).toEqual(["apps/web", "apps/docs"]);
+		input.write("\t");
+		expect(prompt.selected).toEqual([]);
+		input.write("core\t\r");
+
+		await expect(result).resolves.toEqual(["libs/core"]);
+	});
+});
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import { registerMessages, resolveLocale, setLocale, t } from "../runtime/i18n.js";
+import { summarizeLines } from "../runtime/prompts/multilinePrompt.js";
+import { parseNumber } from "../runtime/prompts/typedValues.js";
+
+describe("i18n", () => {
+	afterEach(() => {
+		setLocale("en");
+	});
+
+	it("prefers the option, then LC_ALL, LC_MESSAGES and LANG", () => {
+		expect(resolveLocale("fr_CA", { LANG: "de_DE.UTF-8" })).toBe("fr-CA");
+		expect(resolveLocale(undefined, { LC_MESSAGES: "de_DE", LANG: "fr_FR.UTF-8" })).toBe("de-DE");
+		expect(resolveLocale(undefined, { LANG: "fr_FR.UTF-8@euro" })).toBe("fr-FR");
+		expect(resolveLocale(undefined, { LANG: "C.UTF-8" })).toBe("en");
+		expect(resolveLocale(undefined, {})).toBe("en");
+		expect(() => resolveLocale("not a locale!", {})).toThrow(/Invalid locale/);
+	});
+
+	it("picks plural forms by the locale's rules", () => {
+		expect(t("summary.steps", { count: 1 })).toBe("1 step executed");
+		expect(t("summary.steps", { count: 0 })).toBe("0 steps executed");
+
+		setLocale("fr-FR");
+		expect(t("summary.steps", { count: 0 })).toBe("0 étape exécutée");
+		expect(t("summary.steps", { count: 3 })).toBe("3 étapes exécutées");
+		expect(t("execution.confirm")).toBe("Lancer l'exécution ?");
+	});
+
+	it("formats the prompts' own strings in the active locale", () => {
+		expect(summarizeLines("a\nb\nc")).toBe("a (+2 more lines)");
+
+		setLocale("fr");
+		expect(summarizeLines("a\nb")).toBe("a (+1 autre ligne)");
+		expect(parseNumber("abc")).toEqual({ error: "abc n'est pas un nombre." });
+		expect(t("prompt.selectedCount", { count: 1, total: 4 })).toBe("1 sélectionné / 4 au total");
+	});
+
+	it("falls back to the language, then to English", () => {
+		registerMessages("de", { "execution.confirm": "Ausführung starten?" });
+
+		setLocale("de-AT");
+		expect(t("execution.confirm")).toBe("Ausführung starten?");
+		expect(t("summary.duration", { duration: "2s" })).toBe("duration: 2s");
+
+		setLocale("ja");
+		expect(t("prompt.selectAtLeastOne")).toBe("Select at least one option.");
+	});
+});
@@ -0,0 +1,129 @@
+import { isCancel } from "@clack/prompts";
+import { PassThrough } from "node:stream";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { setLocale } from "../runtime/i18n.js";
+import { LinearPrompter } from "../runtime/prompts/linearPrompts.js";
+
+function createPrompter() {
+	const input = new PassThrough();
+	const output = new PassThrough();
+	const transcript = { text: "" };
+	output.on("data", (chunk) => {
+		transcript.text += String(chunk);
+	});
+	return { input, transcript, prompter: new LinearPrompter({ input, output }) };
+}
+
+describe("LinearPrompter", () => {
+	afterEach(() => {
+		setLocale("en");
+	});
+
+	it("numbers the options and re-asks after a plain-text error", async () => {
+		const { input, transcript, prompter } = createPrompter();
+		const result = prompter.select({
+			message: "Environment",
+			options: [
+				{ value: "dev", label: "Development", hint: "local" },
+				{ value: "prod", label: "Production", disabled: true, disabledReason: "frozen" },
+				{ value: "qa" },
+			],
+		});
+
+		input.write("7\n2\nqa\n");
+
+		await expect(result).resolves.toBe("qa");
+		expect(transcript.text).toContain("1. Development (local)");
+		expect(transcript.text).toContain("2. Production - unavailable: frozen");
+		expect(transcript.text).toContain("Error: Enter a number from 1 to 3.");
+		expect(transcript.text).toContain("Error: Production is unavailable: frozen.");
+		expect(transcript.text).not.toContain("\u001b");
+	});
+
+	it("reads multiselect answers as numbers, ranges or all", async () => {
+		const { input, prompter } = createPrompter();
+		const options = [{ value: "a" }, { value: "b" }, { value: "c" }, { value: "d" }];
+
+		const ranged = prompter.multiselect({ message: "Packages", options });
+		input.write("4, 1-2\n");
+		await expect(ranged).resolves.toEqual(["d", "a", "b"]);
+
+		const everything = prompter.multiselect({ message: "Packages", options });
+		input.write("all\n");
+		await expect(everything).resolves.toEqual(["a", "b", "c", "d"]);
+	});
+
+	it("requires a multiselect answer unless told otherwise", async () => {
+		const { input, transcript, prompter } = createPrompter();
+		const options = [{ value: "a" }, { value: "b" }];
+
+		const required = prompter.multiselect({ message: "Packages", options });
+		input.write("none\n2\n");
+		await expect(required).resolves.toEqual(["b"]);
+		expect(transcript.text).toContain("Error: Select at least one option.");
+
+		const optional = prompter.multiselect({ message: "Packages", options, required: false });
+		input.write("\n");
+		await expect(optional).resolves.toEqual([]);
+	});
+
+	it("takes the default on an empty line and collects list items until one", async () => {
+		const { input, transcript, prompter } = createPrompter();
+
+		const confirmed = prompter.confirm({ message: "Proceed?", initialValue: true });
+		input.write("\n");
+		await expect(confirmed).resolves.toBe(true);
+		expect(transcript.text).toContain("Press Enter for yes.");
+
+		const hosts = prompter.list({ message: "Hosts", minItems: 2 });
+		input.write("a.example.com\n\nb.example.com\n\n");
+		await expect(hosts).resolves.toEqual(["a.example.com", "b.example.com"]);
+		expect(transcript.text).toContain("Error: Add at least 2 items.");
+	});
+
+	it("lists promised details under each option", async () => {
+		const { input, transcript, prompter } = createPrompter();
+		const result = prompter.select({
+			message: "Config",
+			options: [{ value: "a.yaml" }, { value: "b.yaml" }],
+			details: async (option) => {
+				if (option.value === "b.yaml") {
+					throw new Error("unreadable");
+				}
+				return ["2 scenarios"];
+			},
+		});
+
+		await new Promise((resolve) => setImmediate(resolve));
+		input.write("1\n");
+
+		await expect(result).resolves.toBe("a.yaml");
+		expect(transcript.text).toContain("2 scenarios");
+		expect(transcript.text).toContain("Could not load details: unreadable");
+	});
+
+	it("speaks and understands the active locale", async () => {
+		setLocale("fr");
+		const { input, transcript, prompter } = createPrompter();
+
+		const confirmed = prompter.confirm({ message: "Continuer ?" });
+		input.write("peut-être\noui\n");
+		await expect(confirmed).resolves.toBe(true);
+		expect(transcript.text).toContain("Erreur : Répondez oui ou non.");
+
+		const everything = prompter.multiselect({ message: "Paquets", options: [{ value: "a" }, { value: "b" }] });
+		input.write("tout\n");
+		await expect(everything).resolves.toEqual(["a", "b"]);
+	});
+
+	it("cancels when the input ends", async () => {
+		const { input, transcript, prompter } = createPrompter();
+		const result = prompter.text({ message: "Name" });
+
+		input.end();
+
+		expect(isCancel(await result)).toBe(true);
+		expect(transcript.text).toContain("Cancelled.");
+	});
+});
@@ -0,0 +1,162 @@
+import { PassThrough } from "node:stream";
+import { describe, expect, it } from "vitest";
+
+import {
+	moveSelection,
+	orderedMultiselect,
+} from "../runtime/prompts/orderedMultiselect.js";
+import { resolveVisibleRows, sliceViewport } from "../runtime/prompts/viewport.js";
+
+const SHIFT_UP = "\u001b[1;2A";
+const SHIFT_DOWN = "\u001b[1;2B";
+
+describe("orderedMultiselect", () => {
+	it("moves a selected value within the order", () => {
+		expect(moveSelection(["a", "b", "c"], "c", -1)).toEqual(["a", "c", "b"]);
+		expect(moveSelection(["a", "b", "c"], "a", -1)).toEqual(["a", "b", "c"]);
+		expect(moveSelection(["a", "b"], "z", 1)).toEqual(["a", "b"]);
+	});
+
+	it("reorders selections with shift+arrows and reports the final order", async () => {
+		const input = new PassThrough();
+		const output = new PassThrough();
+		let rendered = "";
+		output.on("data", (chunk) => {
+			rendered += String(chunk);
+		});
+
+		const result = orderedMultiselect({
+			message: "Build order",
+			options: [
+				{ value: "engine" },
+				{ value: "ui" },
+				{ value: "cli" },
+			],
+			initialValues: ["engine", "ui", "cli"],
+			input,
+			output,
+		});
+
+		input.write("\u001b[B\u001b[B");
+		input.write(SHIFT_UP);
+		input.write(SHIFT_UP);
+		input.write(SHIFT_DOWN);
+		input.write("\r");
+
+		await expect(result).resolves.toEqual(["engine", "cli", "ui"]);
+		expect(rendered).toContain("1. engine");
+		expect(rendered).toContain("2. cli");
+		expect(rendered).toContain("3. ui");
+	});
+
+	it("windows long option lists to the terminal height", async () => {
+		const input = new PassThrough();
+		const output = Object.assign(new PassThrough(), { rows: 10 });
+		let rendered = "";
+		output.on("data", (chunk) => {
+			rendered += String(chunk);
+		});
+
+		const result = orderedMultiselect({
+			message: "Packages",
+			options: Array.from({ length: 20 }, (_, index) => ({ value: `pkg-${index}` })),
+			initialValues: ["pkg-0"],
+			input,
+			output,
+		});
+
+		input.write("\r");
+
+		await expect(result).resolves.toEqual(["pkg-0"]);
+		expect(rendered).toContain("pkg-4");
+		expect(rendered).not.toContain("pkg-6");
+		expect(rendered).toContain("...");
+	});
+
+	it("renders disabled options with their reason and skips them", async () => {
+		const input = new PassThrough();
+		const output = new PassThrough();
+		let rendered = "";
+		output.on("data", (chunk) => {
+			rendered += String(chunk);
+		});
+
+		const result = orderedMultiselect({
+			message: "Runtimes",
+			options: [
+				{ value: "node" },
+				{ value: "bun", disabled: true, disabledReason: "requires Node 20" },
+				{ value: "deno" },
+			],
+			input,
+			output,
+		});
+
+		input.write(" ");
+		input.write("\u001b[B");
+		input.write("a");
+		input.write("\r");
+
+		await expect(result).resolves.toEqual(["node", "deno"]);
+		expect(rendered).toContain("requires Node 20");
+	});
+
+	it("groups options under headers and toggles a group with tab", async () => {
+		const input = new PassThrough();
+		const output = new PassThrough();
+		let rendered = "";
+		output.on("data", (chunk) => {
+			rendered += String(chunk);
+		});
+
+		const result = orderedMultiselect({
+			message: "Packages",
+			options: [
+				{ value: "web", group: "apps" },
+				{ value: "ui", group: "libs" },
+				{ value: "docs", group: "apps" },
+				{ value: "core", group: "libs" },
+			],
+			input,
+			output,
+		});
+
+		input.write("\u001b[B");
+		input.write("\u001b[B");
+		input.write("\t");
+		input.write("\r");
+
+		await expect(result).resolves.toEqual(["ui", "core"]);
+		expect(rendered).toContain("apps");
+		expect(rendered).toContain("tab group");
+	});
+});
+
+describe("sliceViewport", () => {
+	it("inserts a header row wherever the group changes", () => {
+		const items = [
+			{ value: "web", group: "apps" },
+			{ value: "docs", group: "apps" },
+			{ value: "ui", group: "libs" },
+		];
+		const { rows } = sliceViewport(items, 2, 0, Infinity, (item) => item.group);
+		expect(rows).toEqual([
+			{ kind: "group", group: "apps" },
+			{ kind: "item", item: items[0], index: 0 },
+			{ kind: "item", item: items[1], index: 1 },
+			{ kind: "group", group: "libs" },
+			{ kind: "item", item: items[2], index: 2 },
+		]);
+	});
+});
+
+describe("resolveVisibleRows", () => {
+	it("fits the terminal, honours maxItems and keeps a minimum height", () => {
+		const sized = (rows?: number) => Object.assign(new PassThrough(), { rows });
+		expect(resolveVisibleRows(undefined, sized(30), 4)).toBe(26);
+		expect(resolveVisibleRows(8, sized(30), 4)).toBe(8);
+		expect(resolveVisibleRows(undefined, sized(6), 4)).toBe(5);
+		expect(resolveVisibleRows(3, sized(), 4)).toBe(5);
+		expect(resolveVisibleRows(undefined, sized(), 4)).toBe(Infinity);
+	});
+});
@@ -0,0 +1,63 @@
+import { PassThrough } from "node:stream";
+import { describe, expect, it } from "vitest";
+
+import { selectWithOther } from "../runtime/prompts/otherSelectPrompt.js";
+
+const DOWN = "\u001b[B";
+
+const options = [
+	{ value: "upgrade", label: "Upgrade dependencies" },
+	{ value: "sweep", label: "Sweep" },
+];
+
+describe("selectWithOther", () => {
+	it("resolves with a listed option", async () => {
+		const input = new PassThrough();
+		const result = selectWithOther({ message: "Task", options, input, output: new PassThrough() });
+
+		input.write(`${DOWN}\r`);
+
+		await expect(result).resolves.toBe("sweep");
+	});
+
+	it("switches to text entry on the Other row and validates the value", async () => {
+		const input = new PassThrough();
+		const output = new PassThrough();
+		let rendered = "";
+		output.on("data", (chunk) => {
+			rendered += String(chunk);
+		});
+
+		const result = selectWithOther({
+			message: "Task",
+			options,
+			validate: (value) => (/\s/.test(value) ? "No spaces." : undefined),
+			input,
+			output,
+		});
+
+		input.write(`${DOWN}${DOWN}\r`);
+		input.write("\r");
+		expect(rendered).toContain("Enter a value.");
+		input.write("nightly run\r");
+		expect(rendered).toContain("No spaces.");
+		input.write("\u0015nightly\r");
+
+		await expect(result).resolves.toBe("nightly");
+	});
+
+	it("opens on the Other row when the initial value is not listed", async () => {
+		const input = new PassThrough();
+		const result = selectWithOther({
+			message: "Task",
+			options,
+			initialValue: "custom-weekly",
+			input,
+			output: new PassThrough(),
+		});
+
+		input.write("\r\r");
+
+		await expect(result).resolves.toBe("custom-weekly");
+	});
+});
@@ -0,0 +1,80 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { PassThrough } from "node:stream";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+	completePath,
+	createPathPrompt,
+	validatePath,
+} from "../runtime/prompts/pathPrompt.js";
+
+describe("pathPrompt", () => {
+	let repoRoot: string;
+
+	beforeEach(async () => {
+		repoRoot = await mkdtemp(path.join(os.tmpdir(), "path-prompt-test-"));
+		await mkdir(path.join(repoRoot, "packages", "engine"), { recursive: true });
+		await mkdir(path.join(repoRoot, "packages", "ui-terminal"), { recursive: true });
+		await writeFile(path.join(repoRoot, "package.json"), "{}");
+		await writeFile(path.join(repoRoot, ".env"), "");
+	});
+
+	afterEach(async () => {
+		await rm(repoRoot, { recursive: true, force: true });
+	});
+
+	it("completes unique matches and lists ambiguous ones", () => {
+		expect(completePath("pack", repoRoot)).toEqual({
+			value: "package",
+			candidates: ["package.json", "packages/"],
+		});
+		expect(completePath("packages/e", repoRoot)).toEqual({ value: "packages/engine/", candidates: [] });
+		expect(completePath("packages/", repoRoot)).toEqual({
+			value: "packages/",
+			candidates: ["engine/", "ui-terminal/"],
+		});
+		expect(completePath("missing/x", repoRoot)).toEqual({ value: "missing/x", candidates: [] });
+	});
+
+	it("hides dotfiles unless the prefix asks for them", () => {
+		expect(completePath("", repoRoot).candidates).not.toContain(".env");
+		expect(completePath(".e", repoRoot)).toEqual({ value: ".env", candidates: [] });
+	});
+
+	it("validates existence, directories and the repo boundary", () => {
+		expect(validatePath("packages", repoRoot, { mustBeDirectory: true })).toBeUndefined();
+		expect(validatePath("package.json", repoRoot, { mustBeDirectory: true })).toBe(
+			"package.json is not a directory.",
+		);
+		expect(validatePath("nope", repoRoot, { mustExist: true })).toBe("nope does not exist.");
+		expect(validatePath("../outside", repoRoot, { insideRepo: true })).toBe(
+			"Path must be inside the repository.",
+		);
+		expect(validatePath("", repoRoot, { mustExist: true })).toBe("Enter a path.");
+	});
+
+	it("completes with tab and submits the resulting path", async () => {
+		const input = new PassThrough();
+		const output = new PassThrough();
+		let rendered = "";
+		output.on("data", (chunk) => {
+			rendered += String(chunk);
+		});
+
+		const result = createPathPrompt({
+			message: "Package directory",
+			repoRoot,
+			mustBeDirectory: true,
+			input,
+			output,
+		});
+
+		input.write("packages/\t");
+		expect(rendered).toContain("ui-terminal/");
+		input.write("u\t\r");
+
+		await expect(result).resolves.toBe("packages/ui-terminal/");
+	});
+});
@@ -0,0 +1,99 @@
+import { PassThrough } from "node:stream";
+import { describe, expect, it } from "vitest";
+
+import { orderedMultiselect } from "../runtime/prompts/orderedMultiselect.js";
+import { formatHelpLines, formatHelpMessage } from "../runtime/prompts/promptHelp.js";
+import { selectWithShortcuts } from "../runtime/shortcutPrompts.js";
+
+const help = {
+	description: "Which environment the deploy targets.\nProduction requires approval.",
+	defaultSource: "persisted" as const,
+	flowId: "deploy",
+	stepId: "pick-env",
+};
+
+describe("prompt help", () => {
+	it("lists the description, default source and asking step", () => {
+		expect(formatHelpLines(help)).toEqual([
+			"Which environment the deploy targets.",
+			"Production requires approval.",
+			"default from: persisted answer",
+			"asked by: flow deploy · step pick-env",
+		]);
+		expect(formatHelpMessage("Environment", undefined, true)).toBe("Environment");
+		expect(formatHelpMessage("Environment", {}, false)).toBe("Environment");
+		expect(formatHelpMessage("Environment", help, false)).toContain("? help");
+	});
+
+	it("expands the panel when ? is pressed in a select", async () => {
+		const input = new PassThrough();
+		const output = new PassThrough();
+		let rendered = "";
+		output.on("data", (chunk) => {
+			rendered += String(chunk);
+		});
+
+		const result = selectWithShortcuts({
+			message: "Environment",
+			options: [{ value: "staging" }, { value: "production" }],
+			help,
+			input,
+			output,
+		});
+
+		expect(rendered).not.toContain("asked by");
+		input.write("?");
+		input.write("\r");
+
+		await expect(result).resolves.toBe("staging");
+		expect(rendered).toContain("asked by: flow deploy · step pick-env");
+	});
+
+	it("takes ? out of an empty filter instead of filtering by it", async () => {
+		const input = new PassThrough();
+		const output = new PassThrough();
+		let rendered = "";
+		output.on("data", (chunk) => {
+			rendered += String(chunk);
+		});
+
+		const result = selectWithShortcuts({
+			message: "Environment",
+			options: [{ value: "staging" }, { value: "production" }],
+			filter: true,
+			help,
+			input,
+			output,
+		});
+
+		input.write("?");
+		input.write("prod\r");
+
+		await expect(result).resolves.toBe("production");
+		expect(rendered).toContain("default from: persisted answer");
+	});
+
+	it("toggles help in the ordered multiselect", async () => {
+		const input = new PassThrough();
+		const output = new PassThrough();
+		let rendered = "";
+		output.on("data", (chunk) => {
+			rendered += String(chunk);
+		});
+
+		const result = orderedMultiselect({
+			message: "Packages",
+			options: [{ value: "ui" }, { value: "engine" }],
+			initialValues: ["ui"],
+			help: { description: "Packages to publish." },
+			input,
+			output,
+		});
+
+		input.write("?");
+		input.write("\r");
+
+		await expect(result).resolves.toEqual(["ui"]);
+		expect(rendered).toContain("Packages to publish.");
+	});
+});
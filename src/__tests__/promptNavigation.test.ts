@@ -0,0 +1,144 @@
+import { PassThrough } from "node:stream";
+import { isCancel } from "@clack/prompts";
+import { describe, expect, it } from "vitest";
+
+import {
+	AnswerTrail,
+	PromptNavigationSignal,
+	isPromptNavigationSignal,
+	promptIdentity,
+	watchBackNavigation,
+} from "../runtime/promptNavigation.js";
+import { selectWithShortcuts } from "../runtime/shortcutPrompts.js";
+
+const SHIFT_TAB = "\u001b[Z";
+
+describe("watchBackNavigation", () => {
+	const options = [
+		{ value: "staging", label: "Staging" },
+		{ value: "production", label: "Production" },
+	];
+
+	it("closes the open prompt on shift+tab and flags the request", async () => {
+		const input = new PassThrough();
+		const watch = watchBackNavigation(["shift-tab"], input);
+
+		const result = selectWithShortcuts({
+			message: "Target environment",
+			options,
+			input,
+			output: new PassThrough(),
+		});
+		input.write(SHIFT_TAB);
+
+		expect(isCancel(await result)).toBe(true);
+		expect(watch.requested).toBe(true);
+		watch.dispose();
+	});
+
+	it("leaves escape as a plain cancel unless it is a back key", async () => {
+		const input = new PassThrough();
+		const watch = watchBackNavigation(["shift-tab"], input);
+
+		const result = selectWithShortcuts({
+			message: "Target environment",
+			options,
+			input,
+			output: new PassThrough(),
+		});
+		input.write("\u001b");
+
+		expect(isCancel(await result)).toBe(true);
+		expect(watch.requested).toBe(false);
+		watch.dispose();
+	});
+});
+
+describe("AnswerTrail", () => {
+	it("pre-fills only the prompt being revisited", () => {
+		const trail = new AnswerTrail();
+		const name = promptIdentity("Name");
+		const port = promptIdentity("Port");
+		trail.record(name, "Name", "api");
+		trail.record(port, "Port", "8080");
+
+		expect(trail.stepBack()).toEqual({ id: port, message: "Port", value: "8080" });
+		expect(trail.prefill(name)).toBeUndefined();
+		expect(trail.prefill(port)).toBe("8080");
+
+		expect(trail.stepBack()).toEqual({ id: name, message: "Name", value: "api" });
+		expect(trail.prefill(name)).toBe("api");
+		expect(trail.size).toBe(0);
+
+		trail.record(name, "Name", "web");
+		expect(trail.prefill(name)).toBeUndefined();
+	});
+
+	it("keeps prompts with the same message in different steps apart", () => {
+		const trail = new AnswerTrail();
+		const apiName = promptIdentity("Name", { flowId: "main", stepId: "api" });
+		const webName = promptIdentity("Name", { flowId: "main", stepId: "web" });
+		trail.record(apiName, "Name", "api");
+		trail.stepBack();
+
+		expect(trail.prefill(webName)).toBeUndefined();
+		expect(trail.prefill(apiName)).toBe("api");
+	});
+
+	it("remembers stepped-back answers until they are given again", () => {
+		const trail = new AnswerTrail();
+		const branch = promptIdentity("Branch");
+		trail.record(branch, "Branch", "mian");
+		trail.stepBack();
+
+		expect(trail.isDiscarded(branch, "mian")).toBe(true);
+		expect(trail.isDiscarded(promptIdentity("Other"), "mian")).toBe(false);
+
+		trail.record(branch, "Branch", "main");
+		expect(trail.isDiscarded(branch, "mian")).toBe(true);
+		trail.stepBack();
+		trail.record(branch, "Branch", "mian");
+		expect(trail.isDiscarded(branch, "mian")).toBe(false);
+		expect(trail.isDiscarded(branch, "main")).toBe(true);
+	});
+
+	it("answers the prompts before the revisited one again after a rewind", () => {
+		const trail = new AnswerTrail();
+		const name = promptIdentity("Name");
+		const token = promptIdentity("Token");
+		const port = promptIdentity("Port");
+		trail.record(name, "Name", "api");
+		trail.record(token, "Token", undefined);
+		trail.record(port, "Port", "8080");
+		trail.stepBack();
+		trail.rewind();
+
+		expect(trail.replay(name)?.value).toBe("api");
+		// Passwords aren't kept, so the replay ends there and they are asked again.
+		expect(trail.replay(token)).toBeUndefined();
+		trail.record(token, "Token", undefined);
+		expect(trail.replay(port)).toBeUndefined();
+		expect(trail.prefill(port)).toBe("8080");
+		expect(trail.size).toBe(2);
+	});
+
+	it("ends the replay when the re-run takes another path", () => {
+		const trail = new AnswerTrail();
+		trail.record(promptIdentity("Name"), "Name", "api");
+		trail.record(promptIdentity("Port"), "Port", "8080");
+		trail.record(promptIdentity("Host"), "Host", "localhost");
+		trail.stepBack();
+		trail.rewind();
+
+		expect(trail.replay(promptIdentity("Region"))).toBeUndefined();
+		expect(trail.replay(promptIdentity("Name"))).toBeUndefined();
+		expect(trail.size).toBe(0);
+	});
+
+	it("is recognised by name as well as by class", () => {
+		const signal = new PromptNavigationSignal("back");
+		expect(isPromptNavigationSignal(signal)).toBe(true);
+		expect(isPromptNavigationSignal(Object.assign(new Error("x"), { name: "PromptNavigationSignal" }))).toBe(true);
+		expect(isPromptNavigationSignal(new Error("x"))).toBe(false);
+	});
+});
@@ -0,0 +1,79 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+	PromptSessionMismatchError,
+	createPromptSession,
+	findPromptMismatch,
+	readPromptSession,
+	serializePromptOptions,
+	writePromptSession,
+	type RecordedPrompt,
+} from "../runtime/promptSession.js";
+
+function recorded(overrides: Partial<RecordedPrompt> = {}): RecordedPrompt {
+	return {
+		method: "select",
+		message: "Environment",
+		options: { options: [{ value: "dev" }, { value: "prod" }] },
+		outcome: "answered",
+		answer: "dev",
+		startedAt: "2026-01-01T00:00:00.000Z",
+		durationMs: 1200,
+		...overrides,
+	};
+}
+
+describe("promptSession", () => {
+	let tmpDir: string;
+
+	beforeEach(async () => {
+		tmpDir = await mkdtemp(path.join(os.tmpdir(), "prompt-session-test-"));
+	});
+
+	afterEach(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	it("keeps only the data part of a prompt call", () => {
+		expect(
+			serializePromptOptions({
+				message: "Environment",
+				options: [{ value: "dev", label: "Development" }],
+				initialValue: "dev",
+				validate: () => undefined,
+				details: () => "details",
+			}),
+		).toEqual({ options: [{ value: "dev", label: "Development" }], initialValue: "dev" });
+	});
+
+	it("reports changed methods, messages and option values", () => {
+		const call = { method: "select" as const, message: "Environment", options: { options: [{ value: "dev" }, { value: "prod" }] } };
+		expect(findPromptMismatch(recorded(), call)).toBeUndefined();
+		expect(findPromptMismatch(recorded({ method: "text" }), call)).toBe('expected text "Environment"');
+		expect(findPromptMismatch(recorded({ message: "Target" }), call)).toBe('the recorded question was "Target"');
+		expect(
+			findPromptMismatch(recorded(), { ...call, options: { options: [{ value: "dev" }, { value: "qa" }] } }),
+		).toBe("options added: qa; options removed: prod");
+	});
+
+	it("round-trips a session and rejects unknown versions", async () => {
+		const filePath = path.join(tmpDir, "sessions", "bug-123.json");
+		const session = { ...createPromptSession(), prompts: [recorded()] };
+
+		await writePromptSession(filePath, session);
+		await expect(readPromptSession(filePath)).resolves.toEqual(session);
+
+		await writeFile(filePath, JSON.stringify({ version: 2, prompts: [] }));
+		await expect(readPromptSession(filePath)).rejects.toThrow(/unsupported version 2/);
+	});
+
+	it("names the prompt where a replay went apart", () => {
+		const call = { method: "text" as const, message: "Name", options: {} };
+		expect(new PromptSessionMismatchError(2, call, undefined, "the session ends after 2 prompts").message).toBe(
+			'Prompt 3 (text "Name") was not recorded: the session ends after 2 prompts.',
+		);
+	});
+});
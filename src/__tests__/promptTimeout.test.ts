@@ -0,0 +1,75 @@
+import { isCancel } from "@clack/core";
+import { PassThrough } from "node:stream";
+import { describe, expect, it } from "vitest";
+
+import { RETURN_KEY, watchInactivity } from "../runtime/prompts/promptTimeout.js";
+import { numberPrompt } from "../runtime/prompts/typedPrompts.js";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function createTerminal() {
+	const input = new PassThrough();
+	const output = new PassThrough();
+	const terminal = { input, output, rendered: "" };
+	output.on("data", (chunk) => {
+		terminal.rendered += String(chunk);
+	});
+	return terminal;
+}
+
+describe("watchInactivity", () => {
+	it("submits the initial value once the countdown runs out", async () => {
+		const terminal = createTerminal();
+		const watch = watchInactivity({ timeoutMs: 50, submitKey: RETURN_KEY, ...terminal });
+
+		const result = await numberPrompt({ message: "Workers", initialValue: 4, ...terminal });
+		watch.dispose();
+
+		expect(result).toBe(4);
+		expect(watch.expired).toBe(true);
+		expect(terminal.rendered).toContain("auto-answer in");
+	});
+
+	it("cancels when there is no default to submit", async () => {
+		const terminal = createTerminal();
+		const watch = watchInactivity({ timeoutMs: 50, ...terminal });
+
+		const result = await numberPrompt({ message: "Workers", ...terminal });
+		watch.dispose();
+
+		expect(isCancel(result)).toBe(true);
+		expect(terminal.rendered).toContain("cancel in");
+	});
+
+	it("redraws only the watched prompt while counting down", async () => {
+		const terminal = createTerminal();
+		let outsideResizes = 0;
+		terminal.output.on("resize", () => {
+			outsideResizes += 1;
+		});
+		const watch = watchInactivity({ timeoutMs: 1_200, submitKey: RETURN_KEY, ...terminal });
+
+		const result = numberPrompt({ message: "Workers", initialValue: 4, ...terminal });
+		await wait(1_100);
+		expect(terminal.rendered).toMatch(/auto-answer in 1s/);
+		terminal.input.write("\r");
+
+		await expect(result).resolves.toBe(4);
+		watch.dispose();
+		expect(outsideResizes).toBe(0);
+	});
+
+	it("stops counting down at the first keypress", async () => {
+		const terminal = createTerminal();
+		const watch = watchInactivity({ timeoutMs: 50, submitKey: RETURN_KEY, ...terminal });
+
+		const result = numberPrompt({ message: "Workers", initialValue: 4, ...terminal });
+		terminal.input.write("0");
+		await wait(100);
+		expect(watch.expired).toBe(false);
+		terminal.input.write("\r");
+
+		await expect(result).resolves.toBe(40);
+		watch.dispose();
+	});
+});
@@ -0,0 +1,107 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { PromptCancelledError } from "@ScaffoldStack/dev-wizard-engine/runtime/promptDriver.js";
+import { PromptNavigationSignal } from "../runtime/promptNavigation.js";
+import { readPromptSession } from "../runtime/promptSession.js";
+import { RecordingPromptDriver, type SessionPromptDriver } from "../runtime/recordingPromptDriver.js";
+import { ReplayPromptDriver } from "../runtime/replayPromptDriver.js";
+import { REDACTED_SECRET } from "../runtime/secrets.js";
+
+function scriptedDriver(answers: Partial<Record<keyof SessionPromptDriver, () => unknown>>): SessionPromptDriver {
+	return new Proxy({} as SessionPromptDriver, {
+		get: (_target, method: keyof SessionPromptDriver) => async () => {
+			const answer = answers[method];
+			if (!answer) {
+				throw new Error(`Unexpected ${method} prompt`);
+			}
+			return answer();
+		},
+	});
+}
+
+describe("RecordingPromptDriver", () => {
+	let tmpDir: string;
+	let filePath: string;
+
+	beforeEach(async () => {
+		tmpDir = await mkdtemp(path.join(os.tmpdir(), "recording-driver-test-"));
+		filePath = path.join(tmpDir, "session.json");
+	});
+
+	afterEach(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	it("records a run that replays to the same answers", async () => {
+		const recorder = new RecordingPromptDriver({
+			filePath,
+			driver: scriptedDriver({
+				text: () => "feat/login",
+				select: () => "prod",
+				multiselect: () => ["api", "web"],
+				confirm: () => true,
+			}),
+		});
+
+		const recorded = [
+			await recorder.text({ message: "Branch" }),
+			await recorder.select({ message: "Environment", options: [{ value: "dev" }, { value: "prod" }] }),
+			await recorder.multiselect({ message: "Services", options: [{ value: "api" }, { value: "web" }] }),
+			await recorder.confirm({ message: "Deploy?" }),
+		];
+
+		const session = await readPromptSession(filePath);
+		expect(session.prompts.map((prompt) => [prompt.method, prompt.outcome])).toEqual([
+			["text", "answered"],
+			["select", "answered"],
+			["multiselect", "answered"],
+			["confirm", "answered"],
+		]);
+
+		const replay = new ReplayPromptDriver({ session });
+		expect([
+			await replay.text({ message: "Branch" }),
+			await replay.select({ message: "Environment", options: [{ value: "dev" }, { value: "prod" }] }),
+			await replay.multiselect({ message: "Services", options: [{ value: "api" }, { value: "web" }] }),
+			await replay.confirm({ message: "Deploy?" }),
+		]).toEqual(recorded);
+		expect(replay.remaining).toBe(0);
+	});
+
+	it("stores passwords redacted", async () => {
+		const recorder = new RecordingPromptDriver({
+			filePath,
+			driver: scriptedDriver({ password: () => "hunter2" }),
+		});
+
+		await expect(recorder.password({ message: "Registry token" })).resolves.toBe("hunter2");
+
+		const session = await readPromptSession(filePath);
+		expect(session.prompts[0]?.answer).toBe(REDACTED_SECRET);
+		expect(JSON.stringify(session)).not.toContain("hunter2");
+	});
+
+	it("records cancellations and steps back before rethrowing them", async () => {
+		const recorder = new RecordingPromptDriver({
+			filePath,
+			driver: scriptedDriver({
+				text: () => {
+					throw new PromptNavigationSignal("back");
+				},
+				confirm: () => {
+					throw new PromptCancelledError();
+				},
+			}),
+		});
+
+		await expect(recorder.text({ message: "Branch" })).rejects.toBeInstanceOf(PromptNavigationSignal);
+		await expect(recorder.confirm({ message: "Deploy?" })).rejects.toBeInstanceOf(PromptCancelledError);
+
+		const session = await readPromptSession(filePath);
+		expect(session.prompts.map((prompt) => prompt.outcome)).toEqual(["back", "cancelled"]);
+		expect(session.prompts[0]).not.toHaveProperty("answer");
+	});
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+
+import { PromptCancelledError } from "@ScaffoldStack/dev-wizard-engine/runtime/promptDriver.js";
+import { PromptNavigationSignal } from "../runtime/promptNavigation.js";
+import { PromptSessionMismatchError, createPromptSession, type RecordedPrompt } from "../runtime/promptSession.js";
+import { ReplayPromptDriver, findMissingSecretAnswers } from "../runtime/replayPromptDriver.js";
+import { REDACTED_SECRET, SecretRegistry } from "../runtime/secrets.js";
+
+function sessionOf(...prompts: Array<Partial<RecordedPrompt> & Pick<RecordedPrompt, "method" | "message">>) {
+	return {
+		...createPromptSession(),
+		prompts: prompts.map((prompt) => ({
+			options: {},
+			outcome: "answered" as const,
+			startedAt: "2026-01-01T00:00:00.000Z",
+			durationMs: 10,
+			...prompt,
+		})),
+	};
+}
+
+describe("ReplayPromptDriver", () => {
+	it("needs an answer for every recorded password", async () => {
+		const session = sessionOf({ method: "password", message: "Registry token", answer: REDACTED_SECRET });
+		expect(findMissingSecretAnswers(session)).toEqual(["Registry token"]);
+		expect(findMissingSecretAnswers(session, { "Registry token": "hunter2" })).toEqual([]);
+
+		await expect(new ReplayPromptDriver({ session }).password({ message: "Registry token" })).rejects.toThrow(
+			/No secret answer for "Registry token"/,
+		);
+
+		const secrets = new SecretRegistry();
+		const replay = new ReplayPromptDriver({ session, secretAnswers: { "Registry token": "hunter2" }, secrets });
+		await expect(replay.password({ message: "Registry token" })).resolves.toBe("hunter2");
+		expect(secrets.redactText("token hunter2")).toBe(`token ${REDACTED_SECRET}`);
+	});
+
+	it("replays cancellations and steps back", async () => {
+		const replay = new ReplayPromptDriver({
+			session: sessionOf(
+				{ method: "text", message: "Branch", outcome: "back" },
+				{ method: "confirm", message: "Deploy?", outcome: "cancelled" },
+			),
+		});
+
+		await expect(replay.text({ message: "Branch" })).rejects.toBeInstanceOf(PromptNavigationSignal);
+		await expect(replay.confirm({ message: "Deploy?" })).rejects.toBeInstanceOf(PromptCancelledError);
+	});
+
+	it("rejects a recorded answer the prompt no longer accepts", async () => {
+		const replay = new ReplayPromptDriver({
+			session: sessionOf({ method: "text", message: "Port", answer: "80" }),
+		});
+
+		const error = await replay
+			.text({ message: "Port", validate: (value: string) => (Number(value) < 1024 ? "Use a port above 1024" : undefined) })
+			.catch((caught: unknown) => caught);
+		expect(error).toBeInstanceOf(PromptSessionMismatchError);
+		expect((error as PromptSessionMismatchError).message).toContain(
+			'the recorded answer "80" is now rejected: Use a port above 1024',
+		);
+	});
+
+	it("fails once the scenario asks more than was recorded", async () => {
+		const replay = new ReplayPromptDriver({
+			session: sessionOf({ method: "confirm", message: "Deploy?", answer: true }),
+		});
+
+		await expect(replay.confirm({ message: "Deploy?" })).resolves.toBe(true);
+		const error = await replay.text({ message: "Branch" }).catch((caught: unknown) => caught);
+		expect(error).toBeInstanceOf(PromptSessionMismatchError);
+		expect((error as PromptSessionMismatchError).recorded).toBeUndefined();
+		expect((error as PromptSessionMismatchError).message).toBe(
+			'Prompt 2 (text "Branch") was not recorded: the session ends after 1 prompt.',
+		);
+	});
+});
@@ -6,6 +6,7 @@ import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vite
 import type { DevWizardConfig } from "@ScaffoldStack/dev-wizard-engine/loader/types.js";
 import type { WizardLogEvent } from "@ScaffoldStack/dev-wizard-engine/runtime/logWriter.js";
 import type { WizardState } from "@ScaffoldStack/dev-wizard-engine/runtime/state.js";
+import { REDACTED_SECRET } from "../runtime/secrets.js";
 let buildScenarioPlanImpl!: typeof import("@ScaffoldStack/dev-wizard-engine/runtime/executor.js").buildScenarioPlan;
 let executeScenarioImpl!: typeof import("@ScaffoldStack/dev-wizard-engine/runtime/executor.js").executeScenario;
 let SKIP_STEP_OPTION_VALUE!: string;
@@ -24,10 +25,12 @@ const promptMocks = vi.hoisted(() => {
 	return {
 		intro: vi.fn(),
 		outro: vi.fn(),
+		cancel: vi.fn(),
 		confirm: vi.fn(async (_options?: unknown) => true),
-		isCancel: () => false,
+		isCancel: (value: unknown) => typeof value === "symbol",
 		multiselect: vi.fn(async (_options?: unknown) => []),
 		note: vi.fn(),
+		password: vi.fn(async (_options?: unknown) => "s3cret-token"),
 		select: vi.fn(
 			async (options: { options: Array<{ value: string }>; message?: string }) => {
 				return options.options[0]?.value ?? "";
@@ -53,6 +56,22 @@ vi.mock("../runtime/prompts/orderedMultiselect.js", () => ({
 	),
 }));
 
+vi.mock("../runtime/prompts/otherSelectPrompt.js", () => ({
+	selectWithOther: vi.fn(
+		async (options: { options: Array<{ value: string }>; message?: string; otherLabel?: string }) =>
+			promptMocks.select(options),
+	),
+}));
+
+const typedPromptMocks = vi.hoisted(() => ({
+	typedConfirmPrompt: vi.fn(async (_options?: unknown) => true as const),
+}));
+
+vi.mock("../runtime/prompts/typedPrompts.js", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../runtime/prompts/typedPrompts.js")>()),
+	...typedPromptMocks,
+}));
+
 vi.mock("../runtime/shortcutPrompts.js", () => ({
 	selectWithShortcuts: vi.fn(
 		async (options: { options: Array<{ value: string }>; message?: string }) =>
@@ -258,6 +277,9 @@ beforeEach(async () => {
 	promptMocks.log.success.mockReset();
 	promptMocks.log.warn.mockReset();
 	promptMocks.log.error.mockReset();
+	promptMocks.cancel.mockReset();
+	typedPromptMocks.typedConfirmPrompt.mockReset();
+	typedPromptMocks.typedConfirmPrompt.mockImplementation(async () => true as const);
 	textPromptMock.createTextPromptWithHistory.mockReset();
 	execaMocks.execaCommand.mockReset();
 	execaMocks.execa.mockReset();
@@ -399,6 +421,118 @@ describe("runDevWizard", () => {
 		}
 	});
 
+	it("masks secret steps and keeps their answers out of the answers file and log", async () => {
+		const configPath = path.join(tmpDir, "secret.wizard.yaml");
+		await fs.writeFile(
+			configPath,
+			`meta:\n  name: Secret\n  version: 1.0.0\nscenarios:\n  - id: secret\n    label: Secret\n    flow: main\nflows:\n  main:\n    id: main\n    steps:\n      - id: ask-token\n        type: prompt\n        mode: input\n        prompt: API token?\n        storeAs: token\n        persist: true\n      - id: ask-name\n        type: prompt\n        mode: input\n        prompt: Who are you?\n        storeAs: name\n        persist: true\n`,
+		);
+
+		const logPath = path.join(tmpDir, "secret.log");
+		const originalCwd = process.cwd();
+		process.chdir(tmpDir);
+		const restoreTty = stubInteractiveTty();
+		promptMocks.password.mockClear();
+		textPromptMock.createTextPromptWithHistory.mockClear();
+
+		try {
+			const result = await runDevWizard({
+				configPath,
+				scenario: "secret",
+				secretSteps: ["ask-token"],
+				logFile: logPath,
+				quiet: true,
+				verbose: false,
+				stdout: new PassThrough(),
+				stderr: new PassThrough(),
+			});
+
+			expect(result.exitCode).toBe(0);
+			expect(promptMocks.password).toHaveBeenCalledTimes(1);
+			expect(promptMocks.password.mock.calls[0]?.[0]).toMatchObject({ message: "API token?" });
+			expect(result.state?.answers.token).toBe("s3cret-token");
+			expect(result.state?.answers.name).toBe("Alice");
+
+			const snapshot = JSON.parse(
+				await fs.readFile(result.persistedAnswers!.filePath, "utf8"),
+			) as { scenario?: Record<string, unknown> };
+			expect(snapshot.scenario?.token).toBe(REDACTED_SECRET);
+			expect(snapshot.scenario?.name).toBe("Alice");
+			expect(await fs.readFile(logPath, "utf8")).not.toContain("s3cret-token");
+		} finally {
+			restoreTty();
+			process.chdir(originalCwd);
+		}
+	});
+
+	it("steps back across two scenario prompts and re-asks them pre-filled", async () => {
+		const configPath = path.join(tmpDir, "back.wizard.yaml");
+		const promptStep = (id: string, prompt: string) =>
+			`      - id: ${id}\n        type: prompt\n        mode: input\n        prompt: ${prompt}\n        storeAs: ${id}\n        persist: true\n`;
+		await fs.writeFile(
+			configPath,
+			`meta:\n  name: Back\n  version: 1.0.0\nscenarios:\n  - id: back\n    label: Back\n    flow: main\nflows:\n  main:\n    id: main\n    steps:\n${promptStep("first", "First name?")}${promptStep("last", "Last name?")}${promptStep("city", "City?")}`,
+		);
+
+		const back = Symbol("back");
+		const responses: Array<string | typeof back> = ["Ada", "Lovelace", back, back, "Grace", "Hopper", "London"];
+		textPromptMock.createTextPromptWithHistory.mockImplementation(async () => {
+			const response = responses.shift();
+			if (response === back) {
+				process.stdin.emit("keypress", undefined, { name: "tab", shift: true, sequence: "\u001b[Z" });
+				return back as never;
+			}
+			return response ?? "";
+		});
+
+		const originalCwd = process.cwd();
+		process.chdir(tmpDir);
+		const restoreTty = stubInteractiveTty();
+
+		try {
+			const result = await runDevWizard({
+				configPath,
+				scenario: "back",
+				quiet: true,
+				verbose: false,
+				stdout: new PassThrough(),
+				stderr: new PassThrough(),
+			});
+
+			expect(result.exitCode).toBe(0);
+			const asked = textPromptMock.createTextPromptWithHistory.mock.calls.map(
+				([options]) => options as { message: string; initialValue?: string; history?: string[] },
+			);
+			// "First name?" is answered from the trail on the first re-run, not asked.
+			expect(asked.map((options) => options.message)).toEqual([
+				"First name?",
+				"Last name?",
+				"City?",
+				"Last name?",
+				"First name?",
+				"Last name?",
+				"City?",
+			]);
+			expect(asked[3]?.initialValue).toBe("Lovelace");
+			expect(asked[4]?.initialValue).toBe("Ada");
+			expect(asked[4]?.history ?? []).not.toContain("Ada");
+			expect(asked[5]?.history ?? []).not.toContain("Lovelace");
+
+			expect(result.state?.answers).toMatchObject({ first: "Grace", last: "Hopper", city: "London" });
+			const snapshot = JSON.parse(
+				await fs.readFile(result.persistedAnswers!.filePath, "utf8"),
+			) as { scenario?: Record<string, unknown> };
+			expect(snapshot.scenario).toMatchObject({ first: "Grace", last: "Hopper", city: "London" });
+
+			const history = await fs.readFile(path.join(tmpDir, ".dev-wizard", "prompt-history.json"), "utf8");
+			// "Ada" was given once by the user; answering it from the trail doesn't record it again.
+			expect(history.split('"Ada"')).toHaveLength(2);
+		} finally {
+			restoreTty();
+			process.chdir(originalCwd);
+		}
+	});
+
 	it("returns a non-zero exit code when a command fails", async () => {
 		const configPath = path.join(tmpDir, "fail.wizard.yaml");
 		await fs.writeFile(
@@ -442,6 +576,91 @@ describe("runDevWizard", () => {
 		).toBe(true);
 	});
 
+	describe("protected environments", () => {
+		async function writeDeployConfig(): Promise<string> {
+			const configPath = path.join(tmpDir, "deploy.wizard.yaml");
+			await fs.writeFile(
+				configPath,
+				`meta:\n  name: Deploy\n  version: 1.0.0\nscenarios:\n  - id: deploy\n    label: Deploy\n    flow: main\nflows:\n  main:\n    id: main\n    steps:\n      - id: ship\n        type: command\n        commands:\n          - run: pnpm deploy\n`,
+			);
+			return configPath;
+		}
+
+		it("refuses to execute against production without a terminal unless allowed", async () => {
+			const configPath = await writeDeployConfig();
+			const stdinDescriptor = Object.getOwnPropertyDescriptor(process.stdin, "isTTY");
+			const stdoutDescriptor = Object.getOwnPropertyDescriptor(process.stdout, "isTTY");
+			Object.defineProperty(process.stdin, "isTTY", { configurable: true, value: false });
+			Object.defineProperty(process.stdout, "isTTY", { configurable: true, value: false });
+
+			try {
+				const refused = await runDevWizard({
+					configPath,
+					scenario: "deploy",
+					environment: "production",
+					quiet: true,
+					verbose: false,
+					stdout: new PassThrough(),
+					stderr: new PassThrough(),
+				});
+
+				expect(refused.exitCode).toBe(1);
+				expect(execaMocks.execaCommand).not.toHaveBeenCalled();
+				expect(String(promptMocks.cancel.mock.calls[0]?.[0])).toContain("production is a protected environment");
+
+				const allowed = await runDevWizard({
+					configPath,
+					scenario: "deploy",
+					environment: "production",
+					allowUnattendedProtected: true,
+					quiet: true,
+					verbose: false,
+					stdout: new PassThrough(),
+					stderr: new PassThrough(),
+				});
+
+				expect(allowed.exitCode).toBe(0);
+				expect(execaMocks.execaCommand).toHaveBeenCalled();
+			} finally {
+				if (stdinDescriptor) {
+					Object.defineProperty(process.stdin, "isTTY", stdinDescriptor);
+				} else {
+					Reflect.deleteProperty(process.stdin, "isTTY");
+				}
+				if (stdoutDescriptor) {
+					Object.defineProperty(process.stdout, "isTTY", stdoutDescriptor);
+				} else {
+					Reflect.deleteProperty(process.stdout, "isTTY");
+				}
+			}
+		});
+
+		it("asks for the typed confirmation in quiet runs", async () => {
+			const configPath = await writeDeployConfig();
+			const restoreTty = stubInteractiveTty();
+
+			try {
+				const result = await runDevWizard({
+					configPath,
+					scenario: "deploy",
+					environment: "production",
+					quiet: true,
+					verbose: false,
+					stdout: new PassThrough(),
+					stderr: new PassThrough(),
+				});
+
+				expect(result.exitCode).toBe(0);
+				expect(typedPromptMocks.typedConfirmPrompt).toHaveBeenCalledWith(
+					expect.objectContaining({ phrase: "production" }),
+				);
+				expect(execaMocks.execaCommand).toHaveBeenCalled();
+			} finally {
+				restoreTty();
+			}
+		});
+	});
+
 	it("captures a manifest without executing commands", async () => {
 		const configPath = path.join(tmpDir, "manifest.wizard.yaml");
 		await fs.writeFile(
@@ -829,23 +1048,15 @@ flows:
 			const restoreTty = stubInteractiveTty();
 
 			const originalSelectImplementation = promptMocks.select.getMockImplementation();
-			const originalTextImplementation = promptMocks.text.getMockImplementation();
-			promptMocks.select.mockImplementation(async (options: { options: Array<{ value: string }>; message?: string }) => {
-				if (options.message === "Select a task" && options.options.some((option) => option.value === "__custom__")) {
-					return "__custom__";
+			promptMocks.select.mockImplementation(async (options: { options: Array<{ value: string }>; message?: string; otherLabel?: string }) => {
+				if (options.message === "Select a task" && options.otherLabel !== undefined) {
+					return "custom-weekly";
 				}
 				if (options.options.some((option) => option.value === "weekly")) {
 					return "weekly";
 				}
 				return options.options[0]?.value ?? "";
 			});
-			promptMocks.text.mockImplementation(async (...args: unknown[]) => {
-				const [options] = args as Array<{ message?: string } | undefined>;
-				if (options?.message === "Select a task") {
-					return "custom-weekly";
-				}
-				return "Alice";
-			});
 
 			try {
 				const result = await runDevWizard({
@@ -866,11 +1077,6 @@ flows:
 						return options.options[0]?.value ?? "";
 					});
 				}
-				if (originalTextImplementation) {
-					promptMocks.text.mockImplementation(originalTextImplementation);
-				} else {
-					promptMocks.text.mockImplementation(async () => "Alice");
-				}
 				process.chdir(originalCwd);
 			}
 		});
@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+
+import type { SessionPromptDriver } from "../runtime/recordingPromptDriver.js";
+import {
+	REDACTED_SECRET,
+	SecretRegistry,
+	createRedactingLogWriter,
+	excludeSecretsFromHistory,
+	maskSecretPrompts,
+	redactPersistedSecrets,
+} from "../runtime/secrets.js";
+
+describe("SecretRegistry", () => {
+	it("redacts registered values inside nested structures", () => {
+		const secrets = new SecretRegistry();
+		secrets.register("ghp_token123");
+		secrets.register("ab");
+
+		expect(
+			secrets.redact({
+				answer: "ghp_token123",
+				command: "curl -H 'Authorization: ghp_token123'",
+				short: "ab",
+				tags: ["tab", "ab"],
+			}),
+		).toEqual({
+			answer: REDACTED_SECRET,
+			command: `curl -H 'Authorization: ${REDACTED_SECRET}'`,
+			short: REDACTED_SECRET,
+			tags: ["tab", REDACTED_SECRET],
+		});
+	});
+});
+
+describe("secret redaction wrappers", () => {
+	it("redacts log events before they reach the underlying writer", async () => {
+		const secrets = new SecretRegistry();
+		const written: unknown[] = [];
+		const writer = createRedactingLogWriter(
+			{
+				write(event) {
+					written.push(event);
+				},
+				async close() {},
+			},
+			secrets,
+		);
+		secrets.register("hunter22");
+
+		writer.write({ type: "prompt.answer", value: "hunter22" } as never);
+		await writer.close();
+
+		expect(written).toEqual([{ type: "prompt.answer", value: REDACTED_SECRET }]);
+	});
+
+	it("persists secrets as a marker and never reads the marker back", () => {
+		const secrets = new SecretRegistry();
+		const store = new Map<string, unknown>();
+		const persistence = redactPersistedSecrets(
+			{
+				set(key: { key: string }, value: unknown) {
+					store.set(key.key, value);
+				},
+				get(key: { key: string }) {
+					return store.get(key.key);
+				},
+			} as never,
+			secrets,
+		);
+		secrets.register("s3cret!!");
+
+		persistence.set({ key: "token" }, "s3cret!!");
+		persistence.set({ key: "name" }, "Alice");
+		persistence.set({ key: "auth" }, { user: "alice", token: "s3cret!!" });
+
+		expect(store.get("token")).toBe(REDACTED_SECRET);
+		expect(store.get("auth")).toEqual({ user: "alice", token: REDACTED_SECRET });
+		expect(persistence.get({ key: "token" })).toBeUndefined();
+		expect(persistence.get({ key: "auth" })).toBeUndefined();
+		expect(persistence.get({ key: "name" })).toBe("Alice");
+	});
+
+	it("leaves persisted answers that only contain a secret's text untouched", () => {
+		const secrets = new SecretRegistry();
+		const store = new Map<string, unknown>();
+		const persistence = redactPersistedSecrets(
+			{
+				set(key: { key: string }, value: unknown) {
+					store.set(key.key, value);
+				},
+				get(key: { key: string }) {
+					return store.get(key.key);
+				},
+			} as never,
+			secrets,
+		);
+		secrets.register("main");
+
+		persistence.set({ key: "branch" }, "main-hotfix");
+		persistence.set({ key: "branches" }, ["main", "release/main"]);
+
+		expect(store.get("branch")).toBe("main-hotfix");
+		expect(store.get("branches")).toEqual([REDACTED_SECRET, "release/main"]);
+	});
+
+	it("drops history entries that carry a secret and leaves the other methods alone", async () => {
+		const secrets = new SecretRegistry();
+		const recorded: unknown[] = [];
+		const close = async () => {};
+		const history = excludeSecretsFromHistory(
+			{
+				record(_key: string, value: unknown) {
+					recorded.push(value);
+				},
+				close,
+			} as never,
+			secrets,
+		);
+		secrets.register("s3cret!!");
+
+		history.record("token", "s3cret!!");
+		history.record("tokens", ["s3cret!!"]);
+		history.record("name", "Alice");
+		history.record("note", "prefix s3cret!!");
+
+		expect(recorded).toEqual(["Alice", "prefix s3cret!!"]);
+		expect(history.close).toBe(close);
+	});
+
+	it("asks the text prompts of secret steps through password", async () => {
+		const calls: string[] = [];
+		const driver = maskSecretPrompts(
+			{
+				async text(options: { message: string }) {
+					calls.push(`text:${options.message}`);
+					return "Alice";
+				},
+				async textWithHistory(options: { message: string; history: readonly string[] }) {
+					calls.push(`textWithHistory:${options.message}`);
+					return "main";
+				},
+				async password(options: { message: string }) {
+					calls.push(`password:${JSON.stringify(options)}`);
+					return "s3cret!!";
+				},
+			} as unknown as SessionPromptDriver,
+			new Set(["API token?"]),
+		);
+
+		await expect(driver.text({ message: "Name?" })).resolves.toBe("Alice");
+		await expect(driver.text({ message: "API token?", initialValue: "old" })).resolves.toBe("s3cret!!");
+		await expect(
+			driver.textWithHistory({ message: "API token?", history: ["leaked"] }),
+		).resolves.toBe("s3cret!!");
+
+		expect(calls).toEqual([
+			"text:Name?",
+			'password:{"message":"API token?"}',
+			'password:{"message":"API token?"}',
+		]);
+	});
+});
@@ -0,0 +1,224 @@
+import { PassThrough } from "node:stream";
+import { describe, expect, it } from "vitest";
+
+import { selectWithShortcuts } from "../runtime/shortcutPrompts.js";
+import {
+	ShortcutConflictError,
+	ShortcutRegistry,
+	detectShortcutConflicts,
+} from "../runtime/shortcutRegistry.js";
+
+describe("ShortcutRegistry", () => {
+	it("labels built-in and registered actions", () => {
+		const registry = new ShortcutRegistry();
+		const unregister = registry.register({
+			action: "open-docs",
+			key: "D",
+			label: "docs",
+			handler: () => {},
+		});
+
+		expect(registry.get("open-docs")?.key).toBe("d");
+		expect(registry.labelFor("open-docs")).toBe("docs");
+		expect(registry.labelFor("skip-step")).toBe("skip step");
+		expect(registry.labelFor("unknown")).toBe("unknown");
+
+		unregister();
+		expect(registry.list()).toEqual([]);
+	});
+
+	it("reports keys bound twice or reserved for navigation", () => {
+		const conflicts = detectShortcutConflicts(
+			[
+				{ key: "s", action: "skip-step", label: "skip step" },
+				{ key: "s", action: "open-docs", label: "docs" },
+				{ key: "j", action: "replay-command", label: "replay" },
+				{ key: "x", action: "safe-abort", label: "abort" },
+			],
+			["j", "k"],
+		);
+
+		expect(conflicts).toEqual([
+			{ key: "s", actions: ["skip-step", "open-docs"] },
+			{ key: "j", actions: ["replay-command"] },
+		]);
+	});
+});
+
+describe("selectWithShortcuts", () => {
+	const options = [
+		{ value: "build", label: "Build" },
+		{ value: "test", label: "Test" },
+	];
+
+	it("renders a legend for every bound shortcut", async () => {
+		const input = new PassThrough();
+		const output = new PassThrough();
+		let rendered = "";
+		output.on("data", (chunk) => {
+			rendered += String(chunk);
+		});
+
+		const result = selectWithShortcuts({
+			message: "Pick a step",
+			options,
+			shortcuts: [
+				{ key: "s", value: "__skip__", action: "skip-step" },
+				{ key: "x", value: "__abort__", action: "safe-abort", label: "stop" },
+			],
+			registry: new ShortcutRegistry(),
+			input,
+			output,
+		});
+
+		input.write("x");
+
+		await expect(result).resolves.toBe("__abort__");
+		expect(rendered).toContain("skip step");
+		expect(rendered).toContain("stop");
+	});
+
+	it("runs registry handlers without closing the prompt", async () => {
+		const input = new PassThrough();
+		const output = new PassThrough();
+		const registry = new ShortcutRegistry();
+		const calls: string[] = [];
+		registry.register({
+			action: "open-docs",
+			key: "d",
+			label: "docs",
+			handler: ({ message }) => {
+				calls.push(message);
+			},
+		});
+
+		const result = selectWithShortcuts({ message: "Pick a step", options, registry, input, output });
+
+		input.write("d");
+		await new Promise((resolve) => setImmediate(resolve));
+		input.write("\u001b[B\r");
+
+		await expect(result).resolves.toBe("test");
+		expect(calls).toEqual(["Pick a step"]);
+	});
+
+	it("fires a shortcut typed in uppercase into an empty filter", async () => {
+		const input = new PassThrough();
+		const output = new PassThrough();
+		output.resume();
+
+		const result = selectWithShortcuts({
+			message: "Pick a step",
+			options,
+			shortcuts: [{ key: "s", value: "__skip__", action: "skip-step" }],
+			filter: true,
+			registry: new ShortcutRegistry(),
+			input,
+			output,
+		});
+
+		input.write("S");
+
+		await expect(result).resolves.toBe("__skip__");
+	});
+
+	it("rejects conflicting keys before the prompt opens", async () => {
+		const registry = new ShortcutRegistry();
+		registry.register({ action: "open-docs", key: "s", label: "docs", handler: () => {} });
+
+		await expect(
+			selectWithShortcuts({
+				message: "Pick a step",
+				options,
+				shortcuts: [{ key: "s", value: "__skip__", action: "skip-step" }],
+				registry,
+				input: new PassThrough(),
+				output: new PassThrough(),
+			}),
+		).rejects.toBeInstanceOf(ShortcutConflictError);
+
+		await expect(
+			selectWithShortcuts({
+				message: "Pick a step",
+				options,
+				shortcuts: [{ key: "j", value: "__skip__", action: "skip-step" }],
+				registry: new ShortcutRegistry(),
+				input: new PassThrough(),
+				output: new PassThrough(),
+			}),
+		).rejects.toThrow(/reserved for navigation/);
+	});
+});
+
+describe("selectWithShortcuts details", () => {
+	it("shows details for the highlighted option and follows the cursor", async () => {
+		const input = new PassThrough();
+		const output = new PassThrough();
+		let rendered = "";
+		output.on("data", (chunk) => {
+			rendered += String(chunk);
+		});
+		const details: Record<string, string[]> = {
+			build: ["Compiles every package."],
+			test: ["Runs vitest.", "flows: unit, e2e"],
+		};
+
+		const result = selectWithShortcuts({
+			message: "Pick a step",
+			options: [
+				{ value: "build", label: "Build" },
+				{ value: "test", label: "Test" },
+			],
+			details: (option) => details[option.value],
+			registry: new ShortcutRegistry(),
+			input,
+			output,
+		});
+
+		expect(rendered).toContain("Compiles every package.");
+		expect(rendered).not.toContain("Runs vitest.");
+		input.write("\u001b[B");
+		expect(rendered).toContain("flows: unit, e2e");
+		input.write("\r");
+
+		await expect(result).resolves.toBe("test");
+	});
+
+	it("loads promised details once, when the option is first highlighted", async () => {
+		const input = new PassThrough();
+		const output = new PassThrough();
+		let rendered = "";
+		output.on("data", (chunk) => {
+			rendered += String(chunk);
+		});
+		const requested: string[] = [];
+
+		const result = selectWithShortcuts({
+			message: "Pick a config",
+			options: [
+				{ value: "a.yaml", label: "a.yaml" },
+				{ value: "b.yaml", label: "b.yaml" },
+			],
+			details: async (option) => {
+				requested.push(option.value);
+				return [`scenarios in ${option.value}`];
+			},
+			registry: new ShortcutRegistry(),
+			input,
+			output,
+		});
+
+		expect(requested).toEqual(["a.yaml"]);
+		expect(rendered).toContain("Loading details...");
+		await new Promise((resolve) => setImmediate(resolve));
+		expect(rendered).toContain("scenarios in a.yaml");
+
+		input.write("\u001b[B");
+		await new Promise((resolve) => setImmediate(resolve));
+		input.write("\u001b[A\r");
+
+		await expect(result).resolves.toBe("a.yaml");
+		expect(requested).toEqual(["a.yaml", "b.yaml"]);
+		expect(rendered).toContain("scenarios in b.yaml");
+	});
+});
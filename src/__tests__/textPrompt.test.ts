@@ -93,4 +93,98 @@ describe("createTextPromptWithHistory", () => {
 		prompt.submit("done");
 		await expect(promptPromise).resolves.toBe("done");
 	});
+
+	it("filters up/down by the typed prefix and collapses consecutive duplicates", async () => {
+		const { createTextPromptWithHistory } = await import("../runtime/textPrompt.js");
+		const promptPromise = createTextPromptWithHistory({
+			message: "Command",
+			history: ["pnpm build", "git status", "pnpm test", "pnpm test"],
+		});
+
+		const coreModule = (await import("@clack/core")) as unknown as {
+			__getLastPromptInstance: () => {
+				value: string;
+				rl: { write: ReturnType<typeof vi.fn> };
+				emit(event: string, payload?: unknown): void;
+				submit(value: string | symbol): void;
+			};
+		};
+		const prompt = coreModule.__getLastPromptInstance();
+		prompt.value = "pnpm";
+
+		prompt.emit("cursor", "up");
+		expect(prompt.value).toBe("pnpm test");
+		prompt.emit("cursor", "up");
+		expect(prompt.value).toBe("pnpm build");
+		prompt.emit("cursor", "up");
+		expect(prompt.value).toBe("pnpm build");
+		prompt.emit("cursor", "down");
+		expect(prompt.value).toBe("pnpm test");
+		prompt.emit("cursor", "down");
+		expect(prompt.value).toBe("pnpm");
+
+		prompt.submit("pnpm");
+		await expect(promptPromise).resolves.toBe("pnpm");
+	});
+
+	it("submits the reverse search match on enter", async () => {
+		const { createTextPromptWithHistory } = await import("../runtime/textPrompt.js");
+		const promptPromise = createTextPromptWithHistory({
+			message: "Command",
+			history: ["git status", "pnpm build", "git stash pop", "pnpm test"],
+		});
+
+		const coreModule = (await import("@clack/core")) as unknown as {
+			__getLastPromptInstance: () => {
+				value: string;
+				state: string;
+				rl: { write: ReturnType<typeof vi.fn> };
+				emit(event: string, payload?: unknown): void;
+				submit(value: string | symbol): void;
+			};
+		};
+		const prompt = coreModule.__getLastPromptInstance();
+		prompt.value = "draft";
+
+		prompt.emit("key", "\u0012");
+		expect(prompt.value).toBe("");
+		prompt.value = "git st";
+		prompt.emit("value", "git st");
+		prompt.emit("key", "\u0012");
+
+		prompt.state = "submit";
+		prompt.emit("finalize");
+		expect(prompt.value).toBe("git status");
+
+		prompt.submit(prompt.value);
+		await expect(promptPromise).resolves.toBe("git status");
+	});
+
+	it("restores the draft when the search is aborted", async () => {
+		const { createTextPromptWithHistory } = await import("../runtime/textPrompt.js");
+		const promptPromise = createTextPromptWithHistory({
+			message: "Command",
+			history: ["git status"],
+		});
+
+		const coreModule = (await import("@clack/core")) as unknown as {
+			__getLastPromptInstance: () => {
+				value: string;
+				emit(event: string, payload?: unknown): void;
+				submit(value: string | symbol): void;
+			};
+		};
+		const prompt = coreModule.__getLastPromptInstance();
+		prompt.value = "draft";
+
+		prompt.emit("key", "\u0012");
+		prompt.value = "git";
+		prompt.emit("value", "git");
+		prompt.emit("key", "\u0007");
+
+		expect(prompt.value).toBe("draft");
+
+		prompt.submit(prompt.value);
+		await expect(promptPromise).resolves.toBe("draft");
+	});
 });
@@ -0,0 +1,70 @@
+import { PassThrough } from "node:stream";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { orderedMultiselect } from "../runtime/prompts/orderedMultiselect.js";
+import {
+	createTheme,
+	detectColorSupport,
+	getTheme,
+	resolveThemeName,
+	setTheme,
+} from "../runtime/theme.js";
+
+const tty = { isTTY: true };
+
+describe("theme selection", () => {
+	afterEach(() => {
+		setTheme("default", { color: false });
+	});
+
+	it("prefers the option, then DEV_WIZARD_THEME, then the default", () => {
+		expect(resolveThemeName("ascii", { DEV_WIZARD_THEME: "high-contrast" })).toBe("ascii");
+		expect(resolveThemeName(undefined, { DEV_WIZARD_THEME: " High-Contrast " })).toBe("high-contrast");
+		expect(resolveThemeName(undefined, { DEV_WIZARD_THEME: "neon" })).toBe("default");
+		expect(() => resolveThemeName("neon", {})).toThrow(/Unknown theme "neon"/);
+	});
+
+	it("decides colors once for NO_COLOR and FORCE_COLOR", () => {
+		expect(detectColorSupport({}, tty, [])).toBe(true);
+		expect(detectColorSupport({}, {}, [])).toBe(false);
+		expect(detectColorSupport({ NO_COLOR: "1" }, tty, [])).toBe(false);
+		expect(detectColorSupport({ NO_COLOR: "1", FORCE_COLOR: "1" }, {}, [])).toBe(true);
+		expect(detectColorSupport({ FORCE_COLOR: "0" }, tty, [])).toBe(false);
+		expect(detectColorSupport({ FORCE_COLOR: "1" }, tty, ["--no-color"])).toBe(false);
+	});
+
+	it("keeps the color decision inside the theme", () => {
+		expect(setTheme("default", { color: false }).palette.danger("x")).toBe("x");
+		expect(setTheme("high-contrast", { color: true }).palette.danger("x")).not.toBe("x");
+		expect(getTheme().palette.danger("x")).not.toBe("x");
+	});
+
+	it("falls back to ASCII symbols without Unicode support", () => {
+		expect(createTheme("default", { color: false, unicode: true }).symbols.pointer).toBe("❯");
+		expect(createTheme("default", { color: false, unicode: false }).symbols.pointer).toBe(">");
+		expect(createTheme("ascii", { color: false, unicode: true }).symbols.pointer).toBe(">");
+	});
+
+	it("renders prompts in pure ASCII with the ascii theme", async () => {
+		setTheme("ascii", { color: false });
+		const input = new PassThrough();
+		const output = new PassThrough();
+		let rendered = "";
+		output.on("data", (chunk) => {
+			rendered += String(chunk);
+		});
+
+		const result = orderedMultiselect({
+			message: "Build order",
+			options: [{ value: "engine" }, { value: "ui" }],
+			input,
+			output,
+		});
+		input.write(" \r");
+
+		await expect(result).resolves.toEqual(["engine"]);
+		expect(rendered).toContain("> [1] engine");
+		expect(rendered).toContain("space select | shift+up/down reorder");
+		expect(rendered).not.toMatch(/[\u0080-\uffff]/);
+	});
+});
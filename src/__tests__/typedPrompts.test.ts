@@ -0,0 +1,134 @@
+import { PassThrough } from "node:stream";
+import { describe, expect, it } from "vitest";
+
+import {
+	datePrompt,
+	durationPrompt,
+	numberPrompt,
+	typedConfirmPrompt,
+} from "../runtime/prompts/typedPrompts.js";
+import {
+	formatDuration,
+	parseDateInput,
+	parseDuration,
+	parseNumber,
+	stepNumber,
+} from "../runtime/prompts/typedValues.js";
+
+const UP = "\u001b[A";
+const DOWN = "\u001b[B";
+
+describe("typed values", () => {
+	it("checks numbers against min and max and steps within them", () => {
+		expect(parseNumber("8080", { min: 1, max: 65535 })).toEqual({ value: 8080 });
+		expect(parseNumber("0", { min: 1 })).toEqual({ error: "Enter a number of at least 1." });
+		expect(parseNumber("port")).toEqual({ error: "port is not a number." });
+		expect(stepNumber(0.2, 1, { step: 0.1 })).toBe(0.3);
+		expect(stepNumber(65535, 1, { max: 65535 })).toBe(65535);
+	});
+
+	it("resolves ISO and relative dates against today", () => {
+		const now = new Date(2026, 0, 30);
+		expect(parseDateInput("2026-02-28", now)).toEqual({ value: "2026-02-28" });
+		expect(parseDateInput("2026-02-30", now)).toEqual({ error: "2026-02-30 is not a valid date." });
+		expect(parseDateInput("today", now)).toEqual({ value: "2026-01-30" });
+		expect(parseDateInput("+7d", now)).toEqual({ value: "2026-02-06" });
+		expect(parseDateInput("-2w", now)).toEqual({ value: "2026-01-16" });
+		expect(parseDateInput("next friday", now)).toHaveProperty("error");
+	});
+
+	it("parses durations into milliseconds and formats them back", () => {
+		expect(parseDuration("90s")).toEqual({ value: 90_000 });
+		expect(parseDuration("5m")).toEqual({ value: 300_000 });
+		expect(parseDuration("1h 30m")).toEqual({ value: 5_400_000 });
+		expect(parseDuration("250ms")).toEqual({ value: 250 });
+		expect(parseDuration("90")).toHaveProperty("error");
+		expect(parseDuration("5 minutes")).toHaveProperty("error");
+		expect(formatDuration(5_400_000)).toBe("1h30m");
+		expect(formatDuration(90_000)).toBe("1m30s");
+	});
+});
+
+describe("typed prompts", () => {
+	it("increments numbers with the arrow keys and resolves a number", async () => {
+		const input = new PassThrough();
+		const result = numberPrompt({
+			message: "Port",
+			initialValue: 8080,
+			max: 8081,
+			input,
+			output: new PassThrough(),
+		});
+
+		input.write(UP);
+		input.write(UP);
+		input.write(DOWN);
+		input.write("\r");
+
+		await expect(result).resolves.toBe(8080);
+	});
+
+	it("keeps invalid numbers from submitting", async () => {
+		const input = new PassThrough();
+		const output = new PassThrough();
+		let rendered = "";
+		output.on("data", (chunk) => {
+			rendered += String(chunk);
+		});
+		const result = numberPrompt({ message: "Retries", min: 0, max: 5, input, output });
+
+		input.write("9\r");
+		expect(rendered).toContain("Enter a number of at most 5.");
+		input.write("\x7f3\r");
+
+		await expect(result).resolves.toBe(3);
+	});
+
+	it("resolves relative dates and durations to their typed values", async () => {
+		const dateInput = new PassThrough();
+		const date = datePrompt({
+			message: "Release date",
+			now: new Date(2026, 9, 19),
+			input: dateInput,
+			output: new PassThrough(),
+		});
+		dateInput.write("+7d\r");
+		await expect(date).resolves.toBe("2026-10-26");
+
+		const durationInput = new PassThrough();
+		const duration = durationPrompt({
+			message: "Timeout",
+			initialValue: 90_000,
+			input: durationInput,
+			output: new PassThrough(),
+		});
+		durationInput.write("\r");
+		await expect(duration).resolves.toBe(90_000);
+	});
+});
+
+describe("typedConfirmPrompt", () => {
+	it("only confirms once the phrase is typed exactly", async () => {
+		const input = new PassThrough();
+		const output = new PassThrough();
+		let rendered = "";
+		output.on("data", (chunk) => {
+			rendered += String(chunk);
+		});
+
+		const result = typedConfirmPrompt({
+			message: "Deploy to production?",
+			phrase: "production",
+			input,
+			output,
+		});
+
+		input.write("\r");
+		expect(rendered).toContain("Type production to confirm.");
+		input.write("Production\r");
+		expect(rendered).toContain('"Production" does not match production.');
+		input.write("\u0015production\r");
+
+		await expect(result).resolves.toBe(true);
+	});
+});
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { orderedMultiselect } from "../runtime/prompts/orderedMultiselect.js";
+import { selectWithShortcuts } from "../runtime/shortcutPrompts.js";
+import { createTextPromptWithHistory } from "../runtime/textPrompt.js";
+import { setTheme } from "../runtime/theme.js";
+import { VirtualTerminal, parseKeyScript, runPrompt } from "../runtime/virtualTerminal.js";
+
+describe("virtualTerminal", () => {
+	beforeEach(() => {
+		setTheme("ascii", { color: false });
+	});
+
+	afterEach(() => {
+		setTheme("default", { color: false });
+	});
+
+	it("parses key names, quoted text and pauses", () => {
+		expect(parseKeyScript('down Shift-Tab ctrl+c "a b" wait:20 x')).toEqual([
+			{ kind: "keys", sequence: "\u001b[B" },
+			{ kind: "keys", sequence: "\u001b[Z" },
+			{ kind: "keys", sequence: "\u0003" },
+			{ kind: "keys", sequence: "a b" },
+			{ kind: "wait", ms: 20 },
+			{ kind: "keys", sequence: "x" },
+		]);
+		expect(parseKeyScript(["hello world", "enter"])).toEqual([
+			{ kind: "keys", sequence: "hello world" },
+			{ kind: "keys", sequence: "\r" },
+		]);
+	});
+
+	it("applies cursor moves and line erases to the screen", () => {
+		const terminal = new VirtualTerminal();
+		terminal.output.write("one\ntwo\nthree\n");
+		terminal.output.write("\u001b[2A\u001b[2K\u001b[Gdos\u001b[2B");
+		terminal.output.write("\u001b[1A\u001b[G\u001b[J\u001b[32mtres\u001b[39m   ");
+		expect(terminal.screen).toBe("one\ndos\ntres");
+		expect(terminal.transcript).toContain("\u001b[32m");
+	});
+
+	it("renders each keystroke of an ordered multiselect", async () => {
+		const result = await runPrompt(
+			({ input, output }) =>
+				orderedMultiselect({
+					message: "Build order",
+					options: [{ value: "engine" }, { value: "ui" }, { value: "cli" }],
+					input,
+					output,
+				}),
+			{ keys: "down space down space enter" },
+		);
+
+		expect(result.value).toEqual(["ui", "cli"]);
+		expect(result.cancelled).toBe(false);
+		expect(result.frames.length).toBeGreaterThan(2);
+		expect(result.frames[0]).toContain("Build order");
+		expect(result.finalFrame).toContain("1. ui, 2. cli");
+	});
+
+	it("types into the history-aware text prompt", async () => {
+		const result = await runPrompt(
+			({ input, output }) =>
+				createTextPromptWithHistory({ message: "Branch", history: ["main"], input, output }),
+			{ keys: '"feat/x" backspace "y" enter' },
+		);
+
+		expect(result.value).toBe("feat/y");
+		expect(result.frames.some((frame) => frame.includes("feat/x"))).toBe(true);
+	});
+
+	it("types quoted key names as text", async () => {
+		const result = await runPrompt(
+			({ input, output }) =>
+				createTextPromptWithHistory({ message: "Branch", history: ["main"], input, output }),
+			{ keys: '"up" "enter" "wait:5" "ctrl+x" enter' },
+		);
+
+		expect(result.value).toBe("upenterwait:5ctrl+x");
+	});
+
+	it("recalls history and reports escape as a cancellation", async () => {
+		const recalled = await runPrompt(
+			({ input, output }) =>
+				createTextPromptWithHistory({ message: "Branch", history: ["main", "dev"], input, output }),
+			{ keys: "up up enter" },
+		);
+		expect(recalled.value).toBe("main");
+
+		const cancelled = await runPrompt(
+			({ input, output }) => createTextPromptWithHistory({ message: "Branch", input, output }),
+			{ keys: "escape" },
+		);
+		expect(cancelled.cancelled).toBe(true);
+	});
+
+	it("fires shortcuts in a select", async () => {
+		const actions: string[] = [];
+		const result = await runPrompt(
+			({ input, output }) =>
+				selectWithShortcuts({
+					message: "Environment",
+					options: [{ value: "dev" }, { value: "prod" }],
+					shortcuts: [{ key: "b", value: "back", action: "back" }],
+					onShortcut: (action) => actions.push(action),
+					input,
+					output,
+				}),
+			{ keys: "down b" },
+		);
+
+		expect(result.value).toBe("back");
+		expect(actions).toEqual(["back"]);
+		expect(result.frames[0]).toMatch(/dev[\s\S]*prod/);
+	});
+
+	it("fails with the last screen when the prompt never resolves", async () => {
+		await expect(
+			runPrompt(
+				({ input, output }) => createTextPromptWithHistory({ message: "Branch", input, output }),
+				{ keys: "x", timeoutMs: 50 },
+			),
+		).rejects.toThrow(/did not resolve within 50 ms[\s\S]*Branch/);
+	});
+});
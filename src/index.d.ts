@@ -1,3 +0,0 @@
-export { runDevWizard } from "./runtime/runDevWizard.js";
-export { ClackPromptDriver } from "./runtime/clackPromptDriver.js";
-export { runProjectsOrchestrator, runMaintenanceWizard, runWorkspaceWizard, } from "./runtime/scriptKit.js";
@@ -1,5 +1,97 @@
-export { runDevWizard } from "./runtime/runDevWizard.js";
-export { ClackPromptDriver } from "./runtime/clackPromptDriver.js";
+export { runDevWizard, type RunDevWizardOptions } from "./runtime/runDevWizard.js";
+export {
+	ClackPromptDriver,
+	type ClackPromptDriverOptions,
+} from "./runtime/clackPromptDriver.js";
+export {
+	DEFAULT_LOCALE,
+	availableLocales,
+	getLocale,
+	registerMessages,
+	resolveLocale,
+	setLocale,
+	type Message,
+	type MessageCatalog,
+	type MessageKey,
+	type MessageParams,
+	type PluralMessage,
+} from "./runtime/i18n.js";
+export {
+	LinearPromptDriver,
+	resolveScreenReaderMode,
+	type LinearPromptDriverOptions,
+} from "./runtime/linearPromptDriver.js";
+export type {
+	OptionsProvider,
+	OptionsProviderContext,
+	OptionsSource,
+} from "./runtime/prompts/asyncOptions.js";
+export type { DefaultSource, PromptHelp } from "./runtime/prompts/promptHelp.js";
+export type { PromptAutoAnswerLogEvent, PromptTimeoutEvent } from "./runtime/prompts/promptTimeout.js";
+export {
+	PromptNavigationSignal,
+	isPromptNavigationSignal,
+	type AnsweredPrompt,
+	type BackNavigationKey,
+} from "./runtime/promptNavigation.js";
+export {
+	PROMPT_SESSION_VERSION,
+	PromptSessionMismatchError,
+	findPromptMismatch,
+	readPromptSession,
+	writePromptSession,
+	type PromptCall,
+	type PromptMethod,
+	type PromptOutcome,
+	type PromptSession,
+	type RecordedPrompt,
+} from "./runtime/promptSession.js";
+export {
+	RecordingPromptDriver,
+	type RecordingPromptDriverOptions,
+	type SessionPromptDriver,
+} from "./runtime/recordingPromptDriver.js";
+export {
+	ReplayPromptDriver,
+	findMissingSecretAnswers,
+	type ReplayPromptDriverOptions,
+} from "./runtime/replayPromptDriver.js";
+export { REDACTED_SECRET, SecretRegistry } from "./runtime/secrets.js";
+export {
+	ShortcutConflictError,
+	ShortcutRegistry,
+	defaultShortcutRegistry,
+	detectShortcutConflicts,
+	type ShortcutActionContext,
+	type ShortcutActionDefinition,
+	type ShortcutBinding,
+	type ShortcutConflict,
+} from "./runtime/shortcutRegistry.js";
+export {
+	THEME_NAMES,
+	createTheme,
+	detectColorSupport,
+	detectUnicodeSupport,
+	getTheme,
+	resolveThemeName,
+	setTheme,
+	type CreateThemeOptions,
+	type Theme,
+	type ThemeName,
+	type ThemePalette,
+	type ThemeSymbols,
+} from "./runtime/theme.js";
+export {
+	KEY_SEQUENCES,
+	VirtualTerminal,
+	parseKeyScript,
+	runPrompt,
+	type KeyScript,
+	type KeyStroke,
+	type PromptRunResult,
+	type RunPromptOptions,
+	type VirtualTerminalOptions,
+} from "./runtime/virtualTerminal.js";
 export {
 	runProjectsOrchestrator,
 	runMaintenanceWizard,
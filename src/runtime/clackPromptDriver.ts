@@ -2,145 +2,633 @@ import {
 	confirm,
 	isCancel,
 	multiselect,
+	password,
 	select,
 	text,
 } from "@clack/prompts";
+import process from "node:process";
 
 import type { PromptDriver } from "@ScaffoldStack/dev-wizard-engine/runtime/promptDriver.js";
 import { PromptCancelledError } from "@ScaffoldStack/dev-wizard-engine/runtime/promptDriver.js";
 import { createTextPromptWithHistory } from "./textPrompt.js";
+import { isOptionsProvider, type OptionsSource } from "./prompts/asyncOptions.js";
+import { keyValuePrompt, listPrompt } from "./prompts/collectionPrompt.js";
+import { hasDisabledOptions } from "./prompts/disabledOptions.js";
+import { editorPrompt } from "./prompts/editorPrompt.js";
+import { filterMultiselect } from "./prompts/filterMultiselect.js";
+import { hasGroupedOptions } from "./prompts/optionGroups.js";
 import { orderedMultiselect } from "./prompts/orderedMultiselect.js";
+import { selectWithOther } from "./prompts/otherSelectPrompt.js";
+import { createPathPrompt } from "./prompts/pathPrompt.js";
+import {
+	HelpPanel,
+	hasPromptHelp,
+	watchHelpKey,
+	type PromptHelp,
+} from "./prompts/promptHelp.js";
+import {
+	RETURN_KEY,
+	watchInactivity,
+	type PromptTimeoutEvent,
+	type SyntheticKey,
+} from "./prompts/promptTimeout.js";
+import {
+	datePrompt,
+	durationPrompt,
+	numberPrompt,
+	typedConfirmPrompt,
+} from "./prompts/typedPrompts.js";
+import {
+	AnswerTrail,
+	PromptNavigationSignal,
+	promptIdentity,
+	watchBackNavigation,
+	type BackNavigationKey,
+} from "./promptNavigation.js";
+import type { SecretRegistry } from "./secrets.js";
 import { selectWithShortcuts } from "./shortcutPrompts.js";
+import type { ShortcutRegistry } from "./shortcutRegistry.js";
+
+export interface ClackPromptDriverOptions {
+	/** Receives every answer given to `password` so callers can redact it. */
+	secrets?: SecretRegistry;
+	/** Handler-backed shortcut actions offered in every `selectWithShortcuts` prompt. */
+	shortcutRegistry?: ShortcutRegistry;
+	/**
+	 * Keys that leave the current prompt with a `PromptNavigationSignal`
+	 * instead of cancelling. The previous prompt is pre-filled with its last
+	 * answer when the runner asks it again, and that answer is left out of
+	 * history suggestions until it is given again. Off unless keys are given.
+	 *
+	 * A runner that re-runs its steps after the signal calls `rewind()` first;
+	 * the prompts before the revisited one are then answered from the trail.
+	 */
+	backNavigationKeys?: readonly BackNavigationKey[];
+	/**
+	 * Answers prompts nobody responds to: after this long without a keypress
+	 * the prompt submits its initial value, or is cancelled when it has none.
+	 * A countdown shows in the prompt header; the first keypress stops it.
+	 * Each prompt's `timeoutMs` overrides this. Off unless set.
+	 */
+	inactivityTimeoutMs?: number;
+	/** Called whenever a prompt was answered or cancelled by the timeout. */
+	onPromptTimeout?: (event: PromptTimeoutEvent) => void;
+}
+
+// Collection prompts submit on ctrl+d; Enter edits the highlighted row there.
+const CTRL_D_KEY: SyntheticKey = { char: "\u0004", key: { name: "d", ctrl: true, sequence: "\u0004" } };
+
+interface AskOptions<T> {
+	/** False for answers that must not be replayed or logged, such as passwords. */
+	replayable?: boolean;
+	timeoutMs?: number;
+	/** The caller's initial value; an unattended prompt only submits when there is one. */
+	initialValue?: T;
+	/** Key that makes the prompt submit its pre-filled value; Enter by default. */
+	submitKey?: SyntheticKey;
+	/** False for prompts that can't be answered unattended, such as the external editor. */
+	unattended?: boolean;
+}
 
 export class ClackPromptDriver implements PromptDriver {
+	private readonly secrets?: SecretRegistry;
+	private readonly shortcutRegistry?: ShortcutRegistry;
+	private readonly backNavigationKeys: readonly BackNavigationKey[];
+	private readonly inactivityTimeoutMs?: number;
+	private readonly onPromptTimeout?: (event: PromptTimeoutEvent) => void;
+	private readonly trail = new AnswerTrail();
+	private lastAnswerReplayed = false;
+
+	constructor(options: ClackPromptDriverOptions = {}) {
+		this.secrets = options.secrets;
+		this.shortcutRegistry = options.shortcutRegistry;
+		this.backNavigationKeys = options.backNavigationKeys ?? [];
+		this.inactivityTimeoutMs = options.inactivityTimeoutMs;
+		this.onPromptTimeout = options.onPromptTimeout;
+	}
+
+	/**
+	 * Prepares a re-run after a `PromptNavigationSignal`: the prompts answered
+	 * before the one being revisited get their answers again without being
+	 * asked, and the revisited one is asked pre-filled.
+	 */
+	rewind() {
+		this.trail.rewind();
+	}
+
+	/**
+	 * True when the last answer came from the trail after `rewind()` rather
+	 * than from the user, so callers don't record it a second time.
+	 */
+	get answeredFromTrail(): boolean {
+		return this.lastAnswerReplayed;
+	}
+
 	async text(options: {
 		message: string;
+		help?: PromptHelp;
+		timeoutMs?: number;
 		initialValue?: string;
 		placeholder?: string;
 		validate?: (value: string) => string | undefined;
 	}): Promise<string> {
-		const result = await text({
-			message: options.message,
-			initialValue: options.initialValue,
-			placeholder: options.placeholder,
-			validate: options.validate,
-		});
-		if (isCancel(result)) {
-			throw new PromptCancelledError();
-		}
-		return result;
+		const helpPanel = new HelpPanel(options.help);
+		return this.ask<string>(options, (previous) =>
+			// clack's text prompt can't intercept "?", so prompts with help use the history prompt.
+			hasPromptHelp(options.help)
+				? createTextPromptWithHistory({
+					message: options.message,
+					initialValue: previous ?? options.initialValue,
+					placeholder: options.placeholder,
+					validate: options.validate,
+					help: options.help,
+				})
+				: text({
+					get message() {
+						return helpPanel.message(options.message);
+					},
+					initialValue: previous ?? options.initialValue,
+					placeholder: options.placeholder,
+					validate: options.validate,
+				}),
+			{ timeoutMs: options.timeoutMs, initialValue: options.initialValue },
+		);
 	}
 
 	async textWithHistory(options: {
 		message: string;
+		help?: PromptHelp;
+		timeoutMs?: number;
 		initialValue?: string;
 		validate?: (value: string) => string | undefined;
 		history: readonly string[];
 	}): Promise<string> {
-		const result = await createTextPromptWithHistory({
-			message: options.message,
-			initialValue: options.initialValue,
-			validate: options.validate,
-			history: options.history,
-		});
-		if (isCancel(result)) {
-			throw new PromptCancelledError();
-		}
+		return this.ask<string>(options, (previous) =>
+			createTextPromptWithHistory({
+				message: options.message,
+				initialValue: previous ?? options.initialValue,
+				validate: options.validate,
+				// Answers stepped back from may already be in the history; don't suggest them again.
+				history: options.history.filter(
+					(entry) => !this.trail.isDiscarded(promptIdentity(options.message, options.help), entry),
+				),
+				help: options.help,
+			}),
+			{ timeoutMs: options.timeoutMs, initialValue: options.initialValue },
+		);
+	}
+
+	async password(options: {
+		message: string;
+		help?: PromptHelp;
+		timeoutMs?: number;
+		mask?: string;
+		validate?: (value: string) => string | undefined;
+	}): Promise<string> {
+		// "?" is a valid secret character, so the panel is always expanded.
+		const helpPanel = new HelpPanel(options.help);
+		helpPanel.expanded = true;
+		const result = await this.ask<string>(
+			options,
+			() =>
+				password({
+					get message() {
+						return helpPanel.message(options.message);
+					},
+					mask: options.mask,
+					validate: options.validate,
+				}),
+			{ replayable: false, timeoutMs: options.timeoutMs },
+		);
+		this.secrets?.register(result);
 		return result;
 	}
 
-	async confirm(options: { message: string; initialValue?: boolean }): Promise<boolean> {
-		const result = await confirm({
-			message: options.message,
-			initialValue: options.initialValue,
-		});
-		if (isCancel(result)) {
-			throw new PromptCancelledError();
-		}
+	async path(options: {
+		message: string;
+		help?: PromptHelp;
+		timeoutMs?: number;
+		repoRoot?: string;
+		initialValue?: string;
+		placeholder?: string;
+		mustExist?: boolean;
+		mustBeDirectory?: boolean;
+		insideRepo?: boolean;
+		validate?: (value: string) => string | undefined;
+	}): Promise<string> {
+		return this.ask<string>(options, (previous) =>
+			createPathPrompt({
+				message: options.message,
+				repoRoot: options.repoRoot ?? process.cwd(),
+				initialValue: previous ?? options.initialValue,
+				placeholder: options.placeholder,
+				mustExist: options.mustExist,
+				mustBeDirectory: options.mustBeDirectory,
+				insideRepo: options.insideRepo,
+				validate: options.validate,
+				help: options.help,
+			}),
+			{ timeoutMs: options.timeoutMs, initialValue: options.initialValue },
+		);
+	}
+
+	async editor(options: {
+		message: string;
+		help?: PromptHelp;
+		initialValue?: string;
+		validate?: (value: string) => string | undefined;
+		extension?: string;
+	}): Promise<string> {
+		return this.ask<string>(options, (previous) =>
+			editorPrompt({
+				message: options.message,
+				initialValue: previous ?? options.initialValue,
+				validate: options.validate,
+				extension: options.extension,
+				help: options.help,
+			}),
+			// Nothing can answer the external editor on the user's behalf.
+			{ unattended: false },
+		);
+	}
+
+	async number(options: {
+		message: string;
+		help?: PromptHelp;
+		timeoutMs?: number;
+		initialValue?: number;
+		placeholder?: string;
+		min?: number;
+		max?: number;
+		step?: number;
+		validate?: (value: number) => string | undefined;
+	}): Promise<number> {
+		return this.ask<number>(options, (previous) =>
+			numberPrompt({ ...options, initialValue: previous ?? options.initialValue }),
+			{ timeoutMs: options.timeoutMs, initialValue: options.initialValue },
+		);
+	}
+
+	/** Resolves to a local `YYYY-MM-DD` date; accepts "today" and offsets like "+7d". */
+	async date(options: {
+		message: string;
+		help?: PromptHelp;
+		timeoutMs?: number;
+		initialValue?: string;
+		placeholder?: string;
+		validate?: (value: string) => string | undefined;
+	}): Promise<string> {
+		return this.ask<string>(options, (previous) =>
+			datePrompt({ ...options, initialValue: previous ?? options.initialValue }),
+			{ timeoutMs: options.timeoutMs, initialValue: options.initialValue },
+		);
+	}
+
+	/** Resolves to milliseconds; accepts "90s", "5m" or "1h30m". */
+	async duration(options: {
+		message: string;
+		help?: PromptHelp;
+		timeoutMs?: number;
+		initialValue?: number;
+		placeholder?: string;
+		validate?: (value: number) => string | undefined;
+	}): Promise<number> {
+		return this.ask<number>(options, (previous) =>
+			durationPrompt({ ...options, initialValue: previous ?? options.initialValue }),
+			{ timeoutMs: options.timeoutMs, initialValue: options.initialValue },
+		);
+	}
+
+	/** Rows edited inside one prompt; empty rows are never returned. */
+	async list(options: {
+		message: string;
+		help?: PromptHelp;
+		timeoutMs?: number;
+		initialValue?: string[];
+		minItems?: number;
+		validateItem?: (item: string) => string | undefined;
+	}): Promise<string[]> {
+		return this.ask<string[]>(options, (previous) =>
+			listPrompt({ ...options, initialValue: previous ?? options.initialValue }),
+			{ timeoutMs: options.timeoutMs, initialValue: options.initialValue, submitKey: CTRL_D_KEY },
+		);
+	}
+
+	/** `KEY=value` rows edited inside one prompt, e.g. environment variables. */
+	async keyValue(options: {
+		message: string;
+		help?: PromptHelp;
+		timeoutMs?: number;
+		initialValue?: Record<string, string>;
+		minItems?: number;
+		validateEntry?: (key: string, value: string) => string | undefined;
+	}): Promise<Record<string, string>> {
+		return this.ask<Record<string, string>>(options, (previous) =>
+			keyValuePrompt({ ...options, initialValue: previous ?? options.initialValue }),
+			{ timeoutMs: options.timeoutMs, initialValue: options.initialValue, submitKey: CTRL_D_KEY },
+		);
+	}
+
+	async confirm(options: {
+		message: string;
+		help?: PromptHelp;
+		timeoutMs?: number;
+		initialValue?: boolean;
+	}): Promise<boolean> {
+		const helpPanel = new HelpPanel(options.help);
+		const result = await this.ask<boolean>(options, (previous) =>
+			withHelpKey(helpPanel, () =>
+				confirm({
+					get message() {
+						return helpPanel.message(options.message);
+					},
+					initialValue: previous ?? options.initialValue,
+				}),
+			),
+			{ timeoutMs: options.timeoutMs, initialValue: options.initialValue },
+		);
 		return Boolean(result);
 	}
 
+	/**
+	 * Confirmation for destructive steps: resolves once `phrase` is typed
+	 * exactly. A revisited prompt starts empty rather than pre-confirmed.
+	 */
+	async typedConfirm(options: {
+		message: string;
+		phrase: string;
+		help?: PromptHelp;
+		timeoutMs?: number;
+	}): Promise<boolean> {
+		await this.ask<true>(options, () => typedConfirmPrompt(options), {
+			replayable: false,
+			timeoutMs: options.timeoutMs,
+		});
+		return true;
+	}
+
 	async select<Value extends string>(options: {
 		message: string;
-		options: Array<{ value: Value; label?: string; hint?: string }>;
+		help?: PromptHelp;
+		timeoutMs?: number;
+		options: OptionsSource<{
+			value: Value;
+			label?: string;
+			hint?: string;
+			disabled?: boolean;
+			disabledReason?: string;
+			group?: string;
+		}>;
 		initialValue?: Value;
 		maxItems?: number;
+		filter?: boolean;
 	}): Promise<Value> {
+		// Provider-backed lists load inside the shortcut prompt, which owns the spinner.
+		if (
+			options.filter ||
+			isOptionsProvider(options.options) ||
+			needsCustomRenderer(options.options)
+		) {
+			return this.selectWithShortcuts(options);
+		}
+
 		const selectOptions = options.options.map((option) => ({
 			value: option.value,
 			label: option.label ?? String(option.value),
 			hint: option.hint,
 		}));
-		const result = (await select({
-			message: options.message,
-			options: selectOptions as any,
-			initialValue: options.initialValue,
-			maxItems: options.maxItems,
-		})) as Value | symbol;
-		if (isCancel(result)) {
-			throw new PromptCancelledError();
-		}
-		return result as Value;
+		const helpPanel = new HelpPanel(options.help);
+		return this.ask<Value>(options, (previous) =>
+			withHelpKey(helpPanel, () =>
+				select({
+					get message() {
+						return helpPanel.message(options.message);
+					},
+					options: selectOptions as any,
+					initialValue: previous ?? options.initialValue,
+					maxItems: options.maxItems,
+				}) as Promise<Value | symbol>,
+			),
+			{ timeoutMs: options.timeoutMs, initialValue: options.initialValue },
+		);
+	}
+
+	/**
+	 * Select with a trailing "Other..." entry that switches to inline text
+	 * entry, for answers that may fall outside `options`.
+	 */
+	async selectWithOther(options: {
+		message: string;
+		help?: PromptHelp;
+		timeoutMs?: number;
+		options: Array<{
+			value: string;
+			label?: string;
+			hint?: string;
+			disabled?: boolean;
+			disabledReason?: string;
+		}>;
+		initialValue?: string;
+		otherLabel?: string;
+		placeholder?: string;
+		validate?: (value: string) => string | undefined;
+	}): Promise<string> {
+		return this.ask<string>(options, (previous) =>
+			selectWithOther({ ...options, initialValue: previous ?? options.initialValue }),
+			{ timeoutMs: options.timeoutMs, initialValue: options.initialValue },
+		);
 	}
 
 	async multiselect(options: {
 		message: string;
-		options: Array<{ value: string; label?: string; hint?: string }>;
+		help?: PromptHelp;
+		timeoutMs?: number;
+		options: OptionsSource<{
+			value: string;
+			label?: string;
+			hint?: string;
+			disabled?: boolean;
+			disabledReason?: string;
+			group?: string;
+		}>;
 		initialValues?: string[];
 		required?: boolean;
 		showSelectionOrder?: boolean;
 		maxItems?: number;
+		filter?: boolean;
 	}): Promise<string[]> {
-		if (options.showSelectionOrder) {
-			const result = await orderedMultiselect({
-				message: options.message,
-				options: options.options,
-				initialValues: options.initialValues,
-				required: options.required,
-			});
-			if (isCancel(result)) {
-				throw new PromptCancelledError();
-			}
-			return result as string[];
+		const optionList = options.options;
+		if (options.showSelectionOrder && !options.filter && !isOptionsProvider(optionList)) {
+			return this.ask<string[]>(options, (previous) =>
+				orderedMultiselect({
+					message: options.message,
+					options: optionList,
+					initialValues: previous ?? options.initialValues,
+					required: options.required,
+					maxItems: options.maxItems,
+					help: options.help,
+				}),
+				{ timeoutMs: options.timeoutMs, initialValue: options.initialValues },
+			);
+		}
+
+		if (
+			options.filter ||
+			isOptionsProvider(optionList) ||
+			needsCustomRenderer(optionList)
+		) {
+			return this.ask<string[]>(options, (previous) =>
+				filterMultiselect({
+					message: options.message,
+					options: options.options,
+					initialValues: previous ?? options.initialValues,
+					required: options.required,
+					maxItems: options.maxItems,
+					showSelectionOrder: options.showSelectionOrder,
+					help: options.help,
+				}),
+				{ timeoutMs: options.timeoutMs, initialValue: options.initialValues },
+			);
 		}
 
-		const multiSelectOptions = options.options.map((option) => ({
+		const multiSelectOptions = optionList.map((option) => ({
 			value: option.value,
 			label: option.label ?? option.value,
 			hint: option.hint,
 		}));
-		const result = (await multiselect({
-			message: options.message,
-			options: multiSelectOptions as any,
-			initialValues: options.initialValues,
-			required: options.required,
-			maxItems: options.maxItems,
-		})) as string[] | symbol;
-		if (isCancel(result)) {
-			throw new PromptCancelledError();
-		}
-		return result as string[];
+		const helpPanel = new HelpPanel(options.help);
+		return this.ask<string[]>(options, (previous) =>
+			withHelpKey(helpPanel, () =>
+				multiselect({
+					get message() {
+						return helpPanel.message(options.message);
+					},
+					options: multiSelectOptions as any,
+					initialValues: previous ?? options.initialValues,
+					required: options.required,
+					maxItems: options.maxItems,
+				}) as Promise<string[] | symbol>,
+			),
+			{ timeoutMs: options.timeoutMs, initialValue: options.initialValues },
+		);
 	}
 
 	async selectWithShortcuts<Value extends string>(options: {
 		message: string;
-		options: Array<{ value: Value; label?: string; hint?: string }>;
+		help?: PromptHelp;
+		timeoutMs?: number;
+		options: OptionsSource<{
+			value: Value;
+			label?: string;
+			hint?: string;
+			disabled?: boolean;
+			disabledReason?: string;
+			group?: string;
+		}>;
 		initialValue?: Value;
 		maxItems?: number;
-		shortcuts?: Array<{ key: string; value: Value; action: string }>;
+		shortcuts?: Array<{ key: string; value: Value; action: string; label?: string }>;
 		onShortcut?: (action: string) => void;
+		filter?: boolean;
+		/** Extended details for the highlighted option, shown under the list. */
+		details?: (option: { value: Value; label?: string; hint?: string }) => string | string[] | undefined;
 	}): Promise<Value> {
-		const result = await selectWithShortcuts({
-			message: options.message,
-			options: options.options,
-			initialValue: options.initialValue,
-			maxItems: options.maxItems,
-			shortcuts: options.shortcuts as any,
-			onShortcut: options.onShortcut as any,
-		});
+		return this.ask<Value>(options, (previous) =>
+			selectWithShortcuts({
+				message: options.message,
+				options: options.options,
+				initialValue: previous ?? options.initialValue,
+				maxItems: options.maxItems,
+				shortcuts: options.shortcuts as any,
+				onShortcut: options.onShortcut as any,
+				filter: options.filter,
+				registry: this.shortcutRegistry,
+				help: options.help,
+				details: options.details,
+			}),
+			{ timeoutMs: options.timeoutMs, initialValue: options.initialValue },
+		);
+	}
+
+	/**
+	 * Runs one prompt with back navigation armed (once there is an answer to
+	 * return to) and the inactivity timeout running, then records the answer.
+	 * `previous` is the last answer when this prompt is being revisited after
+	 * a step back; prompts before it are answered from the trail after
+	 * `rewind()`.
+	 */
+	private async ask<T>(
+		{ message, help }: { message: string; help?: PromptHelp },
+		prompt: (previous: T | undefined) => Promise<T | symbol>,
+		{
+			replayable = true,
+			timeoutMs = this.inactivityTimeoutMs,
+			initialValue,
+			submitKey = RETURN_KEY,
+			unattended = true,
+		}: AskOptions<T> = {},
+	): Promise<T> {
+		const id = promptIdentity(message, help);
+		const replayed = this.trail.replay(id);
+		this.lastAnswerReplayed = replayed !== undefined;
+		if (replayed) {
+			return replayed.value as T;
+		}
+		const previous = this.trail.prefill(id) as T | undefined;
+		const watch =
+			this.backNavigationKeys.length > 0 && this.trail.size > 0
+				? watchBackNavigation(this.backNavigationKeys)
+				: undefined;
+		const hasDefault = (previous ?? initialValue) !== undefined;
+		const inactivity =
+			unattended && timeoutMs !== undefined && timeoutMs > 0
+				? watchInactivity({ timeoutMs, submitKey: hasDefault ? submitKey : undefined })
+				: undefined;
+		let result: T | symbol;
+		try {
+			result = await prompt(previous);
+		} finally {
+			watch?.dispose();
+			inactivity?.dispose();
+		}
+		if (inactivity?.expired) {
+			const cancelled = isCancel(result);
+			this.onPromptTimeout?.({
+				message,
+				timeoutMs: timeoutMs!,
+				outcome: cancelled ? "cancelled" : "default",
+				...(cancelled || !replayable ? {} : { value: result }),
+			});
+		}
 		if (isCancel(result)) {
+			if (watch?.requested) {
+				throw new PromptNavigationSignal("back", this.trail.stepBack());
+			}
 			throw new PromptCancelledError();
 		}
-		return result as Value;
+		this.trail.record(id, message, replayable ? result : undefined);
+		return result as T;
 	}
 }
+
+/**
+ * clack's helpers re-read `message` on every render, so a getter backed by
+ * `panel` is enough to expand help when `?` is pressed.
+ */
+function withHelpKey<T>(panel: HelpPanel, run: () => Promise<T>): Promise<T> {
+	if (!panel.enabled) {
+		return run();
+	}
+	const stop = watchHelpKey(panel);
+	return run().finally(stop);
+}
+
+/**
+ * clack's select and multiselect can't render disabled options or group
+ * headers; those lists go through the shortcut and filter prompts instead.
+ */
+function needsCustomRenderer(
+	options: ReadonlyArray<{ disabled?: boolean; group?: string }>,
+): boolean {
+	return hasDisabledOptions(options) || hasGroupedOptions(options);
+}
@@ -0,0 +1,113 @@
+import process from "node:process";
+
+import { EN_MESSAGES } from "./locales/en.js";
+import { FR_MESSAGES } from "./locales/fr.js";
+
+/** Plural forms by CLDR category; `other` is required as the catch-all. */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof EN_MESSAGES;
+/** A full catalog; embedders adding a language may leave keys out and get English for them. */
+export type MessageCatalog = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+
+export const DEFAULT_LOCALE = "en";
+/** Checked in POSIX order: LC_ALL overrides LC_MESSAGES, which overrides LANG. */
+const LOCALE_ENV_VARS = ["LC_ALL", "LC_MESSAGES", "LANG"] as const;
+
+const catalogs = new Map<string, Partial<MessageCatalog>>([
+	["en", EN_MESSAGES],
+	["fr", FR_MESSAGES],
+]);
+
+/**
+ * Adds `messages` to the catalog for `locale` (e.g. "de" or "fr-CA"),
+ * overriding keys it already has. Keys still missing fall back to the
+ * language's catalog, then to English.
+ */
+export function registerMessages(locale: string, messages: Partial<MessageCatalog>): void {
+	const tag = normalizeLocale(locale) ?? locale;
+	catalogs.set(tag, { ...catalogs.get(tag), ...messages });
+}
+
+/** Locales with a catalog, built-in or registered. */
+export function availableLocales(): string[] {
+	return [...catalogs.keys()];
+}
+
+/**
+ * The explicit locale, else the first of LC_ALL, LC_MESSAGES and LANG that
+ * is set, as a BCP 47 tag ("fr_FR.UTF-8" becomes "fr-FR"). "C" and "POSIX"
+ * mean English.
+ */
+export function resolveLocale(locale?: string, env: NodeJS.ProcessEnv = process.env): string {
+	if (locale !== undefined) {
+		const tag = normalizeLocale(locale);
+		if (!tag) {
+			throw new Error(`Invalid locale "${locale}". Use a tag such as "en" or "fr-FR".`);
+		}
+		return tag;
+	}
+	for (const name of LOCALE_ENV_VARS) {
+		const value = env[name]?.trim();
+		if (value) {
+			return normalizeLocale(value) ?? DEFAULT_LOCALE;
+		}
+	}
+	return DEFAULT_LOCALE;
+}
+
+function normalizeLocale(value: string): string | undefined {
+	const [base] = value.trim().split(/[.@]/);
+	if (!base) {
+		return undefined;
+	}
+	if (base === "C" || base === "POSIX") {
+		return DEFAULT_LOCALE;
+	}
+	try {
+		return Intl.getCanonicalLocales(base.replace(/_/g, "-"))[0];
+	} catch {
+		return undefined;
+	}
+}
+
+// Like the theme, the locale is read when a message is formatted, so setting
+// it once at startup reaches every prompt and summary line.
+let activeLocale: string | undefined;
+
+export function getLocale(): string {
+	return activeLocale ?? setLocale();
+}
+
+/** Makes `locale` (`resolveLocale()` when omitted) the one messages are formatted in. */
+export function setLocale(locale?: string): string {
+	activeLocale = resolveLocale(locale);
+	return activeLocale;
+}
+
+/**
+ * Formats the message for `key` in the active locale, falling back from
+ * "fr-CA" to "fr" to English. `{name}` placeholders are filled from
+ * `params`; plural messages pick their form from `params.count`.
+ */
+export function t(key: MessageKey, params: MessageParams = {}): string {
+	const locale = getLocale();
+	const [language] = locale.split("-");
+	const message: Message = catalogs.get(locale)?.[key] ?? catalogs.get(language!)?.[key] ?? EN_MESSAGES[key];
+	const template = typeof message === "string"
+		? message
+		: message[selectPluralForm(locale, Number(params.count ?? 0))] ?? message.other;
+	return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+		name in params ? String(params[name]) : placeholder,
+	);
+}
+
+function selectPluralForm(locale: string, count: number): Intl.LDMLPluralRule {
+	try {
+		return new Intl.PluralRules(locale).select(count);
+	} catch {
+		return new Intl.PluralRules(DEFAULT_LOCALE).select(count);
+	}
+}
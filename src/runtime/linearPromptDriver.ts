@@ -0,0 +1,205 @@
+import { isCancel } from "@clack/prompts";
+import process from "node:process";
+import type { Readable, Writable } from "node:stream";
+
+import type { PromptDriver } from "@ScaffoldStack/dev-wizard-engine/runtime/promptDriver.js";
+import { PromptCancelledError } from "@ScaffoldStack/dev-wizard-engine/runtime/promptDriver.js";
+import type { ClackPromptDriver } from "./clackPromptDriver.js";
+import { LinearPrompter, type LinearShortcut } from "./prompts/linearPrompts.js";
+import { validatePath } from "./prompts/pathPrompt.js";
+import type { PromptMethod } from "./promptSession.js";
+import {
+	formatDuration,
+	parseDateInput,
+	parseDuration,
+	parseNumber,
+	type ParseResult,
+} from "./prompts/typedValues.js";
+import type { SecretRegistry } from "./secrets.js";
+import { defaultShortcutRegistry, normalizeShortcutKey, type ShortcutRegistry } from "./shortcutRegistry.js";
+
+/**
+ * Same options as the clack driver, so both accept whatever the engine
+ * passes; the generic selects instantiate the clack method with `Value`.
+ */
+type OptionsOf<Method extends PromptMethod> = Parameters<ClackPromptDriver[Method]>[0];
+
+export interface LinearPromptDriverOptions {
+	/** Receives every answer given to `password` so callers can redact it. */
+	secrets?: SecretRegistry;
+	/** Handler-backed shortcut actions offered in every `selectWithShortcuts` prompt. */
+	shortcutRegistry?: ShortcutRegistry;
+	/**
+	 * Prompter to ask through, when prompts outside the driver read the same
+	 * input; `input` and `output` are ignored then.
+	 */
+	prompter?: LinearPrompter;
+	input?: Readable;
+	output?: Writable;
+}
+
+/** Values for `DEV_WIZARD_SCREEN_READER` that turn the linear driver on. */
+const ENABLED_VALUES = ["1", "true", "yes"];
+
+export const SCREEN_READER_ENV_VAR = "DEV_WIZARD_SCREEN_READER";
+
+/** The explicit choice, else whether `DEV_WIZARD_SCREEN_READER` is set to 1, true or yes. */
+export function resolveScreenReaderMode(
+	enabled?: boolean,
+	env: NodeJS.ProcessEnv = process.env,
+): boolean {
+	return enabled ?? ENABLED_VALUES.includes(env[SCREEN_READER_ENV_VAR]?.trim().toLowerCase() ?? "");
+}
+
+/**
+ * Prompt driver for screen readers. It asks the same questions as
+ * `ClackPromptDriver` but never redraws: every question is printed once as
+ * plain lines and answered a line at a time (see `LinearPrompter`). Inline
+ * help is printed up front instead of behind "?", and the interactive-only
+ * extras (inactivity timeouts, back navigation, filtering) are left out.
+ */
+export class LinearPromptDriver implements PromptDriver {
+	readonly prompter: LinearPrompter;
+	private readonly secrets?: SecretRegistry;
+	private readonly shortcutRegistry: ShortcutRegistry;
+
+	constructor(options: LinearPromptDriverOptions = {}) {
+		this.prompter = options.prompter ?? new LinearPrompter({ input: options.input, output: options.output });
+		this.secrets = options.secrets;
+		this.shortcutRegistry = options.shortcutRegistry ?? defaultShortcutRegistry;
+	}
+
+	async text(options: OptionsOf<"text">): Promise<string> {
+		return this.ask(this.prompter.text(options));
+	}
+
+	/** History can't be browsed line by line; the latest entry becomes the default instead. */
+	async textWithHistory(options: OptionsOf<"textWithHistory">): Promise<string> {
+		return this.ask(this.prompter.text({
+			...options,
+			initialValue: options.initialValue ?? options.history.at(-1),
+		}));
+	}
+
+	async password(options: OptionsOf<"password">): Promise<string> {
+		const result = await this.ask(this.prompter.password(options));
+		this.secrets?.register(result);
+		return result;
+	}
+
+	async path(options: OptionsOf<"path">): Promise<string> {
+		const repoRoot = options.repoRoot ?? process.cwd();
+		return this.ask(this.prompter.text({
+			...options,
+			validate: (value) => validatePath(value, repoRoot, options) ?? options.validate?.(value.trim()),
+		})).then((value) => value.trim());
+	}
+
+	async editor(options: OptionsOf<"editor">): Promise<string> {
+		return this.ask(this.prompter.editor(options));
+	}
+
+	async number(options: OptionsOf<"number">): Promise<number> {
+		const range = [
+			options.min !== undefined ? `at least ${options.min}` : undefined,
+			options.max !== undefined ? `at most ${options.max}` : undefined,
+		].filter(Boolean);
+		return this.ask(this.prompter.question<number>({
+			...options,
+			instructions: `Enter a number${range.length > 0 ? `, ${range.join(" and ")}` : ""}.`,
+			parse: (text) => withValidate(parseNumber(text, options), options.validate),
+		}));
+	}
+
+	/** Resolves to a local `YYYY-MM-DD` date; accepts "today" and offsets like "+7d". */
+	async date(options: OptionsOf<"date">): Promise<string> {
+		return this.ask(this.prompter.question<string>({
+			...options,
+			instructions: "Enter a date as YYYY-MM-DD, today, tomorrow or an offset like +7d.",
+			parse: (text) => withValidate(parseDateInput(text), options.validate),
+		}));
+	}
+
+	/** Resolves to milliseconds; accepts "90s", "5m" or "1h30m". */
+	async duration(options: OptionsOf<"duration">): Promise<number> {
+		return this.ask(this.prompter.question<number>({
+			...options,
+			format: formatDuration,
+			instructions: "Enter a duration like 90s, 5m or 1h30m.",
+			parse: (text) => withValidate(parseDuration(text), options.validate),
+		}));
+	}
+
+	/** One item per line, ended by an empty line. */
+	async list(options: OptionsOf<"list">): Promise<string[]> {
+		return this.ask(this.prompter.list(options));
+	}
+
+	/** One `KEY=value` entry per line, ended by an empty line. */
+	async keyValue(options: OptionsOf<"keyValue">): Promise<Record<string, string>> {
+		return this.ask(this.prompter.keyValue(options));
+	}
+
+	async confirm(options: OptionsOf<"confirm">): Promise<boolean> {
+		return this.ask(this.prompter.confirm(options));
+	}
+
+	async typedConfirm(options: OptionsOf<"typedConfirm">): Promise<boolean> {
+		return this.ask(this.prompter.typedConfirm(options));
+	}
+
+	async select<Value extends string>(
+		options: Parameters<typeof ClackPromptDriver.prototype.select<Value>>[0],
+	): Promise<Value> {
+		return this.ask(this.prompter.select(options));
+	}
+
+	async selectWithOther(options: OptionsOf<"selectWithOther">): Promise<string> {
+		return this.ask(this.prompter.selectWithOther(options));
+	}
+
+	async multiselect(options: OptionsOf<"multiselect">): Promise<string[]> {
+		return this.ask(this.prompter.multiselect(options));
+	}
+
+	async selectWithShortcuts<Value extends string>(
+		options: Parameters<typeof ClackPromptDriver.prototype.selectWithShortcuts<Value>>[0],
+	): Promise<Value> {
+		const bound = new Set((options.shortcuts ?? []).map((shortcut) => shortcut.action));
+		const shortcuts: LinearShortcut<Value>[] = [
+			...(options.shortcuts ?? []).map((shortcut) => ({
+				key: normalizeShortcutKey(shortcut.key),
+				label: shortcut.label ?? this.shortcutRegistry.labelFor(shortcut.action),
+				value: shortcut.value,
+				run: () => options.onShortcut?.(shortcut.action),
+			})),
+			...this.shortcutRegistry.list()
+				.filter((definition) => !bound.has(definition.action))
+				.map((definition) => ({
+					key: definition.key,
+					label: definition.label,
+					run: () => definition.handler({ action: definition.action, key: definition.key, message: options.message }),
+				})),
+		];
+		return this.ask(this.prompter.select({ ...options, shortcuts }));
+	}
+
+	private async ask<T>(result: Promise<T | symbol>): Promise<T> {
+		const answer = await result;
+		if (isCancel(answer)) {
+			throw new PromptCancelledError();
+		}
+		return answer as T;
+	}
+}
+
+function withValidate<T>(
+	result: ParseResult<T>,
+	validate?: (value: T) => string | undefined,
+): ParseResult<T> {
+	if ("error" in result) {
+		return result;
+	}
+	const error = validate?.(result.value);
+	return error ? { error } : result;
+}
@@ -0,0 +1,190 @@
+import type { Message } from "../i18n.js";
+
+/**
+ * The English catalog. It defines every message key and is the fallback for
+ * keys other catalogs leave out. Placeholders are written `{name}`; plural
+ * messages are picked by their `count` parameter.
+ */
+export const EN_MESSAGES = {
+	"prompt.selectAtLeastOne": "Select at least one option.",
+	"prompt.selectionCancelled": "selection cancelled",
+	"prompt.noneSelected": "none selected",
+	"prompt.noMatches": "No matches",
+	"prompt.typeToFilter": "type to filter",
+	"prompt.selectedCount": "{count} selected / {total} total",
+	"prompt.countdown.answer": "(auto-answer in {seconds}s)",
+	"prompt.countdown.cancel": "(cancel in {seconds}s)",
+	"prompt.details.loading": "Loading details...",
+	"prompt.details.failed": "Could not load details: {error}",
+
+	"typed.enterNumber": "Enter a number.",
+	"typed.notANumber": "{text} is not a number.",
+	"typed.atLeast": "Enter a number of at least {min}.",
+	"typed.atMost": "Enter a number of at most {max}.",
+	"typed.enterDate": "Enter a date (YYYY-MM-DD, today or +7d).",
+	"typed.invalidDate": "{text} is not a valid date.",
+	"typed.unreadableDate": "Could not read \"{text}\" as a date. Use YYYY-MM-DD, today or +7d.",
+	"typed.enterDuration": "Enter a duration, e.g. 90s or 5m.",
+	"typed.durationUnit": "Add a unit to {text}, e.g. {text}s or {text}m.",
+	"typed.unreadableDuration": "Could not read \"{text}\" as a duration. Use units d, h, m, s or ms.",
+	"typed.confirmPhrase": "Type {phrase} to confirm.",
+	"typed.phraseMismatch": "\"{text}\" does not match {phrase}.",
+
+	"path.enterPath": "Enter a path.",
+	"path.outsideRepo": "Path must be inside the repository.",
+	"path.missing": "{path} does not exist.",
+	"path.notDirectory": "{path} is not a directory.",
+
+	"help.defaultFrom": "default from: {source}",
+	"help.askedBy": "asked by: {origin}",
+	"help.flow": "flow {id}",
+	"help.step": "step {id}",
+	"help.source.persisted": "persisted answer",
+	"help.source.override": "override",
+	"help.source.config": "config default",
+
+	"editor.waiting": "Waiting for {editor} to close...",
+	"editor.closedWithoutSaving": "editor closed without saving",
+	"editor.error": "Error: {error}",
+	"editor.errorHeaderEnd": "Fix the text below and save. These comment lines are removed.",
+
+	"multiline.newline": "enter newline",
+	"multiline.submit": "ctrl+d submit",
+	"multiline.cancel": "esc cancel",
+	"multiline.moreLines": {
+		one: "{first} (+{count} more line)",
+		other: "{first} (+{count} more lines)",
+	},
+
+	"linear.intro": "Screen reader mode: each question is asked once, answer on its own line. Press Ctrl+D to cancel.",
+	"linear.error": "Error: {error}",
+	"linear.cancelled": "Cancelled.",
+	"linear.pressEnterFor": "Press Enter for {value}.",
+	"linear.savedValue": "the saved value",
+	"linear.example": "For example: {example}.",
+	"linear.notEchoed": "Typing is not echoed.",
+	"linear.answerYesNo": "Answer yes or no.",
+	"linear.yes": "yes",
+	"linear.no": "no",
+	"linear.noOptions": "There are no options to choose from.",
+	"linear.shortcut": "Type {key} to {label}.",
+	"linear.shortcutFailed": "{label} failed: {error}",
+	"linear.enterNumber": "Enter a number from 1 to {count}.",
+	"linear.enterNumberOrValue": "Enter a number from 1 to {count}, or type a value that isn't listed.",
+	"linear.enterValue": "Enter a value.",
+	"linear.other": "Other...",
+	"linear.nothing": "nothing",
+	"linear.all": "all",
+	"linear.none": "none",
+	"linear.multiselectInstructions":
+		"Enter the numbers to select, separated by commas, for example 1, 3 or 2-4. Enter {all} or {none} to select everything or nothing.",
+	"linear.keepSelection": "Press Enter to keep the current selection: {current}.",
+	"linear.notAnOption": "{pick} is not an option. Enter numbers from 1 to {count}.",
+	"linear.selected": "selected",
+	"linear.unavailable": "unavailable: {reason}",
+	"linear.disabled": "disabled",
+	"linear.optionUnavailable": "{option} is unavailable: {reason}.",
+	"linear.keyValueInstructions": "Write each entry as KEY=value.",
+	"linear.useKeyValue": "Use KEY=value.",
+	"linear.duplicateKey": "Duplicate key \"{key}\".",
+	"linear.currentText": "Current text:",
+	"linear.editorInstructions": "Type the text, then a line with only {end} to finish.",
+	"linear.editorKeep": "A first line of only {end} keeps the current text.",
+	"linear.editorRetry": "Type the text again, then {end} to finish.",
+	"linear.currentItems": "Current items: {items}.",
+	"linear.listInstructions": "Enter one item per line and an empty line to finish.",
+	"linear.listKeep": "An empty first line keeps the current items.",
+	"linear.added": {
+		one: "Added {item}. {count} item so far.",
+		other: "Added {item}. {count} items so far.",
+	},
+	"linear.atLeastItems": {
+		one: "Add at least {count} item.",
+		other: "Add at least {count} items.",
+	},
+	"linear.loadingOptions": "Loading options...",
+	"linear.loadFailed": "Failed to load options: {error}",
+	"linear.retry": "Press Enter to try again.",
+
+	"config.select": "Select a configuration file to run",
+	"config.cancelled": "Configuration selection cancelled.",
+	"scenario.select": "Select the scenario to run",
+	"scenario.cancelled": "Scenario selection cancelled.",
+	"scenario.identity": "identity: {segments}",
+	"scenario.none": "No scenarios defined.",
+	"scenario.count": {
+		one: "{count} scenario:",
+		other: "{count} scenarios:",
+	},
+	"scenario.loadFailed": "Could not load scenarios: {error}",
+	"replay.unasked": {
+		one: "The scenario finished with {count} recorded prompt left unasked; the session no longer matches it.",
+		other: "The scenario finished with {count} recorded prompts left unasked; the session no longer matches it.",
+	},
+
+	"answers.name": "Name for the answers file (stored under .dev-wizard/answers/<name>.json):",
+	"answers.cancelled": "Execution cancelled before collecting answers.",
+	"answers.strategy": "Saved answers file {filePath} already exists. How should Dev Wizard proceed?",
+	"answers.strategy.reuse": "Reuse saved answers",
+	"answers.strategy.reuseHint": "Skip prompts and keep the existing values for this run.",
+	"answers.strategy.review": "Review and update answers",
+	"answers.strategy.reviewHint": "Use saved answers as defaults, but run every prompt again.",
+	"answers.strategy.reset": "Start from scratch",
+	"answers.strategy.resetHint": "Clear saved answers before prompting and capture new values.",
+	"answers.strategy.cancelled": "Execution cancelled before confirming how to use the saved answers file.",
+
+	"identity.selectExisting": "Select an existing answers identity (or create a new one):",
+	"identity.createNew": "Create a new identity",
+	"identity.createNewHint": "Answer the identity prompts before continuing.",
+	"identity.customValue": "Custom value...",
+	"identity.cancelled": "Execution cancelled before selecting an answers identity.",
+
+	"execution.confirm": "Proceed with execution?",
+	"execution.confirmProtected": "{environment} is a protected environment. Type its name to proceed with execution.",
+	"execution.skipped": "Execution skipped after preview.",
+	"execution.cancelled": "Execution cancelled.",
+	"execution.protectedUnattended": "{environment} is a protected environment and the run can't be confirmed here. Run it interactively, or pass allowUnattendedProtected to execute without confirmation.",
+
+	"summary.title": "Wizard Summary",
+	"summary.steps": {
+		one: "{count} step executed",
+		other: "{count} steps executed",
+	},
+	"summary.modeDryRun": "mode: dry-run",
+	"summary.modeLive": "mode: live",
+	"summary.verbosityVerbose": "verbosity: verbose",
+	"summary.verbosityNormal": "verbosity: normal",
+	"summary.duration": "duration: {duration}",
+	"summary.flow": "flow: {flow}",
+	"summary.flows": "flows: {flows}",
+	"summary.flowTimeline": "flow timeline:",
+	"summary.flowTable.flow": "Flow",
+	"summary.flowTable.duration": "Duration",
+	"summary.flowTable.status": "Status",
+	"summary.flowTable.ok": "ok",
+	"summary.flowTable.exit": "exit",
+	"summary.failures": {
+		one: "{count} failure encountered",
+		other: "{count} failures encountered",
+	},
+	"summary.exitedEarly": "status: exited early",
+	"summary.retries": "retries: {items}",
+	"summary.skips": "skips: {items}",
+	"summary.skipDefault": "default",
+	"summary.skipPolicy": "policy",
+	"summary.timedOut": "timed-out commands: {commands}",
+	"summary.longRunning": "long-running commands: {commands}",
+	"summary.capturedOutput": "captured output:",
+	"summary.capturedOutputHidden": {
+		one: "captured output stored for {count} command (hidden in quiet mode)",
+		other: "captured output stored for {count} commands (hidden in quiet mode)",
+	},
+	"summary.policyDecisions": "policy decisions: {items}",
+	"summary.policyAcknowledged": "acknowledged",
+	"summary.logFile": "log file: {path}",
+
+	"outro.failed": "Wizard failed.",
+	"outro.exitedEarly": "Wizard exited early. Review the summary above.",
+	"outro.complete": "Wizard complete.",
+	"outro.warnings": "Wizard finished with warnings.",
+} satisfies Record<string, Message>;
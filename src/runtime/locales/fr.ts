@@ -0,0 +1,189 @@
+import type { MessageCatalog } from "../i18n.js";
+
+// French counts 0 and 1 as singular, hence "0 étape exécutée".
+export const FR_MESSAGES: MessageCatalog = {
+	"prompt.selectAtLeastOne": "Sélectionnez au moins une option.",
+	"prompt.selectionCancelled": "sélection annulée",
+	"prompt.noneSelected": "aucune sélection",
+	"prompt.noMatches": "Aucun résultat",
+	"prompt.typeToFilter": "tapez pour filtrer",
+	"prompt.selectedCount": {
+		one: "{count} sélectionné / {total} au total",
+		other: "{count} sélectionnés / {total} au total",
+	},
+	"prompt.countdown.answer": "(réponse automatique dans {seconds} s)",
+	"prompt.countdown.cancel": "(annulation dans {seconds} s)",
+	"prompt.details.loading": "Chargement des détails...",
+	"prompt.details.failed": "Impossible de charger les détails : {error}",
+
+	"typed.enterNumber": "Saisissez un nombre.",
+	"typed.notANumber": "{text} n'est pas un nombre.",
+	"typed.atLeast": "Saisissez un nombre supérieur ou égal à {min}.",
+	"typed.atMost": "Saisissez un nombre inférieur ou égal à {max}.",
+	"typed.enterDate": "Saisissez une date (YYYY-MM-DD, today ou +7d).",
+	"typed.invalidDate": "{text} n'est pas une date valide.",
+	"typed.unreadableDate": "Impossible de lire « {text} » comme une date. Utilisez YYYY-MM-DD, today ou +7d.",
+	"typed.enterDuration": "Saisissez une durée, par exemple 90s ou 5m.",
+	"typed.durationUnit": "Ajoutez une unité à {text}, par exemple {text}s ou {text}m.",
+	"typed.unreadableDuration": "Impossible de lire « {text} » comme une durée. Utilisez les unités d, h, m, s ou ms.",
+	"typed.confirmPhrase": "Tapez {phrase} pour confirmer.",
+	"typed.phraseMismatch": "« {text} » ne correspond pas à {phrase}.",
+
+	"path.enterPath": "Saisissez un chemin.",
+	"path.outsideRepo": "Le chemin doit se trouver dans le dépôt.",
+	"path.missing": "{path} n'existe pas.",
+	"path.notDirectory": "{path} n'est pas un répertoire.",
+
+	"help.defaultFrom": "valeur par défaut : {source}",
+	"help.askedBy": "demandé par : {origin}",
+	"help.flow": "flux {id}",
+	"help.step": "étape {id}",
+	"help.source.persisted": "réponse enregistrée",
+	"help.source.override": "surcharge",
+	"help.source.config": "valeur de la configuration",
+
+	"editor.waiting": "En attente de la fermeture de {editor}...",
+	"editor.closedWithoutSaving": "éditeur fermé sans enregistrer",
+	"editor.error": "Erreur : {error}",
+	"editor.errorHeaderEnd": "Corrigez le texte ci-dessous puis enregistrez. Ces lignes de commentaire sont supprimées.",
+
+	"multiline.newline": "entrée nouvelle ligne",
+	"multiline.submit": "ctrl+d valider",
+	"multiline.cancel": "échap annuler",
+	"multiline.moreLines": {
+		one: "{first} (+{count} autre ligne)",
+		other: "{first} (+{count} autres lignes)",
+	},
+
+	"linear.intro": "Mode lecteur d'écran : chaque question est posée une fois, répondez sur une ligne. Appuyez sur Ctrl+D pour annuler.",
+	"linear.error": "Erreur : {error}",
+	"linear.cancelled": "Annulé.",
+	"linear.pressEnterFor": "Appuyez sur Entrée pour {value}.",
+	"linear.savedValue": "la valeur enregistrée",
+	"linear.example": "Par exemple : {example}.",
+	"linear.notEchoed": "La saisie n'est pas affichée.",
+	"linear.answerYesNo": "Répondez oui ou non.",
+	"linear.yes": "oui",
+	"linear.no": "non",
+	"linear.noOptions": "Il n'y a aucune option à choisir.",
+	"linear.shortcut": "Tapez {key} pour {label}.",
+	"linear.shortcutFailed": "{label} a échoué : {error}",
+	"linear.enterNumber": "Entrez un nombre de 1 à {count}.",
+	"linear.enterNumberOrValue": "Entrez un nombre de 1 à {count}, ou saisissez une valeur absente de la liste.",
+	"linear.enterValue": "Saisissez une valeur.",
+	"linear.other": "Autre...",
+	"linear.nothing": "rien",
+	"linear.all": "tout",
+	"linear.none": "aucun",
+	"linear.multiselectInstructions":
+		"Entrez les numéros à sélectionner, séparés par des virgules, par exemple 1, 3 ou 2-4. Entrez {all} ou {none} pour tout sélectionner ou rien.",
+	"linear.keepSelection": "Appuyez sur Entrée pour garder la sélection actuelle : {current}.",
+	"linear.notAnOption": "{pick} n'est pas une option. Entrez des numéros de 1 à {count}.",
+	"linear.selected": "sélectionné",
+	"linear.unavailable": "indisponible : {reason}",
+	"linear.disabled": "désactivé",
+	"linear.optionUnavailable": "{option} est indisponible : {reason}.",
+	"linear.keyValueInstructions": "Écrivez chaque entrée sous la forme CLÉ=valeur.",
+	"linear.useKeyValue": "Utilisez CLÉ=valeur.",
+	"linear.duplicateKey": "Clé « {key} » en double.",
+	"linear.currentText": "Texte actuel :",
+	"linear.editorInstructions": "Tapez le texte, puis une ligne contenant seulement {end} pour terminer.",
+	"linear.editorKeep": "Une première ligne contenant seulement {end} garde le texte actuel.",
+	"linear.editorRetry": "Tapez le texte à nouveau, puis {end} pour terminer.",
+	"linear.currentItems": "Éléments actuels : {items}.",
+	"linear.listInstructions": "Entrez un élément par ligne et une ligne vide pour terminer.",
+	"linear.listKeep": "Une première ligne vide garde les éléments actuels.",
+	"linear.added": {
+		one: "{item} ajouté. {count} élément pour l'instant.",
+		other: "{item} ajouté. {count} éléments pour l'instant.",
+	},
+	"linear.atLeastItems": {
+		one: "Ajoutez au moins {count} élément.",
+		other: "Ajoutez au moins {count} éléments.",
+	},
+	"linear.loadingOptions": "Chargement des options...",
+	"linear.loadFailed": "Impossible de charger les options : {error}",
+	"linear.retry": "Appuyez sur Entrée pour réessayer.",
+
+	"config.select": "Sélectionnez le fichier de configuration à exécuter",
+	"config.cancelled": "Sélection de la configuration annulée.",
+	"scenario.select": "Sélectionnez le scénario à exécuter",
+	"scenario.cancelled": "Sélection du scénario annulée.",
+	"scenario.identity": "identité : {segments}",
+	"scenario.none": "Aucun scénario défini.",
+	"scenario.count": {
+		one: "{count} scénario :",
+		other: "{count} scénarios :",
+	},
+	"scenario.loadFailed": "Impossible de charger les scénarios : {error}",
+	"replay.unasked": {
+		one: "Le scénario s'est terminé avec {count} question enregistrée non posée ; la session ne lui correspond plus.",
+		other: "Le scénario s'est terminé avec {count} questions enregistrées non posées ; la session ne lui correspond plus.",
+	},
+
+	"answers.name": "Nom du fichier de réponses (enregistré sous .dev-wizard/answers/<nom>.json) :",
+	"answers.cancelled": "Exécution annulée avant la saisie des réponses.",
+	"answers.strategy": "Le fichier de réponses {filePath} existe déjà. Comment Dev Wizard doit-il continuer ?",
+	"answers.strategy.reuse": "Réutiliser les réponses enregistrées",
+	"answers.strategy.reuseHint": "Ignorer les questions et garder les valeurs existantes pour cette exécution.",
+	"answers.strategy.review": "Revoir et mettre à jour les réponses",
+	"answers.strategy.reviewHint": "Proposer les réponses enregistrées par défaut, mais reposer chaque question.",
+	"answers.strategy.reset": "Repartir de zéro",
+	"answers.strategy.resetHint": "Effacer les réponses enregistrées avant les questions et enregistrer les nouvelles valeurs.",
+	"answers.strategy.cancelled": "Exécution annulée avant de choisir comment utiliser le fichier de réponses.",
+
+	"identity.selectExisting": "Sélectionnez une identité de réponses existante (ou créez-en une) :",
+	"identity.createNew": "Créer une identité",
+	"identity.createNewHint": "Répondre aux questions d'identité avant de continuer.",
+	"identity.customValue": "Autre valeur...",
+	"identity.cancelled": "Exécution annulée avant la sélection d'une identité de réponses.",
+
+	"execution.confirm": "Lancer l'exécution ?",
+	"execution.confirmProtected": "{environment} est un environnement protégé. Saisissez son nom pour lancer l'exécution.",
+	"execution.skipped": "Exécution ignorée après l'aperçu.",
+	"execution.cancelled": "Exécution annulée.",
+	"execution.protectedUnattended": "{environment} est un environnement protégé et l'exécution ne peut pas être confirmée ici. Lancez-la de manière interactive, ou passez allowUnattendedProtected pour l'exécuter sans confirmation.",
+
+	"summary.title": "Récapitulatif de l'assistant",
+	"summary.steps": {
+		one: "{count} étape exécutée",
+		other: "{count} étapes exécutées",
+	},
+	"summary.modeDryRun": "mode : simulation",
+	"summary.modeLive": "mode : réel",
+	"summary.verbosityVerbose": "verbosité : détaillée",
+	"summary.verbosityNormal": "verbosité : normale",
+	"summary.duration": "durée : {duration}",
+	"summary.flow": "flux : {flow}",
+	"summary.flows": "flux : {flows}",
+	"summary.flowTimeline": "chronologie des flux :",
+	"summary.flowTable.flow": "Flux",
+	"summary.flowTable.duration": "Durée",
+	"summary.flowTable.status": "Statut",
+	"summary.flowTable.ok": "ok",
+	"summary.flowTable.exit": "sortie",
+	"summary.failures": {
+		one: "{count} échec rencontré",
+		other: "{count} échecs rencontrés",
+	},
+	"summary.exitedEarly": "statut : arrêt anticipé",
+	"summary.retries": "nouvelles tentatives : {items}",
+	"summary.skips": "étapes ignorées : {items}",
+	"summary.skipDefault": "par défaut",
+	"summary.skipPolicy": "politique",
+	"summary.timedOut": "commandes expirées : {commands}",
+	"summary.longRunning": "commandes longues : {commands}",
+	"summary.capturedOutput": "sortie capturée :",
+	"summary.capturedOutputHidden": {
+		one: "sortie capturée pour {count} commande (masquée en mode silencieux)",
+		other: "sortie capturée pour {count} commandes (masquée en mode silencieux)",
+	},
+	"summary.policyDecisions": "décisions de politique : {items}",
+	"summary.policyAcknowledged": "acceptée",
+	"summary.logFile": "fichier journal : {path}",
+
+	"outro.failed": "L'assistant a échoué.",
+	"outro.exitedEarly": "L'assistant s'est arrêté plus tôt. Consultez le récapitulatif ci-dessus.",
+	"outro.complete": "Assistant terminé.",
+	"outro.warnings": "Assistant terminé avec des avertissements.",
+};
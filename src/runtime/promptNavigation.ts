@@ -0,0 +1,175 @@
+import process from "node:process";
+import type { Key } from "node:readline";
+import type { Readable } from "node:stream";
+
+export type BackNavigationKey = "escape" | "shift-tab";
+
+/** Escape stays clack's cancel key unless a caller opts into it explicitly. */
+export const DEFAULT_BACK_NAVIGATION_KEYS: readonly BackNavigationKey[] = ["shift-tab"];
+
+export interface AnsweredPrompt {
+	/** See `promptIdentity`. */
+	id: string;
+	message: string;
+	/** Undefined for answers that must not be replayed, such as passwords. */
+	value: unknown;
+}
+
+/**
+ * Raised instead of `PromptCancelledError` when the user asks to return to
+ * the previous prompt. Runners catch it, re-ask that prompt and continue
+ * from there; `previous` is the answer being revisited, if the driver saw it.
+ */
+export class PromptNavigationSignal extends Error {
+	override readonly name = "PromptNavigationSignal";
+
+	constructor(
+		readonly direction: "back",
+		readonly previous?: AnsweredPrompt,
+	) {
+		super("Navigate back to the previous prompt.");
+	}
+}
+
+/** Duck-typed so runners that can't import this package can still detect the signal. */
+export function isPromptNavigationSignal(error: unknown): error is PromptNavigationSignal {
+	return error instanceof Error && error.name === "PromptNavigationSignal";
+}
+
+export interface BackNavigationWatch {
+	/** True once a back key was pressed while the watch was active. */
+	readonly requested: boolean;
+	dispose(): void;
+}
+
+/**
+ * Listens for back keys on `input` while a prompt is open. clack already
+ * cancels on Escape; any other back key is turned into an Escape once the
+ * current keypress has been handled, so the open prompt closes as cancelled
+ * and the caller can tell the two apart through `requested`.
+ */
+export function watchBackNavigation(
+	keys: readonly BackNavigationKey[] = DEFAULT_BACK_NAVIGATION_KEYS,
+	input: Readable = process.stdin,
+): BackNavigationWatch {
+	let requested = false;
+	let disposed = false;
+
+	const onKeypress = (_char: string | undefined, key?: Key) => {
+		if (requested || !matchesBackKey(key, keys)) {
+			return;
+		}
+		requested = true;
+		if (key?.name !== "escape") {
+			setImmediate(() => {
+				if (!disposed) {
+					input.emit("keypress", undefined, { name: "escape", sequence: "\u001b" });
+				}
+			});
+		}
+	};
+	input.on("keypress", onKeypress);
+
+	return {
+		get requested() {
+			return requested;
+		},
+		dispose() {
+			disposed = true;
+			input.off("keypress", onKeypress);
+		},
+	};
+}
+
+function matchesBackKey(key: Key | undefined, keys: readonly BackNavigationKey[]): boolean {
+	if (!key) {
+		return false;
+	}
+	if (key.name === "escape") {
+		return keys.includes("escape");
+	}
+	return key.name === "tab" && Boolean(key.shift) && keys.includes("shift-tab");
+}
+
+/**
+ * Tells prompts apart for the trail: the flow and step asking, when the
+ * caller passes them (as prompt help does), plus the message. Two steps
+ * asking "Name" don't share a pre-fill.
+ */
+export function promptIdentity(message: string, origin: { flowId?: string; stepId?: string } = {}): string {
+	return JSON.stringify([origin.flowId ?? null, origin.stepId ?? null, message]);
+}
+
+/**
+ * Answers given so far, newest last. Stepping back pops the latest answer
+ * and keeps it as the pre-fill for the next prompt with the same identity,
+ * so nothing downstream of the revisited prompt survives the step back.
+ * Popped answers are remembered as discarded until the prompt is answered
+ * the same way again, so history suggestions can leave them out.
+ */
+export class AnswerTrail {
+	private answered: AnsweredPrompt[] = [];
+	private readonly discarded = new Map<string, unknown[]>();
+	private revisiting: AnsweredPrompt | undefined;
+	private replaying: AnsweredPrompt[] = [];
+
+	record(id: string, message: string, value: unknown) {
+		this.answered.push({ id, message, value });
+		if (this.revisiting?.id === id) {
+			this.revisiting = undefined;
+		}
+		const discarded = this.discarded.get(id)?.filter((entry) => entry !== value);
+		if (discarded && discarded.length > 0) {
+			this.discarded.set(id, discarded);
+		} else {
+			this.discarded.delete(id);
+		}
+	}
+
+	stepBack(): AnsweredPrompt | undefined {
+		this.revisiting = this.answered.pop();
+		if (this.revisiting && this.revisiting.value !== undefined) {
+			const { id, value } = this.revisiting;
+			this.discarded.set(id, [...(this.discarded.get(id) ?? []), value]);
+		}
+		return this.revisiting;
+	}
+
+	/**
+	 * Queues the answers still on the trail to be given again, in order, for
+	 * a runner that re-runs its steps up to the prompt being revisited.
+	 */
+	rewind() {
+		this.replaying = this.answered;
+		this.answered = [];
+	}
+
+	/**
+	 * The queued answer for prompt `id` when it is next in line; it goes back
+	 * on the trail. Any other prompt, or an answer that was never kept (such
+	 * as a password), ends the replay and is asked as usual.
+	 */
+	replay(id: string): AnsweredPrompt | undefined {
+		const next = this.replaying.shift();
+		if (next?.id !== id || next.value === undefined) {
+			this.replaying = [];
+			return undefined;
+		}
+		this.answered.push(next);
+		return next;
+	}
+
+	/** Answer to pre-fill when prompt `id` is the one being revisited. */
+	prefill(id: string): unknown {
+		return this.revisiting?.id === id ? this.revisiting.value : undefined;
+	}
+
+	/** True for an answer to prompt `id` that was stepped back from and not given again. */
+	isDiscarded(id: string, value: unknown): boolean {
+		return this.discarded.get(id)?.includes(value) ?? false;
+	}
+
+	get size(): number {
+		return this.answered.length;
+	}
+}
@@ -0,0 +1,151 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export const PROMPT_SESSION_VERSION = 1;
+
+export const PROMPT_METHODS = [
+	"text",
+	"textWithHistory",
+	"password",
+	"path",
+	"editor",
+	"number",
+	"date",
+	"duration",
+	"list",
+	"keyValue",
+	"confirm",
+	"typedConfirm",
+	"select",
+	"selectWithOther",
+	"multiselect",
+	"selectWithShortcuts",
+] as const;
+
+export type PromptMethod = (typeof PROMPT_METHODS)[number];
+
+/** "back" is a step back to the previous prompt (see `PromptNavigationSignal`). */
+export type PromptOutcome = "answered" | "cancelled" | "back";
+
+export interface RecordedPrompt {
+	method: PromptMethod;
+	message: string;
+	/** The call's options minus `message` and anything that isn't data, such as validators. */
+	options: Record<string, unknown>;
+	outcome: PromptOutcome;
+	/** Set when answered. Passwords are stored as `REDACTED_SECRET`. */
+	answer?: unknown;
+	/** ISO timestamp of when the prompt was asked. */
+	startedAt: string;
+	durationMs: number;
+}
+
+export interface PromptSession {
+	version: typeof PROMPT_SESSION_VERSION;
+	recordedAt: string;
+	prompts: RecordedPrompt[];
+}
+
+/** The prompt a replay was asked for, compared against the recorded one. */
+export interface PromptCall {
+	method: PromptMethod;
+	message: string;
+	options: Record<string, unknown>;
+}
+
+/**
+ * Raised by a replay when the scenario asks something other than what was
+ * recorded at that point, or asks more than was recorded.
+ */
+export class PromptSessionMismatchError extends Error {
+	constructor(
+		/** Zero-based position of the prompt in the session. */
+		readonly index: number,
+		readonly actual: PromptCall,
+		/** Undefined when the session ended before this prompt. */
+		readonly recorded: RecordedPrompt | undefined,
+		readonly reason: string,
+	) {
+		super(
+			recorded
+				? `Prompt ${index + 1} (${actual.method} "${actual.message}") no longer matches the recorded session: ${reason}.`
+				: `Prompt ${index + 1} (${actual.method} "${actual.message}") was not recorded: ${reason}.`,
+		);
+	}
+}
+
+export function createPromptSession(): PromptSession {
+	return { version: PROMPT_SESSION_VERSION, recordedAt: new Date().toISOString(), prompts: [] };
+}
+
+export async function readPromptSession(filePath: string): Promise<PromptSession> {
+	const raw = await readFile(filePath, "utf8");
+	let session: Partial<PromptSession>;
+	try {
+		session = JSON.parse(raw) as Partial<PromptSession>;
+	} catch (error) {
+		throw new Error(`Prompt session ${filePath} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+	}
+	if (session.version !== PROMPT_SESSION_VERSION || !Array.isArray(session.prompts)) {
+		throw new Error(
+			`Prompt session ${filePath} has unsupported version ${String(session.version)}; expected ${PROMPT_SESSION_VERSION}.`,
+		);
+	}
+	return session as PromptSession;
+}
+
+export async function writePromptSession(filePath: string, session: PromptSession): Promise<void> {
+	await mkdir(path.dirname(filePath), { recursive: true });
+	await writeFile(filePath, `${JSON.stringify(session, null, 2)}\n`);
+}
+
+/**
+ * The data part of a prompt call: functions (validators, option providers,
+ * `details`) are dropped since they can't be stored or compared.
+ */
+export function serializePromptOptions<Options extends { message: string }>(
+	options: Options,
+): Record<string, unknown> {
+	const { message: _message, ...rest } = options;
+	return JSON.parse(
+		JSON.stringify(rest, (_key, value: unknown) => (typeof value === "function" ? undefined : value)),
+	) as Record<string, unknown>;
+}
+
+/**
+ * Why `call` is not the prompt that was recorded, or undefined when it is.
+ * The method, the message and the listed option values must all match;
+ * labels, hints and defaults may change without breaking a session.
+ */
+export function findPromptMismatch(recorded: RecordedPrompt, call: PromptCall): string | undefined {
+	if (recorded.method !== call.method) {
+		return `expected ${recorded.method} "${recorded.message}"`;
+	}
+	if (recorded.message !== call.message) {
+		return `the recorded question was "${recorded.message}"`;
+	}
+	const before = optionValues(recorded.options);
+	const after = optionValues(call.options);
+	if (!before || !after) {
+		return undefined;
+	}
+	const added = after.filter((value) => !before.includes(value));
+	const removed = before.filter((value) => !after.includes(value));
+	if (added.length === 0 && removed.length === 0) {
+		return undefined;
+	}
+	return [
+		added.length > 0 ? `options added: ${added.join(", ")}` : undefined,
+		removed.length > 0 ? `options removed: ${removed.join(", ")}` : undefined,
+	]
+		.filter(Boolean)
+		.join("; ");
+}
+
+function optionValues(options: Record<string, unknown>): string[] | undefined {
+	const list = options.options;
+	if (!Array.isArray(list)) {
+		return undefined;
+	}
+	return list.map((option) => String((option as { value?: unknown }).value));
+}
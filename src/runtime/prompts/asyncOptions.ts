@@ -0,0 +1,175 @@
+import type { Prompt } from "@clack/core";
+
+import { getTheme, joinLegend } from "../theme.js";
+import { interceptKeypresses } from "./clackInternals.js";
+
+export interface OptionsProviderContext {
+	/** Aborted when the user cancels the load or starts another one. */
+	signal: AbortSignal;
+}
+
+export type OptionsProvider<T> = (context: OptionsProviderContext) => Promise<T[]>;
+
+export type OptionsSource<T> = T[] | OptionsProvider<T>;
+
+export type AsyncOptionsState = "loading" | "ready" | "error";
+
+/** Ctrl+L: readline's own redraw binding only touches clack's dummy output. */
+export const REFRESH_KEY_LABEL = "ctrl+l";
+
+const SPINNER_INTERVAL_MS = 80;
+
+/**
+ * Loads a prompt's options through `provider` while the prompt is open.
+ * Keys are held back from the prompt until options are in; Enter retries a
+ * failed load, Escape abandons a refresh (keeping the previous options) or
+ * cancels the prompt when there is nothing to fall back to.
+ */
+export class AsyncOptionsLoader<T> {
+	state: AsyncOptionsState = "ready";
+	error: string | undefined;
+	private frame = 0;
+	private controller: AbortController | undefined;
+	private previous: T[] | undefined;
+	private timer: ReturnType<typeof setInterval> | undefined;
+
+	constructor(
+		private readonly provider: OptionsProvider<T>,
+		private readonly apply: (options: T[]) => void,
+		private readonly rerender: () => void,
+	) {}
+
+	get spinner(): string {
+		const frames = getTheme().symbols.spinner;
+		return frames[this.frame % frames.length]!;
+	}
+
+	/** True while keys should not reach the option list. */
+	get blocking(): boolean {
+		return this.state !== "ready";
+	}
+
+	/** (Re)loads options; `current` is restored if the load is abandoned. */
+	load(current?: T[]) {
+		this.controller?.abort();
+		const controller = new AbortController();
+		this.controller = controller;
+		this.previous = current;
+		this.state = "loading";
+		this.error = undefined;
+		this.startSpinner();
+
+		this.provider({ signal: controller.signal }).then(
+			(options) => {
+				if (this.controller !== controller) {
+					return;
+				}
+				this.stopSpinner();
+				this.state = "ready";
+				this.previous = undefined;
+				this.apply(options);
+				this.rerender();
+			},
+			(error: unknown) => {
+				if (this.controller !== controller) {
+					return;
+				}
+				this.stopSpinner();
+				this.state = "error";
+				this.error = error instanceof Error ? error.message : String(error);
+				this.rerender();
+			},
+		);
+	}
+
+	/** Abandons a refresh. Returns false when there is nothing to go back to. */
+	abandon(): boolean {
+		if (!this.previous) {
+			return false;
+		}
+		this.controller?.abort();
+		this.controller = undefined;
+		this.stopSpinner();
+		this.state = "ready";
+		this.error = undefined;
+		this.apply(this.previous);
+		this.previous = undefined;
+		return true;
+	}
+
+	dispose() {
+		this.controller?.abort();
+		this.controller = undefined;
+		this.stopSpinner();
+	}
+
+	/**
+	 * Intercepts the prompt's keypresses so refresh, retry and abandon work
+	 * before clack sees the key.
+	 */
+	attach(prompt: Prompt, currentOptions: () => T[]) {
+		interceptKeypresses(prompt, (char, key, handleKeypress) => {
+			const isCancelKey = key?.name === "escape" || (key?.ctrl && key.name === "c");
+			if (key?.ctrl && key.name === "l") {
+				this.load(this.state === "ready" ? currentOptions() : this.previous);
+				this.rerender();
+				return;
+			}
+			if (!this.blocking) {
+				handleKeypress(char, key);
+				return;
+			}
+			if (this.state === "error" && key?.name === "return") {
+				this.load(this.previous);
+				this.rerender();
+				return;
+			}
+			if (key?.name === "escape" && this.abandon()) {
+				this.rerender();
+				return;
+			}
+			if (isCancelKey) {
+				handleKeypress(char, key);
+			}
+		});
+		prompt.on("finalize", () => this.dispose());
+	}
+
+	/** Body line shown instead of the option list while loading or failed. */
+	formatStatus(): string {
+		const { palette } = getTheme();
+		if (this.state === "loading") {
+			return `${palette.progress(this.spinner)} ${palette.muted("Loading options...")}`;
+		}
+		return palette.warning(`Failed to load options: ${this.error ?? "unknown error"}`);
+	}
+
+	formatLegend(): string {
+		if (this.state === "loading") {
+			return this.previous ? "esc keep previous options" : "esc cancel";
+		}
+		if (this.state === "error") {
+			return joinLegend(["enter retry", this.previous ? "esc keep previous options" : "esc cancel"]);
+		}
+		return `${REFRESH_KEY_LABEL} refresh`;
+	}
+
+	private startSpinner() {
+		this.stopSpinner();
+		this.timer = setInterval(() => {
+			this.frame += 1;
+			this.rerender();
+		}, SPINNER_INTERVAL_MS);
+	}
+
+	private stopSpinner() {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = undefined;
+		}
+	}
+}
+
+export function isOptionsProvider<T>(source: OptionsSource<T>): source is OptionsProvider<T> {
+	return typeof source === "function";
+}
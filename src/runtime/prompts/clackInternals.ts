@@ -0,0 +1,83 @@
+import { Prompt } from "@clack/core";
+import type { Key } from "node:readline";
+import { PassThrough } from "node:stream";
+
+/**
+ * The @clack/core internals the custom prompts build on, kept in this one
+ * module: clack has no public way to re-render a prompt, end it early, edit
+ * its readline line or see a key before it does. @clack/core is pinned to an
+ * exact version for them, and clackInternals.test.ts fails when an upgrade
+ * changes any of them.
+ */
+
+export type KeypressHandler = (char: string | undefined, key?: Key) => void;
+
+interface PromptInternals {
+	rl?: { write(...input: [text: string] | [text: null, key: Key]): void };
+	onKeypress: KeypressHandler;
+	render(): void;
+	close(): void;
+}
+
+function internalsOf(prompt: Prompt): PromptInternals {
+	return prompt as unknown as PromptInternals;
+}
+
+/**
+ * Puts `handler` in front of clack's keypress handling; `next` is clack's
+ * own handler, for the keys the prompt leaves to it. Call this before
+ * `prompt()`, which subscribes whichever handler is in place.
+ */
+export function interceptKeypresses(
+	prompt: Prompt,
+	handler: (char: string | undefined, key: Key | undefined, next: KeypressHandler) => void,
+): void {
+	const internals = internalsOf(prompt);
+	const next = internals.onKeypress;
+	internals.onKeypress = (char, key) => handler(char, key, next);
+}
+
+/** Draws the prompt again after its state changed outside a keypress. */
+export function renderPrompt(prompt: Prompt): void {
+	internalsOf(prompt).render();
+}
+
+/** Ends the prompt, e.g. after a key listener submitted it. */
+export function closePrompt(prompt: Prompt): void {
+	internalsOf(prompt).close();
+}
+
+/**
+ * Types into the readline line a value-tracking prompt edits, as text or as
+ * a key like ctrl+u; clack derives `value` from the line. Does nothing
+ * before `prompt()` has opened it.
+ */
+export function writePromptLine(prompt: Prompt, ...input: [text: string] | [text: null, key: Key]): void {
+	internalsOf(prompt).rl?.write(...input);
+}
+
+/** Replaces the whole readline line behind a value-tracking prompt. */
+export function replacePromptLine(prompt: Prompt, text: string): void {
+	writePromptLine(prompt, null, { ctrl: true, name: "e" });
+	writePromptLine(prompt, null, { ctrl: true, name: "u" });
+	if (text.length > 0) {
+		writePromptLine(prompt, text);
+	}
+}
+
+/**
+ * clack keeps its cancel symbol private; a prompt created with an aborted
+ * signal resolves with it straight away, without touching the terminal.
+ */
+export function cancelSymbol(): Promise<symbol> {
+	const prompt = new Prompt(
+		{
+			render: () => "",
+			input: new PassThrough(),
+			output: new PassThrough(),
+			signal: AbortSignal.abort(),
+		},
+		false,
+	);
+	return prompt.prompt() as Promise<symbol>;
+}
@@ -0,0 +1,301 @@
+import { Prompt } from "@clack/core";
+import type { Key } from "node:readline";
+import type { Readable, Writable } from "node:stream";
+
+import { formatStateSymbol, getTheme, joinLegend } from "../theme.js";
+import { interceptKeypresses, renderPrompt } from "./clackInternals.js";
+import { isPrintable } from "./keypress.js";
+import { HELP_KEY, HelpPanel, type PromptHelp } from "./promptHelp.js";
+
+interface CollectionOptions {
+	message: string;
+	help?: PromptHelp;
+	input?: Readable;
+	output?: Writable;
+}
+
+export interface ListPromptOptions extends CollectionOptions {
+	initialValue?: readonly string[];
+	/** Checked when a row is saved; the message is shown under the row. */
+	validateItem?: (item: string) => string | undefined;
+	minItems?: number;
+}
+
+export interface KeyValuePromptOptions extends CollectionOptions {
+	initialValue?: Readonly<Record<string, string>>;
+	validateEntry?: (key: string, value: string) => string | undefined;
+	minItems?: number;
+}
+
+interface RowEdit {
+	index: number;
+	draft: string;
+	/** New rows are dropped again when the edit is discarded. */
+	isNew: boolean;
+}
+
+const CTRL_D = "\u0004";
+
+interface CollectionPromptOptions {
+	rows: readonly string[];
+	/** Error for `text` saved at `index`, given the other rows. */
+	validateRow: (text: string, rows: readonly string[], index: number) => string | undefined;
+	minItems?: number;
+	help?: PromptHelp;
+	input?: Readable;
+	output?: Writable;
+	render(this: CollectionPrompt): string | undefined;
+}
+
+/**
+ * A list of text rows edited inside one prompt. While navigating, keys
+ * act on the highlighted row; while editing, they edit the row's draft.
+ * Like `MultilinePrompt`, it wraps clack's bound keypress handler because
+ * Enter and the letter keys mean different things in each mode.
+ */
+export class CollectionPrompt extends Prompt {
+	rows: string[];
+	cursor = 0;
+	editing: RowEdit | undefined;
+	readonly helpPanel: HelpPanel;
+	private readonly collection: CollectionPromptOptions;
+
+	constructor(collection: CollectionPromptOptions) {
+		let validateAll: () => string | undefined = () => undefined;
+		super(
+			{
+				render: collection.render as (this: Omit<Prompt, "prompt">) => string | undefined,
+				validate: () => validateAll(),
+				input: collection.input,
+				output: collection.output,
+			},
+			false,
+		);
+		validateAll = () => this.validateAll();
+		this.collection = collection;
+		this.helpPanel = new HelpPanel(collection.help);
+		this.rows = [...collection.rows];
+		this.value = [...this.rows];
+
+		interceptKeypresses(this, (char, key, handleKeypress) => {
+			const handled = this.editing ? this.editKey(char, key) : this.navigateKey(char, key);
+			if (handled) {
+				renderPrompt(this);
+				return;
+			}
+			if (!this.editing && (char === CTRL_D || (key?.ctrl && key.name === "d"))) {
+				handleKeypress(undefined, { name: "return" });
+				return;
+			}
+			if (key?.ctrl && key.name === "c") {
+				handleKeypress(char, key);
+				return;
+			}
+			if (!this.editing && key?.name === "escape") {
+				handleKeypress(char, key);
+			}
+		});
+	}
+
+	private navigateKey(char: string | undefined, key?: Key): boolean {
+		if (this.state === "error") {
+			this.state = "active";
+		}
+		const name = key?.name;
+		if ((name === "up" || name === "down") && this.rows.length > 0) {
+			const offset = name === "up" ? -1 : 1;
+			const target = this.cursor + offset;
+			if (key?.shift) {
+				if (target >= 0 && target < this.rows.length) {
+					[this.rows[this.cursor], this.rows[target]] = [this.rows[target]!, this.rows[this.cursor]!];
+					this.cursor = target;
+					this.sync();
+				}
+			} else {
+				this.cursor = (target + this.rows.length) % this.rows.length;
+			}
+			return true;
+		}
+		if (char === "a" || (name === "return" && this.rows.length === 0)) {
+			const index = this.rows.length === 0 ? 0 : this.cursor + 1;
+			this.rows.splice(index, 0, "");
+			this.cursor = index;
+			this.editing = { index, draft: "", isNew: true };
+			return true;
+		}
+		if (char === "e" || name === "return") {
+			this.editing = { index: this.cursor, draft: this.rows[this.cursor] ?? "", isNew: false };
+			return true;
+		}
+		if ((char === "d" || name === "delete" || name === "backspace") && this.rows.length > 0) {
+			this.rows.splice(this.cursor, 1);
+			this.cursor = Math.max(0, Math.min(this.cursor, this.rows.length - 1));
+			this.sync();
+			return true;
+		}
+		if (char === HELP_KEY && this.helpPanel.enabled) {
+			this.helpPanel.toggle();
+			return true;
+		}
+		return false;
+	}
+
+	private editKey(char: string | undefined, key?: Key): boolean {
+		const edit = this.editing!;
+		if (this.state === "error") {
+			this.state = "active";
+		}
+		switch (key?.name) {
+			case "return":
+			case "enter": {
+				const others = this.rows.filter((_, index) => index !== edit.index);
+				const error = this.collection.validateRow(edit.draft, others, edit.index);
+				if (error) {
+					this.state = "error";
+					this.error = error;
+					return true;
+				}
+				this.rows[edit.index] = edit.draft;
+				this.editing = undefined;
+				this.sync();
+				return true;
+			}
+			case "escape":
+				if (edit.isNew) {
+					this.rows.splice(edit.index, 1);
+					this.cursor = Math.max(0, Math.min(this.cursor, this.rows.length - 1));
+				}
+				this.editing = undefined;
+				return true;
+			case "backspace":
+				edit.draft = edit.draft.slice(0, -1);
+				return true;
+		}
+		if (key?.ctrl && key.name === "u") {
+			edit.draft = "";
+			return true;
+		}
+		if (char && !key?.ctrl && !key?.meta && isPrintable(char)) {
+			edit.draft += char;
+			return true;
+		}
+		return false;
+	}
+
+	private validateAll(): string | undefined {
+		const minItems = this.collection.minItems ?? 0;
+		if (this.rows.length < minItems) {
+			return `Add at least ${minItems} ${minItems === 1 ? "item" : "items"}.`;
+		}
+		for (const [index, row] of this.rows.entries()) {
+			const others = this.rows.filter((_, other) => other !== index);
+			const error = this.collection.validateRow(row, others, index);
+			if (error) {
+				this.cursor = index;
+				return `Row ${index + 1}: ${error}`;
+			}
+		}
+		return undefined;
+	}
+
+	private sync() {
+		this.value = [...this.rows];
+	}
+}
+
+export function listPrompt(options: ListPromptOptions): Promise<string[] | symbol> {
+	return createCollectionPrompt(options, {
+		rows: options.initialValue ?? [],
+		minItems: options.minItems,
+		validateRow: (text) => {
+			if (text.trim().length === 0) {
+				return "Enter a value.";
+			}
+			return options.validateItem?.(text.trim());
+		},
+	}).then((rows) => (Array.isArray(rows) ? rows.map((row) => row.trim()) : rows));
+}
+
+export function keyValuePrompt(
+	options: KeyValuePromptOptions,
+): Promise<Record<string, string> | symbol> {
+	return createCollectionPrompt(options, {
+		rows: Object.entries(options.initialValue ?? {}).map(([key, value]) => `${key}=${value}`),
+		minItems: options.minItems,
+		validateRow: (text, others) => {
+			const entry = splitEntry(text);
+			if (!entry) {
+				return "Use KEY=value.";
+			}
+			const [key, value] = entry;
+			if (others.some((row) => splitEntry(row)?.[0] === key)) {
+				return `Duplicate key "${key}".`;
+			}
+			return options.validateEntry?.(key, value);
+		},
+	}).then((rows) =>
+		Array.isArray(rows)
+			? Object.fromEntries(rows.map((row) => splitEntry(row)!))
+			: rows,
+	);
+}
+
+/** `KEY=value` split at the first "="; undefined without a key. */
+export function splitEntry(text: string): [key: string, value: string] | undefined {
+	const separator = text.indexOf("=");
+	if (separator === -1) {
+		return undefined;
+	}
+	const key = text.slice(0, separator).trim();
+	return key.length === 0 ? undefined : [key, text.slice(separator + 1)];
+}
+
+const EDIT_LEGEND = ["enter save", "esc discard"];
+
+function createCollectionPrompt(
+	options: CollectionOptions,
+	collection: Omit<CollectionPromptOptions, "render" | "input" | "output">,
+): Promise<string[] | symbol> {
+	const prompt = new CollectionPrompt({
+		...collection,
+		help: options.help,
+		input: options.input,
+		output: options.output,
+		render() {
+			const { palette, symbols } = getTheme();
+			const header = `${palette.frame(symbols.bar)}
+${formatStateSymbol(this.state)}  ${this.helpPanel.message(options.message)}
+`;
+
+			if (this.state === "submit") {
+				const summary = this.rows.length === 0 ? "(none)" : this.rows.join(", ");
+				return `${header}${palette.frame(symbols.bar)}  ${palette.muted(summary)}`;
+			}
+			if (this.state === "cancel") {
+				return `${header}${palette.frame(symbols.bar)}  ${palette.strikethrough(palette.muted(this.rows.join(", ")))}`;
+			}
+
+			const bar = this.state === "error" ? palette.warning(symbols.bar) : palette.accent(symbols.bar);
+			const lines = this.rows.length === 0
+				? [palette.muted("(empty) press a to add")]
+				: this.rows.map((row, index) => {
+					if (this.editing?.index === index) {
+						return `${palette.accent(symbols.pointer)} ${this.editing.draft}${palette.inverse(" ")}`;
+					}
+					return index === this.cursor ? `${palette.accent(symbols.pointer)} ${row}` : `  ${palette.muted(row)}`;
+				});
+			const body = lines.map((line) => `${bar}  ${line}`).join("\n");
+			const footer = this.state === "error"
+				? `${palette.warning(symbols.barEnd)}  ${palette.warning(this.error)}`
+				: `${palette.accent(symbols.barEnd)}  ${palette.muted(joinLegend(this.editing ? EDIT_LEGEND : [
+					"enter edit",
+					"a add",
+					"d delete",
+					`shift+${symbols.arrowUpDown} move`,
+					"ctrl+d done",
+				]))}`;
+			return `${header}${body}\n${footer}\n`;
+		},
+	});
+	return prompt.prompt() as Promise<string[] | symbol>;
+}
@@ -0,0 +1,62 @@
+import { getTheme } from "../theme.js";
+
+export interface DisableableOption {
+	disabled?: boolean;
+	/** Shown next to a disabled option, e.g. "requires Node 20". */
+	disabledReason?: string;
+}
+
+export const DISABLED_OPTION_ERROR = "This option is disabled.";
+
+export function isOptionDisabled(option: DisableableOption | undefined): boolean {
+	return option?.disabled === true;
+}
+
+export function hasDisabledOptions(options: readonly DisableableOption[]): boolean {
+	return options.some(isOptionDisabled);
+}
+
+/**
+ * First enabled index at or after `start`, walking in `step` direction and
+ * wrapping around. Returns -1 when every option is disabled.
+ */
+export function findEnabledIndex(
+	options: readonly DisableableOption[],
+	start: number,
+	step: 1 | -1,
+): number {
+	const length = options.length;
+	for (let offset = 0; offset < length; offset += 1) {
+		const index = (((start + offset * step) % length) + length) % length;
+		if (!isOptionDisabled(options[index])) {
+			return index;
+		}
+	}
+	return -1;
+}
+
+/**
+ * Moves a prompt cursor that landed on a disabled option on to the next
+ * enabled one, continuing in the direction of `action`. Returns whether the
+ * cursor changed.
+ */
+export function skipDisabledOptions(
+	prompt: { options: readonly DisableableOption[]; cursor: number },
+	action?: string,
+): boolean {
+	if (!isOptionDisabled(prompt.options[prompt.cursor])) {
+		return false;
+	}
+	const step = action === "up" || action === "left" ? -1 : 1;
+	const next = findEnabledIndex(prompt.options, prompt.cursor, step);
+	if (next === -1 || next === prompt.cursor) {
+		return false;
+	}
+	prompt.cursor = next;
+	return true;
+}
+
+export function formatDisabledOption(label: string, option: DisableableOption): string {
+	const { palette } = getTheme();
+	return `${palette.muted(palette.strikethrough(label))} ${palette.muted(`(${option.disabledReason ?? "disabled"})`)}`;
+}
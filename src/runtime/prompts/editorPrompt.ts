@@ -0,0 +1,169 @@
+import { spawn } from "node:child_process";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import process from "node:process";
+import type { Readable, Writable } from "node:stream";
+
+import { t } from "../i18n.js";
+import { getTheme } from "../theme.js";
+import { cancelSymbol } from "./clackInternals.js";
+import { multilinePrompt, summarizeLines } from "./multilinePrompt.js";
+import { formatHelpMessage, type PromptHelp } from "./promptHelp.js";
+
+export interface EditorPromptOptions {
+	message: string;
+	initialValue?: string;
+	validate?: (value: string) => string | undefined;
+	/** Temp file extension, so the editor picks the right syntax (e.g. ".json"). */
+	extension?: string;
+	/** Always shown expanded: `?` is ordinary text here. */
+	help?: PromptHelp;
+	env?: NodeJS.ProcessEnv;
+	input?: Readable;
+	output?: Writable;
+}
+
+const COMMENT_PREFIX = "# ";
+
+/** `$VISUAL`, then `$EDITOR`; undefined when neither is set. */
+export function resolveEditorCommand(env: NodeJS.ProcessEnv = process.env): string | undefined {
+	for (const candidate of [env.VISUAL, env.EDITOR]) {
+		const command = candidate?.trim();
+		if (command) {
+			return command;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Splits an editor command into words the way a shell would, without
+ * expanding anything: quotes group words, and a backslash escapes a quote,
+ * space or backslash (other backslashes stay, for Windows paths).
+ */
+export function splitEditorCommand(command: string): string[] {
+	const words: string[] = [];
+	let word: string | undefined;
+	let quote: string | undefined;
+	for (let index = 0; index < command.length; index += 1) {
+		const char = command[index]!;
+		const next = command[index + 1];
+		if (char === "\\" && isEscaped(next, quote)) {
+			word = (word ?? "") + next;
+			index += 1;
+		} else if (quote) {
+			if (char === quote) {
+				quote = undefined;
+			} else {
+				word += char;
+			}
+		} else if (char === "'" || char === '"') {
+			quote = char;
+			word ??= "";
+		} else if (/\s/.test(char)) {
+			if (word !== undefined) {
+				words.push(word);
+				word = undefined;
+			}
+		} else {
+			word = (word ?? "") + char;
+		}
+	}
+	if (word !== undefined) {
+		words.push(word);
+	}
+	return words;
+}
+
+function isEscaped(char: string | undefined, quote: string | undefined): char is string {
+	if (char === undefined || quote === "'") {
+		return false;
+	}
+	return char === "\\" || char === '"' || (quote === undefined && (char === "'" || /\s/.test(char)));
+}
+
+/**
+ * Collects multi-line text in the user's editor, seeded with `initialValue`.
+ * A validation error reopens the editor with the message as a comment header,
+ * which is stripped again on save. A non-zero editor exit counts as cancel.
+ * Without a configured editor this falls back to `multilinePrompt`.
+ */
+export async function editorPrompt(options: EditorPromptOptions): Promise<string | symbol> {
+	const editor = resolveEditorCommand(options.env);
+	const message = formatHelpMessage(options.message, options.help, true);
+	if (!editor) {
+		return multilinePrompt({ ...options, message });
+	}
+
+	const output = options.output ?? process.stdout;
+	const directory = await mkdtemp(path.join(os.tmpdir(), "dev-wizard-editor-"));
+	const filePath = path.join(directory, `input${options.extension ?? ".txt"}`);
+	let value = options.initialValue ?? "";
+	let error: string | undefined;
+	const { palette, symbols } = getTheme();
+
+	try {
+		for (;;) {
+			const header = error ? formatErrorHeader(error) : "";
+			await writeFile(filePath, `${header}${value}`, "utf8");
+			output.write(
+				`${palette.frame(symbols.bar)}\n${palette.accent(symbols.stepActive)}  ${message}\n${palette.frame(symbols.bar)}  ${palette.muted(t("editor.waiting", { editor }))}\n`,
+			);
+
+			const exitCode = await runEditor(editor, filePath, options.env);
+			if (exitCode !== 0) {
+				output.write(`${palette.frame(symbols.bar)}  ${palette.strikethrough(palette.muted(t("editor.closedWithoutSaving")))}\n`);
+				return cancelSymbol();
+			}
+
+			const contents = await readFile(filePath, "utf8");
+			value = (header ? stripErrorHeader(contents) : contents).replace(/\r?\n$/, "");
+			error = options.validate?.(value);
+			if (!error) {
+				output.write(`${palette.frame(symbols.bar)}  ${palette.muted(summarizeLines(value))}\n`);
+				return value;
+			}
+			output.write(`${palette.warning(symbols.stepError)}  ${palette.warning(error)}\n`);
+		}
+	} finally {
+		await rm(directory, { recursive: true, force: true });
+	}
+}
+
+function runEditor(editor: string, filePath: string, env?: NodeJS.ProcessEnv): Promise<number> {
+	return new Promise((resolve, reject) => {
+		// Editor commands often carry flags ("code --wait"); the file goes last,
+		// as its own argument, so no shell ever sees the path.
+		const [command = editor, ...args] = splitEditorCommand(editor);
+		const child = spawn(command, [...args, filePath], {
+			env: env ?? process.env,
+			stdio: "inherit",
+		});
+		child.once("error", reject);
+		child.once("exit", (code) => resolve(code ?? 1));
+	});
+}
+
+function errorHeaderEnd(): string {
+	return `${COMMENT_PREFIX}${t("editor.errorHeaderEnd")}`;
+}
+
+function formatErrorHeader(error: string): string {
+	const lines = t("editor.error", { error }).split("\n").map((line) => `${COMMENT_PREFIX}${line}`);
+	return `${[...lines, errorHeaderEnd()].join("\n")}\n\n`;
+}
+
+/**
+ * Drops the header `formatErrorHeader` wrote, up to its last line, and
+ * nothing else: text of the user's own that starts with "#" stays.
+ */
+function stripErrorHeader(contents: string): string {
+	const lines = contents.split("\n");
+	const end = lines.indexOf(errorHeaderEnd());
+	if (end === -1 || !lines.slice(0, end).every((line) => line.startsWith(COMMENT_PREFIX.trim()))) {
+		return contents;
+	}
+	const start = lines[end + 1]?.trim() === "" ? end + 2 : end + 1;
+	return lines.slice(start).join("\n");
+}
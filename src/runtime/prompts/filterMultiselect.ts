@@ -0,0 +1,233 @@
+import process from "node:process";
+import type { Readable, Writable } from "node:stream";
+
+import { t } from "../i18n.js";
+import { formatStateSymbol, getTheme, joinLegend } from "../theme.js";
+import {
+	AsyncOptionsLoader,
+	isOptionsProvider,
+	type OptionsSource,
+} from "./asyncOptions.js";
+import { renderPrompt } from "./clackInternals.js";
+import {
+	formatDisabledOption,
+	isOptionDisabled,
+	type DisableableOption,
+} from "./disabledOptions.js";
+import { FilterMultiSelectPrompt } from "./filterSelectPrompt.js";
+import { highlightMatches } from "./fuzzyMatch.js";
+import {
+	formatGroupHeader,
+	groupOf,
+	hasGroupedOptions,
+	type GroupableOption,
+} from "./optionGroups.js";
+import { HELP_KEY, HelpPanel, type PromptHelp } from "./promptHelp.js";
+import { resolveVisibleRows, sliceViewport, type ViewportRow } from "./viewport.js";
+
+export interface FilterMultiSelectOption extends DisableableOption, GroupableOption {
+	value: string;
+	label?: string;
+	hint?: string;
+}
+
+export interface FilterMultiSelectPromptOptions {
+	message: string;
+	/** The options, or a provider that loads them once the prompt is open. */
+	options: OptionsSource<FilterMultiSelectOption>;
+	initialValues?: string[];
+	required?: boolean;
+	maxItems?: number;
+	showSelectionOrder?: boolean;
+	/** Shown in a panel toggled by typing `?` into an empty filter. */
+	help?: PromptHelp;
+	input?: Readable;
+	output?: Writable;
+}
+
+type ClackFilterMultiSelect = FilterMultiSelectPrompt<FilterMultiSelectOption>;
+
+const KEY_LEGEND = ["space toggle", "ctrl+a all", "ctrl+n none", "ctrl+r invert"];
+
+export async function filterMultiselect(
+	options: FilterMultiSelectPromptOptions,
+): Promise<string[] | symbol> {
+	let windowStart = 0;
+	const output = options.output ?? process.stdout;
+	const helpPanel = new HelpPanel(options.help);
+	const provider = isOptionsProvider(options.options) ? options.options : undefined;
+	let loader: AsyncOptionsLoader<FilterMultiSelectOption> | undefined;
+
+	const prompt = new FilterMultiSelectPrompt<FilterMultiSelectOption>({
+		options: isOptionsProvider(options.options) ? [] : options.options,
+		initialValues: options.initialValues,
+		required: options.required,
+		holdInput: () => loader?.blocking ?? false,
+		input: options.input,
+		output,
+		render() {
+			if (loader?.blocking && this.state !== "cancel") {
+				return renderLoading(this, loader, helpPanel.message(options.message));
+			}
+			const view = sliceViewport(
+				this.options,
+				this.cursor,
+				windowStart,
+				// Header (2), filter line, counter, bottom frame and the cursor line.
+				resolveVisibleRows(options.maxItems, output, 6),
+				this.isFiltering ? undefined : groupOf,
+			);
+			windowStart = view.start;
+			return renderFilterPrompt(this, options, helpPanel.message(options.message), view.rows, loader);
+		},
+	});
+
+	if (provider) {
+		let loaded = false;
+		loader = new AsyncOptionsLoader(
+			provider,
+			(next) => {
+				// initialValues only apply to the first load; refreshes keep the selection.
+				if (!loaded) {
+					prompt.selected = [...(options.initialValues ?? [])];
+				}
+				prompt.setOptions(next);
+				loaded = true;
+			},
+			() => renderPrompt(prompt),
+		);
+		loader.attach(prompt, () => prompt.allOptions);
+		loader.load();
+	}
+
+	if (helpPanel.enabled) {
+		prompt.on("key", (char?: string) => {
+			if (char === HELP_KEY && prompt.query === HELP_KEY) {
+				prompt.resetQuery();
+				helpPanel.toggle();
+			}
+		});
+	}
+
+	const result = (await prompt.prompt()) as string[] | symbol;
+	return result;
+}
+
+function renderFilterPrompt(
+	prompt: ClackFilterMultiSelect,
+	options: FilterMultiSelectPromptOptions,
+	message: string,
+	rows: ViewportRow<FilterMultiSelectOption>[],
+	loader?: AsyncOptionsLoader<FilterMultiSelectOption>,
+): string {
+	const { palette, symbols } = getTheme();
+	const header = `${palette.frame(symbols.bar)}
+${formatStateSymbol(prompt.state)}  ${message}
+`;
+
+	if (prompt.state === "submit") {
+		return (
+			header +
+			`${palette.frame(symbols.bar)}  ` +
+			formatSubmission(prompt.value as string[], prompt.allOptions)
+		);
+	}
+
+	if (prompt.state === "cancel") {
+		return header + `${palette.frame(symbols.bar)}  ${palette.strikethrough(t("prompt.selectionCancelled"))}\n`;
+	}
+
+	const query = prompt.query.length > 0
+		? `${prompt.query}${palette.inverse(palette.hidden("_"))}`
+		: `${palette.inverse(palette.hidden("_"))}${palette.muted(` ${t("prompt.typeToFilter")}`)}`;
+	const filterLine = `${palette.accent(symbols.bar)}  ${palette.muted("/")} ${query}`;
+
+	const lines = rows.length === 0
+		? [palette.muted(t("prompt.noMatches"))]
+		: rows.map((row) => {
+			switch (row.kind) {
+				case "more":
+					return palette.muted("...");
+				case "group":
+					return formatGroupHeader(row.group);
+				default:
+					return renderOption(prompt, row.item, row.index, options.showSelectionOrder ?? false);
+			}
+		});
+
+	const body = [filterLine, ...lines.map((line) => `${palette.accent(symbols.bar)}  ${line}`)].join("\n");
+	const counter = palette.muted(joinLegend([
+		t("prompt.selectedCount", { count: prompt.selected.length, total: prompt.allOptions.length }),
+		...KEY_LEGEND,
+		hasGroupedOptions(prompt.allOptions) && "tab group",
+		loader?.formatLegend(),
+	]));
+
+	if (prompt.state === "error" && prompt.error) {
+		return `${header}${body}\n${palette.warning(symbols.bar)}  ${counter}\n${palette.warning(symbols.barEnd)}  ${palette.warning(prompt.error)}\n`;
+	}
+
+	return `${header}${body}\n${palette.accent(symbols.bar)}  ${counter}\n${palette.accent(symbols.barEnd)}\n`;
+}
+
+function renderLoading(
+	prompt: ClackFilterMultiSelect,
+	loader: AsyncOptionsLoader<FilterMultiSelectOption>,
+	message: string,
+): string {
+	const { palette, symbols } = getTheme();
+	return `${palette.frame(symbols.bar)}
+${formatStateSymbol(prompt.state)}  ${message}
+${palette.accent(symbols.bar)}  ${loader.formatStatus()}
+${palette.accent(symbols.barEnd)}  ${palette.muted(loader.formatLegend())}
+`;
+}
+
+function renderOption(
+	prompt: ClackFilterMultiSelect,
+	option: FilterMultiSelectOption,
+	index: number,
+	showSelectionOrder: boolean,
+): string {
+	const { palette, symbols } = getTheme();
+	const baseLabel = option.label ?? String(option.value);
+	const selectedIndex = prompt.selected.indexOf(option.value);
+	const isSelected = selectedIndex !== -1;
+	const isActive = prompt.cursor === index;
+	const pointer = isActive ? palette.accent(symbols.pointer) : " ";
+	if (isOptionDisabled(option)) {
+		return `${pointer} ${palette.muted(showSelectionOrder ? "[-]" : symbols.checkboxInactive)} ${formatDisabledOption(baseLabel, option)}`;
+	}
+	const marker = showSelectionOrder
+		? isSelected
+			? palette.success(`[${selectedIndex + 1}]`)
+			: palette.muted("[ ]")
+		: isSelected
+			? palette.success(symbols.checkboxActive)
+			: palette.muted(symbols.checkboxInactive);
+	const match = prompt.getMatch(option);
+	const labelColor = isActive ? (isSelected ? palette.selected : palette.accent) : palette.muted;
+	const label = highlightMatches(
+		baseLabel,
+		match?.labelIndices ?? [],
+		(value) => palette.strong(palette.accent(value)),
+		labelColor,
+	);
+	const hint = option.hint
+		? ` ${palette.muted("(")}${highlightMatches(option.hint, match?.hintIndices ?? [], palette.accent, palette.muted)}${palette.muted(")")}`
+		: "";
+
+	return `${pointer} ${marker} ${label}${hint}`;
+}
+
+function formatSubmission(
+	values: string[],
+	options: FilterMultiSelectOption[],
+): string {
+	const { palette } = getTheme();
+	if (values.length === 0) {
+		return palette.muted(t("prompt.noneSelected"));
+	}
+	const lookup = new Map(options.map((opt) => [opt.value, opt.label ?? opt.value]));
+	return values.map((value) => palette.muted(lookup.get(value) ?? value)).join(palette.muted(", "));
+}
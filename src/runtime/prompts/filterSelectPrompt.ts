@@ -0,0 +1,322 @@
+import { Prompt } from "@clack/core";
+import type { Readable, Writable } from "node:stream";
+
+import { t } from "../i18n.js";
+import { replacePromptLine } from "./clackInternals.js";
+import {
+	DISABLED_OPTION_ERROR,
+	isOptionDisabled,
+	skipDisabledOptions,
+	type DisableableOption,
+} from "./disabledOptions.js";
+import {
+	filterOptions,
+	type FilterableOption,
+	type OptionMatch,
+} from "./fuzzyMatch.js";
+import { sortByGroup, toggleGroupValues, type GroupableOption } from "./optionGroups.js";
+
+type FilterPromptOption = FilterableOption & DisableableOption & GroupableOption;
+
+interface FilterPromptBaseOptions<T extends FilterPromptOption> {
+	options: T[];
+	/** While true, typed text is dropped from the line instead of changing the query. */
+	holdInput?: () => boolean;
+	input?: Readable;
+	output?: Writable;
+}
+
+export interface FilterSelectPromptOptions<T extends FilterPromptOption>
+	extends FilterPromptBaseOptions<T> {
+	initialValue?: T["value"];
+	render(this: FilterSelectPrompt<T>): string | undefined;
+}
+
+export interface FilterMultiSelectPromptOptions<T extends FilterPromptOption>
+	extends FilterPromptBaseOptions<T> {
+	initialValues?: T["value"][];
+	required?: boolean;
+	render(this: FilterMultiSelectPrompt<T>): string | undefined;
+}
+
+/**
+ * Shared state for prompts whose typed input narrows the option list. The
+ * readline line holds the query, so `options` is the filtered view and
+ * `allOptions` the full list; subclasses decide what `value` becomes on submit.
+ * The cursor never rests on a disabled option while an enabled one is visible.
+ * Grouped options are kept together until a query ranks them by score.
+ */
+abstract class FilterPrompt<T extends FilterPromptOption> extends Prompt {
+	allOptions: T[];
+	options: T[];
+	cursor = 0;
+	query = "";
+	private matches = new Map<T, OptionMatch<T>>();
+
+	protected constructor(
+		opts: FilterPromptBaseOptions<T> & {
+			render(this: never): string | undefined;
+			validate(): string | undefined;
+		},
+	) {
+		super(
+			{
+				render: opts.render as (this: Omit<Prompt, "prompt">) => string | undefined,
+				validate: () => opts.validate(),
+				input: opts.input,
+				output: opts.output,
+			},
+			true,
+		);
+
+		this.allOptions = sortByGroup(opts.options);
+		this.options = this.allOptions;
+		this.applyQuery("");
+
+		this.on("value", (value?: string) => {
+			const query = value ?? "";
+			if (query !== this.query && opts.holdInput?.()) {
+				this.replaceQuery(this.query);
+				return;
+			}
+			if (normalizeQuery(query) !== normalizeQuery(this.query)) {
+				this.applyQuery(query);
+			} else {
+				this.query = query;
+			}
+		});
+
+		this.on("cursor", (key) => {
+			if (this.options.length === 0) {
+				return;
+			}
+			switch (key) {
+				case "up":
+					this.cursor = this.cursor === 0 ? this.options.length - 1 : this.cursor - 1;
+					break;
+				case "down":
+					this.cursor = this.cursor === this.options.length - 1 ? 0 : this.cursor + 1;
+					break;
+			}
+			skipDisabledOptions(this, key);
+		});
+	}
+
+	get highlighted(): T | undefined {
+		return this.options[this.cursor];
+	}
+
+	/** True while a query narrows and ranks the options. */
+	get isFiltering(): boolean {
+		return normalizeQuery(this.query).length > 0;
+	}
+
+	getMatch(option: T): OptionMatch<T> | undefined {
+		return this.matches.get(option);
+	}
+
+	/**
+	 * Swaps in a new option list, e.g. once async options arrive. The query
+	 * is kept and the cursor stays on `highlightValue` while it is listed.
+	 */
+	setOptions(options: T[], highlightValue: T["value"] | undefined = this.highlighted?.value) {
+		this.allOptions = sortByGroup(options);
+		this.applyQuery(this.query);
+		const index = this.options.findIndex((option) => option.value === highlightValue);
+		if (index !== -1) {
+			this.cursor = index;
+		}
+		skipDisabledOptions(this);
+	}
+
+	/** Clears the query, e.g. after a key typed into it triggered a shortcut. */
+	resetQuery() {
+		this.replaceQuery("");
+	}
+
+	/**
+	 * Rewrites the readline line, e.g. to drop a keystroke that was consumed
+	 * as a command rather than query text.
+	 */
+	protected replaceQuery(value: string) {
+		replacePromptLine(this, value);
+	}
+
+	private applyQuery(query: string) {
+		const previous = this.options[this.cursor];
+		const matches = filterOptions(this.allOptions, query);
+		this.query = query;
+		this.matches = new Map(matches.map((match) => [match.option, match]));
+		this.options = matches.map((match) => match.option);
+		// Typing jumps to the best match; clearing the query keeps the highlighted option.
+		const retained = previous ? this.options.indexOf(previous) : -1;
+		this.cursor = retained === -1 || normalizeQuery(query).length > 0 ? 0 : retained;
+		skipDisabledOptions(this);
+	}
+}
+
+function normalizeQuery(query: string): string {
+	return query.replace(/\s+/g, "");
+}
+
+/**
+ * Single-choice filter prompt; `value` becomes the highlighted option value
+ * on submit.
+ */
+export class FilterSelectPrompt<T extends FilterPromptOption> extends FilterPrompt<T> {
+	constructor(opts: FilterSelectPromptOptions<T>) {
+		let self: FilterSelectPrompt<T> | undefined;
+		super({
+			...opts,
+			render: opts.render as (this: never) => string | undefined,
+			validate: () => {
+				if (self?.options.length === 0) {
+					return "No options match the filter.";
+				}
+				return isOptionDisabled(self?.highlighted) ? DISABLED_OPTION_ERROR : undefined;
+			},
+		});
+		self = this;
+
+		const initialIndex = this.options.findIndex(
+			(option) => option.value === opts.initialValue,
+		);
+		this.cursor = initialIndex === -1 ? 0 : initialIndex;
+		skipDisabledOptions(this);
+
+		this.on("finalize", () => {
+			if (this.state === "submit") {
+				this.value = this.options[this.cursor]?.value;
+			}
+		});
+	}
+}
+
+/**
+ * Multi-choice filter prompt. Space toggles the highlighted option instead of
+ * extending the query, and ctrl+a / ctrl+n / ctrl+r select, clear or invert
+ * every visible option; tab toggles the visible options in the highlighted
+ * option's group. Disabled options are never selected. `selected` keeps
+ * selection order and becomes `value` on submit.
+ */
+export class FilterMultiSelectPrompt<T extends FilterPromptOption> extends FilterPrompt<T> {
+	selected: T["value"][];
+
+	constructor(opts: FilterMultiSelectPromptOptions<T>) {
+		let self: FilterMultiSelectPrompt<T> | undefined;
+		super({
+			...opts,
+			render: opts.render as (this: never) => string | undefined,
+			validate: () =>
+				(opts.required ?? true) && self?.selected.length === 0
+					? t("prompt.selectAtLeastOne")
+					: undefined,
+		});
+		self = this;
+
+		this.selected = this.knownValues(opts.initialValues ?? []);
+
+		this.on("cursor", (key) => {
+			if (key !== "space") {
+				return;
+			}
+			this.replaceQuery(normalizeQuery(this.query));
+			const option = this.highlighted;
+			if (option) {
+				this.toggle(option.value);
+			}
+		});
+
+		this.on("key", (char?: string) => {
+			switch (char) {
+				case "\u0001":
+					// ctrl+a also moves the readline cursor home; put it back at the end.
+					this.replaceQuery(this.query);
+					this.selectVisible();
+					break;
+				case "\u000e":
+					this.clearVisible();
+					break;
+				case "\u0012":
+					this.invertVisible();
+					break;
+				case "\t":
+					this.replaceQuery(this.query);
+					this.toggleHighlightedGroup();
+					break;
+			}
+		});
+
+		this.on("finalize", () => {
+			if (this.state === "submit") {
+				this.value = [...this.selected];
+			}
+		});
+	}
+
+	/** Also drops selections that are no longer listed or are now disabled. */
+	override setOptions(options: T[], highlightValue?: T["value"]) {
+		super.setOptions(options, highlightValue);
+		this.selected = this.knownValues(this.selected);
+	}
+
+	isSelected(option: T): boolean {
+		return this.selected.includes(option.value);
+	}
+
+	toggle(value: T["value"]) {
+		if (isOptionDisabled(this.allOptions.find((option) => option.value === value))) {
+			return;
+		}
+		this.selected = this.selected.includes(value)
+			? this.selected.filter((entry) => entry !== value)
+			: [...this.selected, value];
+	}
+
+	selectVisible() {
+		const additions = this.enabledVisibleValues()
+			.filter((value) => !this.selected.includes(value));
+		this.selected = [...this.selected, ...additions];
+	}
+
+	clearVisible() {
+		const visible = new Set(this.options.map((option) => option.value));
+		this.selected = this.selected.filter((value) => !visible.has(value));
+	}
+
+	invertVisible() {
+		const visible = this.enabledVisibleValues();
+		const kept = this.selected.filter((value) => !visible.includes(value));
+		const added = visible.filter((value) => !this.selected.includes(value));
+		this.selected = [...kept, ...added];
+	}
+
+	toggleHighlightedGroup() {
+		const group = this.highlighted?.group;
+		if (group === undefined) {
+			return;
+		}
+		const members = this.options.filter(
+			(option) => option.group === group && !isOptionDisabled(option),
+		);
+		this.selected = toggleGroupValues(
+			this.selected,
+			members.map((option) => option.value),
+		);
+	}
+
+	private knownValues(values: readonly T["value"][]): T["value"][] {
+		const known = new Set(
+			this.allOptions
+				.filter((option) => !isOptionDisabled(option))
+				.map((option) => option.value),
+		);
+		return values.filter((value) => known.has(value));
+	}
+
+	private enabledVisibleValues(): T["value"][] {
+		return this.options
+			.filter((option) => !isOptionDisabled(option))
+			.map((option) => option.value);
+	}
+}
@@ -0,0 +1,168 @@
+export interface FuzzyMatch {
+	score: number;
+	indices: number[];
+}
+
+export interface FilterableOption {
+	value: unknown;
+	label?: string;
+	hint?: string;
+}
+
+export interface OptionMatch<T extends FilterableOption> {
+	option: T;
+	score: number;
+	labelIndices: number[];
+	hintIndices: number[];
+}
+
+const SCORE_MATCH = 1;
+const SCORE_CONSECUTIVE = 4;
+const SCORE_WORD_START = 3;
+const SCORE_PREFIX = 6;
+const PENALTY_GAP = 0.1;
+const PENALTY_UNMATCHED = 0.01;
+const WORD_SEPARATORS = new Set([" ", "-", "_", "/", ".", ":", "@"]);
+
+/**
+ * Subsequence match of `query` against `text` (case-insensitive, whitespace in
+ * the query is ignored). Returns undefined when not every query character can
+ * be matched in order.
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | undefined {
+	const needle = query.replace(/\s+/g, "").toLowerCase();
+	if (needle.length === 0) {
+		return { score: 0, indices: [] };
+	}
+	const haystack = text.toLowerCase();
+	const indices: number[] = [];
+	let score = 0;
+	let searchFrom = 0;
+	let previousIndex = -1;
+
+	for (const char of needle) {
+		const index = findBestIndex(haystack, char, searchFrom, previousIndex);
+		if (index === -1) {
+			return undefined;
+		}
+		score += SCORE_MATCH;
+		if (index === 0) {
+			score += SCORE_PREFIX;
+		} else if (WORD_SEPARATORS.has(haystack[index - 1] ?? "")) {
+			score += SCORE_WORD_START;
+		}
+		if (previousIndex !== -1) {
+			if (index === previousIndex + 1) {
+				score += SCORE_CONSECUTIVE;
+			} else {
+				score -= (index - previousIndex - 1) * PENALTY_GAP;
+			}
+		}
+		indices.push(index);
+		previousIndex = index;
+		searchFrom = index + 1;
+	}
+
+	// Tie-break equal matches in favour of shorter candidates.
+	score -= (haystack.length - indices.length) * PENALTY_UNMATCHED;
+
+	return { score, indices };
+}
+
+function findBestIndex(
+	haystack: string,
+	char: string,
+	from: number,
+	previousIndex: number,
+): number {
+	const first = haystack.indexOf(char, from);
+	if (first === -1 || first === previousIndex + 1) {
+		return first;
+	}
+	// Prefer a later occurrence that starts a word over an arbitrary mid-word hit.
+	for (let index = first; index !== -1; index = haystack.indexOf(char, index + 1)) {
+		if (index === 0 || WORD_SEPARATORS.has(haystack[index - 1] ?? "")) {
+			return index;
+		}
+	}
+	return first;
+}
+
+/**
+ * Filters options against label, value and hint, keeping the best-scoring
+ * field per option. Results are ordered by score, then by original position.
+ */
+export function filterOptions<T extends FilterableOption>(
+	options: readonly T[],
+	query: string,
+): OptionMatch<T>[] {
+	if (query.trim().length === 0) {
+		return options.map((option) => ({
+			option,
+			score: 0,
+			labelIndices: [],
+			hintIndices: [],
+		}));
+	}
+
+	const matches: Array<OptionMatch<T> & { position: number }> = [];
+	options.forEach((option, position) => {
+		const label = option.label ?? String(option.value);
+		const labelMatch = fuzzyMatch(query, label);
+		const valueMatch = fuzzyMatch(query, String(option.value));
+		const hintMatch = option.hint ? fuzzyMatch(query, option.hint) : undefined;
+		const best = Math.max(
+			labelMatch?.score ?? -Infinity,
+			valueMatch?.score ?? -Infinity,
+			hintMatch?.score ?? -Infinity,
+		);
+		if (best === -Infinity) {
+			return;
+		}
+		const labelWins = labelMatch !== undefined && labelMatch.score === best;
+		matches.push({
+			option,
+			score: best,
+			labelIndices: labelWins ? labelMatch.indices : [],
+			hintIndices:
+				!labelWins && hintMatch && hintMatch.score === best ? hintMatch.indices : [],
+			position,
+		});
+	});
+
+	return matches
+		.sort((a, b) => b.score - a.score || a.position - b.position)
+		.map(({ position: _position, ...match }) => match);
+}
+
+/**
+ * Applies `highlight` to matched characters and `rest` to everything else,
+ * grouping consecutive runs so escape sequences stay short.
+ */
+export function highlightMatches(
+	text: string,
+	indices: readonly number[],
+	highlight: (value: string) => string,
+	rest: (value: string) => string = (value) => value,
+): string {
+	if (indices.length === 0) {
+		return rest(text);
+	}
+	const matched = new Set(indices);
+	let output = "";
+	let run = "";
+	let runMatched = matched.has(0);
+	for (let index = 0; index < text.length; index += 1) {
+		const isMatched = matched.has(index);
+		if (isMatched !== runMatched && run.length > 0) {
+			output += runMatched ? highlight(run) : rest(run);
+			run = "";
+		}
+		runMatched = isMatched;
+		run += text[index];
+	}
+	if (run.length > 0) {
+		output += runMatched ? highlight(run) : rest(run);
+	}
+	return output;
+}
@@ -0,0 +1,44 @@
+import type { Key } from "node:readline";
+import type { Readable } from "node:stream";
+
+export interface KeypressTracker {
+	/** The most recent raw keypress, including modifier flags. */
+	readonly last: Key | undefined;
+	dispose(): void;
+}
+
+/**
+ * Records raw keypresses on `input`. clack only forwards the action name
+ * ("up", "down", ...) to prompt listeners, so modifiers like shift are lost;
+ * create the tracker before calling `prompt()` so it sees each key first.
+ */
+export function trackKeypresses(
+	input: Readable,
+	onKey?: (key: Key | undefined) => void,
+): KeypressTracker {
+	let last: Key | undefined;
+	const onKeypress = (_char: string | undefined, key?: Key) => {
+		last = key;
+		onKey?.(key);
+	};
+	input.on("keypress", onKeypress);
+	return {
+		get last() {
+			return last;
+		},
+		dispose() {
+			input.off("keypress", onKeypress);
+		},
+	};
+}
+
+/** True when `text` holds no control characters (C0 or DEL), so it can be typed into a value. */
+export function isPrintable(text: string): boolean {
+	for (let index = 0; index < text.length; index += 1) {
+		const code = text.charCodeAt(index);
+		if (code < 0x20 || code === 0x7f) {
+			return false;
+		}
+	}
+	return true;
+}
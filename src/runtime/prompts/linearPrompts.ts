@@ -0,0 +1,686 @@
+import process from "node:process";
+import type { Readable, Writable } from "node:stream";
+
+import { t } from "../i18n.js";
+import { isOptionsProvider, type OptionsSource } from "./asyncOptions.js";
+import { cancelSymbol } from "./clackInternals.js";
+import { splitEntry } from "./collectionPrompt.js";
+import { isOptionDisabled, type DisableableOption } from "./disabledOptions.js";
+import { sortByGroup, type GroupableOption } from "./optionGroups.js";
+import { formatHelpLines, hasPromptHelp, type PromptHelp } from "./promptHelp.js";
+import type { ParseResult } from "./typedValues.js";
+
+export interface LinearPrompterOptions {
+	input?: Readable;
+	output?: Writable;
+}
+
+export interface LinearOption<Value extends string = string>
+	extends DisableableOption, GroupableOption {
+	value: Value;
+	label?: string;
+	hint?: string;
+}
+
+export interface LinearShortcut<Value extends string = string> {
+	key: string;
+	label: string;
+	/** Answer the prompt resolves with when the key is typed. */
+	value?: Value;
+	/**
+	 * Runs when the key is typed. Without a `value` the question is asked
+	 * again afterwards, so the shortcut acts without answering.
+	 */
+	run?: () => void | Promise<void>;
+}
+
+interface QuestionBase {
+	message: string;
+	help?: PromptHelp;
+}
+
+export interface LinearQuestionOptions<T> extends QuestionBase {
+	/** Answer used when the line is left empty. */
+	initialValue?: T;
+	format?: (value: T) => string;
+	parse: (text: string) => ParseResult<T>;
+	/** Extra line under the message, e.g. the accepted formats. */
+	instructions?: string;
+	/** Reads without echoing the typed characters. */
+	secret?: boolean;
+}
+
+export interface LinearSelectOptions<Value extends string> extends QuestionBase {
+	options: OptionsSource<LinearOption<Value>>;
+	initialValue?: Value;
+	shortcuts?: LinearShortcut<Value>[];
+	/** Read out under each option; promised details are all awaited first. */
+	details?: (option: LinearOption<Value>) => LinearOptionDetails | Promise<LinearOptionDetails>;
+}
+
+type LinearOptionDetails = string | readonly string[] | undefined;
+
+export interface LinearMultiSelectOptions extends QuestionBase {
+	options: OptionsSource<LinearOption>;
+	initialValues?: string[];
+	/** Defaults to true, as in clack. */
+	required?: boolean;
+}
+
+export interface LinearSelectWithOtherOptions extends QuestionBase {
+	options: LinearOption[];
+	initialValue?: string;
+	otherLabel?: string;
+	otherInitialValue?: string;
+	placeholder?: string;
+	validate?: (value: string) => string | undefined;
+}
+
+export interface LinearListOptions extends QuestionBase {
+	initialValue?: readonly string[];
+	minItems?: number;
+	validateItem?: (item: string) => string | undefined;
+}
+
+export interface LinearKeyValueOptions extends QuestionBase {
+	initialValue?: Readonly<Record<string, string>>;
+	minItems?: number;
+	validateEntry?: (key: string, value: string) => string | undefined;
+}
+
+const INPUT_MARKER = "> ";
+const END_OF_TEXT = ".";
+const YES_ANSWERS = ["y", "yes"];
+const NO_ANSWERS = ["n", "no"];
+const CTRL_C = "\u0003";
+const CTRL_D = "\u0004";
+
+/**
+ * Line-based stand-ins for the interactive prompts, for screen readers.
+ * Nothing is ever repainted: each question is printed once as plain lines,
+ * options are numbered, answers are read a line at a time and problems are
+ * printed as "Error: ..." before the question is asked again. End of input
+ * (Ctrl+D) cancels, resolving with clack's cancel symbol like every other
+ * prompt in this package.
+ */
+export class LinearPrompter {
+	private readonly input: Readable;
+	private readonly output: Writable;
+	private readonly lines: string[] = [];
+	private pending = "";
+	private ended = false;
+	private introduced = false;
+
+	constructor({ input = process.stdin, output = process.stdout }: LinearPrompterOptions = {}) {
+		this.input = input;
+		this.output = output;
+	}
+
+	/** Prints `text` as-is, one line per line. */
+	say(text = "") {
+		this.output.write(`${text}\n`);
+	}
+
+	private sayError(error: string) {
+		this.say(t("linear.error", { error }));
+	}
+
+	question<T>(options: LinearQuestionOptions<T>): Promise<T | symbol> {
+		const format = options.format ?? String;
+		const fallback = options.initialValue === undefined
+			? ""
+			: ` ${t("linear.pressEnterFor", { value: options.secret ? t("linear.savedValue") : format(options.initialValue) })}`;
+		this.ask(options, options.instructions ? [`${options.instructions}${fallback}`] : [], fallback);
+		return this.answer((text) => {
+			if (text.trim().length === 0 && options.initialValue !== undefined) {
+				return { value: options.initialValue };
+			}
+			return options.parse(text);
+		}, options.secret);
+	}
+
+	text(options: QuestionBase & {
+		initialValue?: string;
+		placeholder?: string;
+		validate?: (value: string) => string | undefined;
+	}): Promise<string | symbol> {
+		return this.question<string>({
+			...options,
+			instructions: options.placeholder ? t("linear.example", { example: options.placeholder }) : undefined,
+			parse: (text) => {
+				const error = options.validate?.(text);
+				return error ? { error } : { value: text };
+			},
+		});
+	}
+
+	password(options: QuestionBase & {
+		validate?: (value: string) => string | undefined;
+	}): Promise<string | symbol> {
+		return this.question<string>({
+			...options,
+			instructions: t("linear.notEchoed"),
+			secret: true,
+			parse: (text) => {
+				const error = options.validate?.(text);
+				return error ? { error } : { value: text };
+			},
+		});
+	}
+
+	confirm(options: QuestionBase & { initialValue?: boolean }): Promise<boolean | symbol> {
+		return this.question<boolean>({
+			...options,
+			instructions: t("linear.answerYesNo"),
+			format: (value) => (value ? t("linear.yes") : t("linear.no")),
+			parse: (text) => {
+				const answer = text.trim().toLowerCase();
+				if (answerWords(YES_ANSWERS, t("linear.yes")).includes(answer)) {
+					return { value: true };
+				}
+				if (answerWords(NO_ANSWERS, t("linear.no")).includes(answer)) {
+					return { value: false };
+				}
+				return { error: t("linear.answerYesNo") };
+			},
+		});
+	}
+
+	/** Resolves once `phrase` is typed exactly; there is no default. */
+	typedConfirm(options: QuestionBase & { phrase: string }): Promise<true | symbol> {
+		const { phrase } = options;
+		return this.question<true>({
+			...options,
+			instructions: t("typed.confirmPhrase", { phrase }),
+			parse: (text) =>
+				text.trim() === phrase
+					? { value: true }
+					: {
+						error: text.trim().length === 0
+							? t("typed.confirmPhrase", { phrase })
+							: t("typed.phraseMismatch", { text: text.trim(), phrase }),
+					},
+		});
+	}
+
+	async select<Value extends string>(options: LinearSelectOptions<Value>): Promise<Value | symbol> {
+		const loaded = await this.loadOptions(options.options);
+		if (typeof loaded === "symbol") {
+			return loaded;
+		}
+		const choices = sortByGroup(loaded);
+		if (choices.length === 0) {
+			return this.cancelWith(t("linear.noOptions"));
+		}
+		const shortcuts = options.shortcuts ?? [];
+		const defaultIndex = choices.findIndex((option) => option.value === options.initialValue);
+		const details = await Promise.all(choices.map((option) => readDetails(option, options.details)));
+
+		for (;;) {
+			const fallback = defaultIndex === -1 ? "" : ` ${t("linear.pressEnterFor", { value: defaultIndex + 1 })}`;
+			this.ask(options, [
+				...this.formatOptions(choices, { details }),
+				...shortcuts.map((shortcut) => t("linear.shortcut", { key: shortcut.key, label: shortcut.label })),
+				`${t("linear.enterNumber", { count: choices.length })}${fallback}`,
+			]);
+			let shortcut: LinearShortcut<Value> | undefined;
+			const answer = await this.answer<Value>((text) => {
+				const trimmed = text.trim();
+				if (trimmed.length === 0 && defaultIndex !== -1) {
+					return { value: choices[defaultIndex]!.value };
+				}
+				shortcut = shortcuts.find((entry) => entry.key.toLowerCase() === trimmed.toLowerCase());
+				if (shortcut) {
+					return { value: shortcut.value ?? ("" as Value) };
+				}
+				return pickOption(choices, trimmed);
+			});
+			if (!shortcut || typeof answer === "symbol") {
+				return answer;
+			}
+			try {
+				await shortcut.run?.();
+			} catch (error) {
+				this.sayError(t("linear.shortcutFailed", {
+					label: shortcut.label,
+					error: error instanceof Error ? error.message : String(error),
+				}));
+				continue;
+			}
+			if (shortcut.value !== undefined) {
+				return shortcut.value;
+			}
+		}
+	}
+
+	async multiselect(options: LinearMultiSelectOptions): Promise<string[] | symbol> {
+		const loaded = await this.loadOptions(options.options);
+		if (typeof loaded === "symbol") {
+			return loaded;
+		}
+		const choices = sortByGroup(loaded);
+		const initial = options.initialValues ?? [];
+		const current = initial.length > 0
+			? initial.map((value) => choices.find((option) => option.value === value)?.label ?? value).join(", ")
+			: t("linear.nothing");
+		this.ask(options, [
+			...this.formatOptions(choices, { selected: initial }),
+			t("linear.multiselectInstructions", { all: t("linear.all"), none: t("linear.none") }),
+			t("linear.keepSelection", { current }),
+		]);
+		return this.answer((text) => {
+			const trimmed = text.trim().toLowerCase();
+			const result = trimmed.length === 0
+				? { value: initial }
+				: parseSelection(choices, trimmed);
+			if ("error" in result) {
+				return result;
+			}
+			if ((options.required ?? true) && result.value.length === 0) {
+				return { error: t("prompt.selectAtLeastOne") };
+			}
+			return result;
+		});
+	}
+
+	/**
+	 * Numbered options with the free-text entry last. Text that isn't an
+	 * option number or label is taken as the custom value directly.
+	 */
+	async selectWithOther(options: LinearSelectWithOtherOptions): Promise<string | symbol> {
+		const otherLabel = options.otherLabel ?? t("linear.other");
+		const choices = sortByGroup(options.options);
+		const listed = choices.findIndex((option) => option.value === options.initialValue);
+		const fallback = listed !== -1
+			? ` ${t("linear.pressEnterFor", { value: listed + 1 })}`
+			: options.initialValue !== undefined
+				? ` ${t("linear.pressEnterFor", { value: options.initialValue })}`
+				: "";
+		this.ask(options, [
+			...this.formatOptions(choices),
+			`${choices.length + 1}. ${otherLabel}`,
+			`${t("linear.enterNumberOrValue", { count: choices.length + 1 })}${fallback}`,
+		]);
+		const validateCustom = (value: string): ParseResult<string> => {
+			const error = value.length === 0 ? t("linear.enterValue") : options.validate?.(value);
+			return error ? { error } : { value };
+		};
+		const choice = await this.answer<string>((text) => {
+			const trimmed = text.trim();
+			if (trimmed.length === 0 && options.initialValue !== undefined) {
+				return { value: options.initialValue };
+			}
+			if (trimmed === String(choices.length + 1)) {
+				return { value: "" };
+			}
+			const picked = pickOption(choices, trimmed);
+			if ("value" in picked || /^\d+$/.test(trimmed)) {
+				return picked;
+			}
+			return validateCustom(trimmed);
+		});
+		if (choice !== "") {
+			return choice;
+		}
+		return this.question<string>({
+			message: otherLabel,
+			initialValue: options.otherInitialValue,
+			instructions: options.placeholder ? t("linear.example", { example: options.placeholder }) : undefined,
+			parse: (text) => validateCustom(text.trim()),
+		});
+	}
+
+	list(options: LinearListOptions): Promise<string[] | symbol> {
+		return this.collect(options, {
+			initialRows: options.initialValue ?? [],
+			validateRow: (text) => options.validateItem?.(text),
+		});
+	}
+
+	async keyValue(options: LinearKeyValueOptions): Promise<Record<string, string> | symbol> {
+		const rows = await this.collect(options, {
+			initialRows: Object.entries(options.initialValue ?? {}).map(([key, value]) => `${key}=${value}`),
+			instructions: t("linear.keyValueInstructions"),
+			validateRow: (text, others) => {
+				const entry = splitEntry(text);
+				if (!entry) {
+					return t("linear.useKeyValue");
+				}
+				const [key, value] = entry;
+				if (others.some((row) => splitEntry(row)?.[0] === key)) {
+					return t("linear.duplicateKey", { key });
+				}
+				return options.validateEntry?.(key, value);
+			},
+		});
+		return Array.isArray(rows) ? Object.fromEntries(rows.map((row) => splitEntry(row)!)) : rows;
+	}
+
+	/** Multi-line text, ended by a line holding only a period. */
+	async editor(options: QuestionBase & {
+		initialValue?: string;
+		validate?: (value: string) => string | undefined;
+	}): Promise<string | symbol> {
+		const keep = options.initialValue !== undefined && options.initialValue.length > 0;
+		this.ask(options, [
+			...(keep ? [t("linear.currentText"), ...options.initialValue!.split("\n")] : []),
+			[
+				t("linear.editorInstructions", { end: END_OF_TEXT }),
+				keep && t("linear.editorKeep", { end: END_OF_TEXT }),
+			].filter(Boolean).join(" "),
+		]);
+		for (;;) {
+			const typed: string[] = [];
+			for (;;) {
+				const line = await this.readLine();
+				if (line === undefined) {
+					return this.cancelWith();
+				}
+				if (line === END_OF_TEXT) {
+					break;
+				}
+				typed.push(line);
+			}
+			const value = keep && typed.length === 0 ? options.initialValue! : typed.join("\n");
+			const error = options.validate?.(value);
+			if (!error) {
+				return value;
+			}
+			this.sayError(`${error} ${t("linear.editorRetry", { end: END_OF_TEXT })}`);
+		}
+	}
+
+	/** Asks a question: message, help, then `lines`, then the input marker. */
+	private ask(question: QuestionBase, lines: readonly string[], messageSuffix = "") {
+		if (!this.introduced) {
+			this.introduced = true;
+			this.say(t("linear.intro"));
+		}
+		this.say();
+		this.say(`${question.message}${lines.length === 0 ? messageSuffix : ""}`);
+		if (hasPromptHelp(question.help)) {
+			for (const line of formatHelpLines(question.help)) {
+				this.say(line);
+			}
+		}
+		for (const line of lines) {
+			this.say(line);
+		}
+	}
+
+	/** Reads lines until `parse` accepts one, announcing every rejection. */
+	private async answer<T>(parse: (text: string) => ParseResult<T>, secret = false): Promise<T | symbol> {
+		for (;;) {
+			this.output.write(INPUT_MARKER);
+			const line = secret ? await this.readSecretLine() : await this.readLine();
+			if (line === undefined) {
+				return this.cancelWith();
+			}
+			const result = parse(line);
+			if ("value" in result) {
+				return result.value;
+			}
+			this.sayError(result.error);
+		}
+	}
+
+	private async collect(
+		question: QuestionBase & { minItems?: number },
+		collection: {
+			initialRows: readonly string[];
+			instructions?: string;
+			validateRow: (text: string, others: readonly string[]) => string | undefined;
+		},
+	): Promise<string[] | symbol> {
+		const { initialRows } = collection;
+		const minItems = question.minItems ?? 0;
+		this.ask(question, [
+			...(initialRows.length > 0 ? [t("linear.currentItems", { items: initialRows.join(", ") })] : []),
+			...(collection.instructions ? [collection.instructions] : []),
+			[t("linear.listInstructions"), initialRows.length > 0 && t("linear.listKeep")].filter(Boolean).join(" "),
+		]);
+		const rows: string[] = [];
+		for (;;) {
+			this.output.write(INPUT_MARKER);
+			const line = await this.readLine();
+			if (line === undefined) {
+				return this.cancelWith();
+			}
+			const text = line.trim();
+			if (text.length > 0) {
+				const error = collection.validateRow(text, rows);
+				if (error) {
+					this.sayError(error);
+				} else {
+					rows.push(text);
+					this.say(t("linear.added", { item: text, count: rows.length }));
+				}
+				continue;
+			}
+			const result = rows.length === 0 ? [...initialRows] : rows;
+			if (result.length >= minItems) {
+				return result;
+			}
+			this.sayError(t("linear.atLeastItems", { count: minItems }));
+		}
+	}
+
+	private formatOptions<Value extends string>(
+		options: readonly LinearOption<Value>[],
+		{
+			selected = [],
+			details,
+		}: {
+			selected?: readonly string[];
+			details?: readonly LinearOptionDetails[];
+		} = {},
+	): string[] {
+		const lines: string[] = [];
+		let group: string | undefined;
+		for (const [index, option] of options.entries()) {
+			if (option.group !== undefined && option.group !== group) {
+				lines.push(`${option.group}:`);
+			}
+			group = option.group;
+			const parts = [`${index + 1}. ${option.label ?? option.value}`];
+			if (option.hint) {
+				parts.push(`(${option.hint})`);
+			}
+			if (selected.includes(option.value)) {
+				parts.push(`- ${t("linear.selected")}`);
+			}
+			if (isOptionDisabled(option)) {
+				parts.push(`- ${t("linear.unavailable", { reason: option.disabledReason ?? t("linear.disabled") })}`);
+			}
+			lines.push(parts.join(" "));
+			const detail = details?.[index];
+			const detailLines = typeof detail === "string" ? detail.split("\n") : detail ?? [];
+			lines.push(...detailLines.filter((line) => line.trim().length > 0).map((line) => `   ${line}`));
+		}
+		return lines;
+	}
+
+	private async loadOptions<T>(source: OptionsSource<T>): Promise<T[] | symbol> {
+		if (!isOptionsProvider(source)) {
+			return source;
+		}
+		for (;;) {
+			this.say(t("linear.loadingOptions"));
+			try {
+				return await source({ signal: new AbortController().signal });
+			} catch (error) {
+				this.sayError(t("linear.loadFailed", { error: error instanceof Error ? error.message : String(error) }));
+				this.say(t("linear.retry"));
+				this.output.write(INPUT_MARKER);
+				if ((await this.readLine()) === undefined) {
+					return this.cancelWith();
+				}
+			}
+		}
+	}
+
+	private cancelWith(reason?: string): Promise<symbol> {
+		this.say(reason ? `${t("linear.cancelled")} ${reason}` : t("linear.cancelled"));
+		return cancelSymbol();
+	}
+
+	/** Next line of input, or undefined once the input has ended. */
+	private readLine(): Promise<string | undefined> {
+		if (this.lines.length > 0 || this.ended) {
+			return Promise.resolve(this.lines.shift());
+		}
+		return new Promise((resolve) => {
+			const finish = () => {
+				this.input.off("data", onData);
+				this.input.off("end", onEnd);
+				this.input.pause();
+				resolve(this.lines.shift());
+			};
+			const onData = (chunk: Buffer | string) => {
+				const parts = `${this.pending}${String(chunk)}`.split(/\r?\n/);
+				this.pending = parts.pop() ?? "";
+				this.lines.push(...parts);
+				if (this.lines.length > 0) {
+					finish();
+				}
+			};
+			const onEnd = () => {
+				this.ended = true;
+				if (this.pending.length > 0) {
+					this.lines.push(this.pending);
+					this.pending = "";
+				}
+				finish();
+			};
+			this.input.on("data", onData);
+			this.input.on("end", onEnd);
+			this.input.resume();
+		});
+	}
+
+	/**
+	 * Reads a line without echo. A terminal is switched to raw mode for it,
+	 * so Enter, Backspace, Ctrl+C and Ctrl+D are handled here; piped input
+	 * isn't echoed anyway and is read as a normal line.
+	 */
+	private readSecretLine(): Promise<string | undefined> {
+		const tty = this.input as Readable & { isTTY?: boolean; setRawMode?: (mode: boolean) => void };
+		if (!tty.isTTY || typeof tty.setRawMode !== "function" || this.lines.length > 0 || this.ended) {
+			return this.readLine();
+		}
+		const setRawMode = tty.setRawMode.bind(tty);
+		return new Promise((resolve) => {
+			let value = "";
+			const finish = (result: string | undefined) => {
+				this.input.off("data", onData);
+				setRawMode(false);
+				this.input.pause();
+				this.say();
+				resolve(result);
+			};
+			const onData = (chunk: Buffer | string) => {
+				for (const char of String(chunk)) {
+					if (char === "\r" || char === "\n") {
+						finish(value);
+						return;
+					}
+					if (char === CTRL_C || char === CTRL_D) {
+						finish(undefined);
+						return;
+					}
+					if (char === "\u007f" || char === "\b") {
+						value = value.slice(0, -1);
+					} else if (char >= " ") {
+						value += char;
+					}
+				}
+			};
+			setRawMode(true);
+			this.input.on("data", onData);
+			this.input.resume();
+		});
+	}
+}
+
+/** An option by number, value or label; disabled options are refused. */
+function pickOption<Value extends string>(
+	options: readonly LinearOption<Value>[],
+	text: string,
+): ParseResult<Value> {
+	const option = findOption(options, text);
+	if (!option) {
+		return { error: t("linear.enterNumber", { count: options.length }) };
+	}
+	if (isOptionDisabled(option)) {
+		return {
+			error: t("linear.optionUnavailable", {
+				option: option.label ?? option.value,
+				reason: option.disabledReason ?? t("linear.disabled"),
+			}),
+		};
+	}
+	return { value: option.value };
+}
+
+function findOption<Value extends string>(
+	options: readonly LinearOption<Value>[],
+	text: string,
+): LinearOption<Value> | undefined {
+	if (/^\d+$/.test(text)) {
+		return options[Number(text) - 1];
+	}
+	const wanted = text.toLowerCase();
+	return options.find((option) =>
+		option.value.toLowerCase() === wanted || option.label?.toLowerCase() === wanted,
+	);
+}
+
+async function readDetails<Value extends string>(
+	option: LinearOption<Value>,
+	details: LinearSelectOptions<Value>["details"],
+): Promise<LinearOptionDetails> {
+	try {
+		return await details?.(option);
+	} catch (error) {
+		return t("prompt.details.failed", { error: error instanceof Error ? error.message : String(error) });
+	}
+}
+
+/** The English answers plus the active locale's word and its first letter, lowercased. */
+function answerWords(english: readonly string[], localized: string): string[] {
+	const word = localized.toLowerCase();
+	return [...english, word, word.charAt(0)];
+}
+
+/** "1, 3", "2-4", "all" or "none"; values keep the order they were typed in. */
+function parseSelection(options: readonly LinearOption[], text: string): ParseResult<string[]> {
+	const enabled = options.filter((option) => !isOptionDisabled(option));
+	if (text === "all" || text === t("linear.all").toLowerCase()) {
+		return { value: enabled.map((option) => option.value) };
+	}
+	if (text === "none" || text === t("linear.none").toLowerCase()) {
+		return { value: [] };
+	}
+	const values: string[] = [];
+	for (const part of text.split(/[\s,]+/).filter(Boolean)) {
+		const range = /^(\d+)-(\d+)$/.exec(part);
+		const picks = range
+			? Array.from(
+				{ length: Math.max(0, Number(range[2]) - Number(range[1]) + 1) },
+				(_, offset) => String(Number(range[1]) + offset),
+			)
+			: [part];
+		for (const pick of picks) {
+			const picked = pickOption(options, pick);
+			if ("error" in picked) {
+				return /^\d+$/.test(pick) && options[Number(pick) - 1] === undefined
+					? { error: t("linear.notAnOption", { pick, count: options.length }) }
+					: picked;
+			}
+			if (!values.includes(picked.value)) {
+				values.push(picked.value);
+			}
+		}
+	}
+	return { value: values };
+}
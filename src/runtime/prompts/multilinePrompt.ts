@@ -0,0 +1,128 @@
+import { Prompt } from "@clack/core";
+import type { Key } from "node:readline";
+import type { Readable, Writable } from "node:stream";
+
+import { t } from "../i18n.js";
+import { formatStateSymbol, getTheme, joinLegend } from "../theme.js";
+import { interceptKeypresses, renderPrompt } from "./clackInternals.js";
+import { isPrintable } from "./keypress.js";
+
+export interface MultilinePromptOptions {
+	message: string;
+	initialValue?: string;
+	validate?: (value: string) => string | undefined;
+	input?: Readable;
+	output?: Writable;
+}
+
+const CTRL_D = "\u0004";
+
+/**
+ * Inline multi-line text input. Enter inserts a newline and ctrl+d submits;
+ * editing is append-only (backspace removes the last character).
+ *
+ * clack's Prompt submits on Enter before listeners can intervene, so its
+ * keypress handling is intercepted: text keys edit `value` directly, ctrl+d
+ * is replayed as Enter, and everything else (cancel keys) passes through.
+ */
+export class MultilinePrompt extends Prompt {
+	constructor(options: MultilinePromptOptions & { render(this: MultilinePrompt): string | undefined }) {
+		super(
+			{
+				render: options.render as (this: Omit<Prompt, "prompt">) => string | undefined,
+				validate: options.validate
+					? (value: unknown) => options.validate?.(String(value ?? ""))
+					: undefined,
+				input: options.input,
+				output: options.output,
+			},
+			false,
+		);
+		this.value = options.initialValue ?? "";
+
+		interceptKeypresses(this, (char, key, handleKeypress) => {
+			if (char === CTRL_D || (key?.ctrl && key.name === "d")) {
+				handleKeypress(undefined, { name: "return" });
+				return;
+			}
+			if (!this.edit(char, key)) {
+				handleKeypress(char, key);
+				return;
+			}
+			if (this.state === "error") {
+				this.state = "active";
+			}
+			renderPrompt(this);
+		});
+	}
+
+	get lines(): string[] {
+		return String(this.value ?? "").split("\n");
+	}
+
+	private edit(char: string | undefined, key?: Key): boolean {
+		const value = String(this.value ?? "");
+		if (key?.name === "return" || key?.name === "enter") {
+			this.value = `${value}\n`;
+			return true;
+		}
+		if (key?.name === "backspace") {
+			this.value = value.slice(0, -1);
+			return true;
+		}
+		if (key?.name === "tab") {
+			this.value = `${value}\t`;
+			return true;
+		}
+		if (char && !key?.ctrl && !key?.meta && key?.name !== "escape" && isPrintable(char)) {
+			this.value = `${value}${char}`;
+			return true;
+		}
+		return false;
+	}
+}
+
+export function multilinePrompt(options: MultilinePromptOptions): Promise<string | symbol> {
+	const prompt = new MultilinePrompt({
+		...options,
+		render() {
+			const { palette, symbols } = getTheme();
+			const header = `${palette.frame(symbols.bar)}
+${formatStateSymbol(this.state)}  ${options.message}
+`;
+
+			if (this.state === "submit") {
+				return `${header}${palette.frame(symbols.bar)}  ${palette.muted(summarizeLines(String(this.value ?? "")))}`;
+			}
+
+			if (this.state === "cancel") {
+				return `${header}${palette.frame(symbols.bar)}  ${palette.strikethrough(palette.muted(summarizeLines(String(this.value ?? ""))))}`;
+			}
+
+			const color = this.state === "error" ? palette.warning : palette.accent;
+			const lines = this.lines;
+			const body = lines
+				.map((line, index) => {
+					const cursor = index === lines.length - 1 ? palette.inverse(" ") : "";
+					return `${color(symbols.bar)}  ${line}${cursor}`;
+				})
+				.join("\n");
+			const footer = this.state === "error"
+				? palette.warning(this.error)
+				: palette.muted(joinLegend([t("multiline.newline"), t("multiline.submit"), t("multiline.cancel")]));
+
+			return `${header}${body}\n${color(symbols.barEnd)}  ${footer}\n`;
+		},
+	});
+
+	return prompt.prompt();
+}
+
+/** First line plus a count of the remaining ones, for submitted values. */
+export function summarizeLines(value: string): string {
+	const [first = "", ...rest] = value.split("\n");
+	if (rest.length === 0) {
+		return first;
+	}
+	return t("multiline.moreLines", { first, count: rest.length });
+}
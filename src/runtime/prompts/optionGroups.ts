@@ -0,0 +1,56 @@
+import { getTheme } from "../theme.js";
+
+export interface GroupableOption {
+	/** Options sharing a group render together under a section header. */
+	group?: string;
+}
+
+export const groupOf = (option: GroupableOption): string | undefined => option.group;
+
+export function hasGroupedOptions(options: readonly GroupableOption[]): boolean {
+	return options.some((option) => option.group !== undefined);
+}
+
+/**
+ * Stable-sorts options so each group is contiguous. Ungrouped options stay on
+ * top; groups keep the order in which they first appear.
+ */
+export function sortByGroup<T extends GroupableOption>(options: readonly T[]): T[] {
+	if (!hasGroupedOptions(options)) {
+		return [...options];
+	}
+	const rank = new Map<string | undefined, number>([[undefined, 0]]);
+	for (const option of options) {
+		if (!rank.has(option.group)) {
+			rank.set(option.group, rank.size);
+		}
+	}
+	return options
+		.map((option, position) => ({ option, position }))
+		.sort(
+			(a, b) =>
+				rank.get(a.option.group)! - rank.get(b.option.group)! || a.position - b.position,
+		)
+		.map(({ option }) => option);
+}
+
+/**
+ * Toggles every value in `groupValues`: when all of them are already selected
+ * they are removed, otherwise the missing ones are appended in order.
+ */
+export function toggleGroupValues<Value>(
+	selected: readonly Value[],
+	groupValues: readonly Value[],
+): Value[] {
+	if (groupValues.length === 0) {
+		return [...selected];
+	}
+	if (groupValues.every((value) => selected.includes(value))) {
+		return selected.filter((value) => !groupValues.includes(value));
+	}
+	return [...selected, ...groupValues.filter((value) => !selected.includes(value))];
+}
+
+export function formatGroupHeader(group: string): string {
+	return getTheme().palette.strong(group);
+}
@@ -1,11 +1,31 @@
 import { MultiSelectPrompt } from "@clack/core";
-import pc from "picocolors";
+import process from "node:process";
+import type { Readable, Writable } from "node:stream";
 
-export interface OrderedMultiSelectOption {
+import { t } from "../i18n.js";
+import { formatStateSymbol, getTheme, joinLegend } from "../theme.js";
+import {
+	formatDisabledOption,
+	isOptionDisabled,
+	skipDisabledOptions,
+	type DisableableOption,
+} from "./disabledOptions.js";
+import { trackKeypresses } from "./keypress.js";
+import { HELP_KEY, HelpPanel, type PromptHelp } from "./promptHelp.js";
+import {
+	formatGroupHeader,
+	groupOf,
+	hasGroupedOptions,
+	sortByGroup,
+	toggleGroupValues,
+	type GroupableOption,
+} from "./optionGroups.js";
+import { resolveVisibleRows, sliceViewport, type ViewportRow } from "./viewport.js";
+
+export interface OrderedMultiSelectOption extends DisableableOption, GroupableOption {
 	value: string;
 	label?: string;
 	hint?: string;
-	disabled?: boolean;
 }
 
 export interface OrderedMultiSelectPromptOptions {
@@ -14,29 +34,138 @@ export interface OrderedMultiSelectPromptOptions {
 	initialValues?: string[];
 	required?: boolean;
 	cursorAt?: string;
+	maxItems?: number;
+	/** Shown in a panel toggled with `?`. */
+	help?: PromptHelp;
+	input?: Readable;
+	output?: Writable;
 }
 
 export async function orderedMultiselect(
 	options: OrderedMultiSelectPromptOptions,
 ): Promise<string[] | symbol> {
+	const input = options.input ?? process.stdin;
+	const output = options.output ?? process.stdout;
+	let windowStart = 0;
+	const sortedOptions = sortByGroup(options.options);
+	const grouped = hasGroupedOptions(sortedOptions);
+	const helpPanel = new HelpPanel(options.help);
+	const enabledValues = sortedOptions
+		.filter((option) => !isOptionDisabled(option))
+		.map((option) => option.value);
 	const prompt = new MultiSelectPrompt({
-		options: options.options,
-		initialValues: options.initialValues,
+		options: sortedOptions,
+		initialValues: options.initialValues?.filter((value) => enabledValues.includes(value)),
 		cursorAt: options.cursorAt,
 		required: options.required ?? true,
+		input,
+		output,
 		validate(value) {
 			if ((options.required ?? true) && value.length === 0) {
-				return "Select at least one option.";
+				return t("prompt.selectAtLeastOne");
 			}
 			return undefined;
 		},
 		render(this: MultiSelectPrompt<OrderedMultiSelectOption>) {
-			return renderOrderedPrompt(this, options.message);
+			// Header (2), bottom frame or error line, and the cursor line.
+			const visibleRows = resolveVisibleRows(options.maxItems, output, 4);
+			const viewport = sliceViewport(
+				this.options,
+				this.cursor,
+				windowStart,
+				visibleRows,
+				groupOf,
+			);
+			windowStart = viewport.start;
+			return renderOrderedPrompt(this, helpPanel.message(options.message), viewport.rows, grouped);
 		},
 	});
 
-	const result = (await prompt.prompt()) as string[] | symbol;
-	return result;
+	// MultiSelectPrompt knows nothing about disabled options: step the cursor
+	// past them and undo any toggle (space, or "a" for all) that picked one up.
+	skipDisabledOptions(prompt);
+	let cursorAtKeypress = prompt.cursor;
+	let valueAtKeypress = prompt.value as string[];
+	const keys = trackKeypresses(input, () => {
+		cursorAtKeypress = prompt.cursor;
+		valueAtKeypress = prompt.value as string[];
+	});
+	prompt.on("key", (char) => {
+		if (char === HELP_KEY) {
+			helpPanel.toggle();
+			return;
+		}
+		if (char === "\t") {
+			// Tab toggles every enabled option in the highlighted option's group.
+			const group = prompt.options[prompt.cursor]?.group;
+			if (group !== undefined) {
+				prompt.value = toggleGroupValues(
+					valueAtKeypress,
+					sortedOptions
+						.filter((option) => option.group === group && !isOptionDisabled(option))
+						.map((option) => option.value),
+				);
+			}
+			return;
+		}
+		if (char !== "a") {
+			return;
+		}
+		const allSelected = enabledValues.every((value) => valueAtKeypress.includes(value));
+		prompt.value = allSelected
+			? []
+			: [...valueAtKeypress, ...enabledValues.filter((value) => !valueAtKeypress.includes(value))];
+	});
+	prompt.on("cursor", (action) => {
+		if (action === "space" && isOptionDisabled(prompt.options[prompt.cursor])) {
+			prompt.value = valueAtKeypress;
+			return;
+		}
+		skipDisabledOptions(prompt, action);
+	});
+
+	// Shift+up/down moves the highlighted selection within the order instead of
+	// moving the cursor; MultiSelectPrompt has already moved it, so put it back.
+	prompt.on("cursor", (action) => {
+		if (!keys.last?.shift || (action !== "up" && action !== "down")) {
+			return;
+		}
+		prompt.cursor = cursorAtKeypress;
+		const option = prompt.options[cursorAtKeypress];
+		if (option) {
+			prompt.value = moveSelection(
+				prompt.value as string[],
+				option.value,
+				action === "up" ? -1 : 1,
+			);
+		}
+	});
+
+	try {
+		const result = (await prompt.prompt()) as string[] | symbol;
+		return result;
+	} finally {
+		keys.dispose();
+	}
+}
+
+/**
+ * Swaps `value` with its neighbour in the selection order. Unselected values
+ * and moves past either end leave the order unchanged.
+ */
+export function moveSelection(
+	values: readonly string[],
+	value: string,
+	offset: -1 | 1,
+): string[] {
+	const next = [...values];
+	const index = next.indexOf(value);
+	const target = index + offset;
+	if (index === -1 || target < 0 || target >= next.length) {
+		return next;
+	}
+	[next[index], next[target]] = [next[target]!, next[index]!];
+	return next;
 }
 
 type ClackMultiSelect = MultiSelectPrompt<OrderedMultiSelectOption>;
@@ -44,37 +173,52 @@ type ClackMultiSelect = MultiSelectPrompt<OrderedMultiSelectOption>;
 function renderOrderedPrompt(
 	prompt: ClackMultiSelect,
 	message: string,
+	rows: ViewportRow<OrderedMultiSelectOption>[],
+	grouped: boolean,
 ): string {
-	const header = `${pc.gray("│")}
-${formatState(prompt.state)}  ${message}
+	const { palette, symbols } = getTheme();
+	const header = `${palette.frame(symbols.bar)}
+${formatStateSymbol(prompt.state)}  ${message}
 `;
 
 	if (prompt.state === "submit") {
 		return (
 			header +
-			`${pc.gray("│")}  ` +
+			`${palette.frame(symbols.bar)}  ` +
 			formatSubmission(prompt.value as string[], prompt.options)
 		);
 	}
 
 	if (prompt.state === "cancel") {
-		return header + `${pc.gray("│")}  ${pc.strikethrough("selection cancelled")}\n`;
+		return header + `${palette.frame(symbols.bar)}  ${palette.strikethrough(t("prompt.selectionCancelled"))}\n`;
 	}
 
-	const lines = prompt.options.map((option, index) =>
-		renderOption(prompt, option, index),
-	);
+	const lines = rows.map((row) => {
+		switch (row.kind) {
+			case "more":
+				return palette.muted("...");
+			case "group":
+				return formatGroupHeader(row.group);
+			default:
+				return renderOption(prompt, row.item, row.index);
+		}
+	});
 
 	const body = lines
-		.map((line) => `${pc.cyan("│")}  ${line}`)
+		.map((line) => `${palette.accent(symbols.bar)}  ${line}`)
 		.join("\n");
 
 	if (prompt.state === "error" && prompt.error) {
-		const errorBlock = `${pc.yellow("│")}  ${pc.yellow(prompt.error)}`;
+		const errorBlock = `${palette.warning(symbols.bar)}  ${palette.warning(prompt.error)}`;
 		return `${header}${body}\n${errorBlock}\n`;
 	}
 
-	return `${header}${body}\n${pc.cyan("└")}\n`;
+	const legend = joinLegend([
+		"space select",
+		grouped && "tab group",
+		`shift+${symbols.arrowUpDown} reorder`,
+	]);
+	return `${header}${body}\n${palette.accent(symbols.barEnd)}  ${palette.muted(legend)}\n`;
 }
 
 function renderOption(
@@ -82,17 +226,21 @@ function renderOption(
 	option: OrderedMultiSelectOption,
 	index: number,
 ): string {
+	const { palette, symbols } = getTheme();
 	const baseLabel = option.label ?? String(option.value);
 	const selectedIndex = prompt.value.indexOf(option.value);
 	const isSelected = selectedIndex !== -1;
-	const pointer = prompt.cursor === index ? pc.cyan("❯") : " ";
+	const pointer = prompt.cursor === index ? palette.accent(symbols.pointer) : " ";
+	if (isOptionDisabled(option)) {
+		return `${pointer} ${palette.muted("[-]")} ${formatDisabledOption(baseLabel, option)}`;
+	}
 	const orderBadge = isSelected
-		? pc.green(`[${selectedIndex + 1}]`)
-		: pc.dim("[ ]");
+		? palette.success(`[${selectedIndex + 1}]`)
+		: palette.muted("[ ]");
 	const labelColor =
-		prompt.cursor === index ? (isSelected ? pc.white : pc.cyan) : pc.dim;
+		prompt.cursor === index ? (isSelected ? palette.selected : palette.accent) : palette.muted;
 	const label = labelColor(baseLabel);
-	const hint = option.hint ? ` ${pc.dim(`(${option.hint})`)}` : "";
+	const hint = option.hint ? ` ${palette.muted(`(${option.hint})`)}` : "";
 
 	return `${pointer} ${orderBadge} ${label}${hint}`;
 }
@@ -101,24 +249,12 @@ function formatSubmission(
 	values: string[],
 	options: OrderedMultiSelectOption[],
 ): string {
+	const { palette } = getTheme();
 	if (values.length === 0) {
-		return pc.dim("none selected");
+		return palette.muted(t("prompt.noneSelected"));
 	}
 	const lookup = new Map(options.map((opt) => [opt.value, opt.label ?? opt.value]));
 	return values
-		.map((value, index) => pc.dim(`${index + 1}. ${lookup.get(value) ?? value}`))
-		.join(pc.dim(", "));
-}
-
-function formatState(state: string): string {
-	switch (state) {
-	case "submit":
-		return pc.green("◇");
-	case "cancel":
-		return pc.red("■");
-	case "error":
-		return pc.yellow("▲");
-	default:
-		return pc.cyan("◆");
-	}
+		.map((value, index) => palette.muted(`${index + 1}. ${lookup.get(value) ?? value}`))
+		.join(palette.muted(", "));
 }
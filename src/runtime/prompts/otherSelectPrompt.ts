@@ -0,0 +1,269 @@
+import { Prompt } from "@clack/core";
+import type { Key } from "node:readline";
+import type { Readable, Writable } from "node:stream";
+
+import { buildPlaceholder } from "../textPrompt.js";
+import { formatStateSymbol, getTheme, joinLegend } from "../theme.js";
+import {
+	DISABLED_OPTION_ERROR,
+	findEnabledIndex,
+	formatDisabledOption,
+	isOptionDisabled,
+	type DisableableOption,
+} from "./disabledOptions.js";
+import { interceptKeypresses, renderPrompt } from "./clackInternals.js";
+import { isPrintable } from "./keypress.js";
+import { HELP_KEY, HelpPanel, type PromptHelp } from "./promptHelp.js";
+
+export interface OtherSelectOption extends DisableableOption {
+	value: string;
+	label?: string;
+	hint?: string;
+}
+
+export interface SelectWithOtherOptions {
+	message: string;
+	options: OtherSelectOption[];
+	/**
+	 * Highlighted option. A value that isn't listed lands on the "Other..."
+	 * entry with the value already typed in, e.g. a saved custom answer.
+	 */
+	initialValue?: string;
+	/** Typed text the "Other..." entry starts from when `initialValue` is listed. */
+	otherInitialValue?: string;
+	otherLabel?: string;
+	placeholder?: string;
+	/** Checked on the trimmed custom value; empty values are always rejected. */
+	validate?: (value: string) => string | undefined;
+	help?: PromptHelp;
+	input?: Readable;
+	output?: Writable;
+}
+
+const DEFAULT_OTHER_LABEL = "Other...";
+const EDIT_LEGEND = ["enter submit", "esc back to list"];
+
+interface OtherSelectPromptOptions {
+	options: OtherSelectOption[];
+	initialValue?: string;
+	otherInitialValue?: string;
+	validate?: (value: string) => string | undefined;
+	help?: PromptHelp;
+	input?: Readable;
+	output?: Writable;
+	render(this: OtherSelectPrompt): string | undefined;
+}
+
+/**
+ * A select whose last row is a free-text entry. Enter or typing on that row
+ * switches to inline editing; the prompt then resolves with the typed text
+ * instead of an option value. Like `CollectionPrompt`, it wraps clack's
+ * bound keypress handler because letter keys and Enter change meaning while
+ * editing.
+ */
+export class OtherSelectPrompt extends Prompt {
+	readonly options: OtherSelectOption[];
+	readonly helpPanel: HelpPanel;
+	cursor = 0;
+	/** Text typed into the "Other..." row; kept when leaving edit mode. */
+	draft: string;
+	editing = false;
+	private readonly config: OtherSelectPromptOptions;
+
+	constructor(config: OtherSelectPromptOptions) {
+		super(
+			{
+				render: config.render as (this: Omit<Prompt, "prompt">) => string | undefined,
+				input: config.input,
+				output: config.output,
+			},
+			false,
+		);
+		this.config = config;
+		this.options = config.options;
+		this.helpPanel = new HelpPanel(config.help);
+
+		const listed = this.options.findIndex((option) => option.value === config.initialValue);
+		const unlisted = config.initialValue !== undefined && listed === -1;
+		this.draft = unlisted ? config.initialValue! : config.otherInitialValue ?? "";
+		this.cursor = unlisted ? this.otherIndex : Math.max(0, listed);
+		if (isOptionDisabled(this.options[this.cursor])) {
+			this.move(1);
+		}
+
+		interceptKeypresses(this, (char, key, handleKeypress) => {
+			if (this.state === "error") {
+				this.state = "active";
+			}
+			if (key?.ctrl && key.name === "c") {
+				handleKeypress(char, key);
+				return;
+			}
+			const result = this.editing ? this.editKey(char, key) : this.listKey(char, key);
+			if (result === "submit") {
+				handleKeypress(undefined, { name: "return" });
+				return;
+			}
+			if (result === "pass") {
+				handleKeypress(char, key);
+				return;
+			}
+			renderPrompt(this);
+		});
+	}
+
+	/** The "Other..." row sits after every option. */
+	get otherIndex(): number {
+		return this.options.length;
+	}
+
+	get onOther(): boolean {
+		return this.cursor === this.otherIndex;
+	}
+
+	private listKey(char: string | undefined, key?: Key): "submit" | "pass" | "handled" {
+		switch (key?.name) {
+			case "up":
+				this.move(-1);
+				return "handled";
+			case "down":
+				this.move(1);
+				return "handled";
+			case "return": {
+				if (this.onOther) {
+					this.editing = true;
+					return "handled";
+				}
+				const option = this.options[this.cursor];
+				if (isOptionDisabled(option)) {
+					this.state = "error";
+					this.error = DISABLED_OPTION_ERROR;
+					return "handled";
+				}
+				this.value = option?.value;
+				return "submit";
+			}
+			case "escape":
+				return "pass";
+		}
+		if (char === HELP_KEY && this.helpPanel.enabled) {
+			this.helpPanel.toggle();
+			return "handled";
+		}
+		if (this.onOther && isTypedCharacter(char, key)) {
+			this.editing = true;
+			this.draft += char;
+		}
+		return "handled";
+	}
+
+	private editKey(char: string | undefined, key?: Key): "submit" | "handled" {
+		switch (key?.name) {
+			case "return": {
+				const value = this.draft.trim();
+				const error = value.length === 0 ? "Enter a value." : this.config.validate?.(value);
+				if (error) {
+					this.state = "error";
+					this.error = error;
+					return "handled";
+				}
+				this.value = value;
+				return "submit";
+			}
+			case "escape":
+				this.editing = false;
+				return "handled";
+			case "backspace":
+				this.draft = this.draft.slice(0, -1);
+				return "handled";
+		}
+		if (key?.ctrl && key.name === "u") {
+			this.draft = "";
+			return "handled";
+		}
+		if (isTypedCharacter(char, key)) {
+			this.draft += char;
+		}
+		return "handled";
+	}
+
+	/** Moves past disabled options; the "Other..." row is always enabled. */
+	private move(step: 1 | -1) {
+		const rows: DisableableOption[] = [...this.options, {}];
+		const start = (this.cursor + step + rows.length) % rows.length;
+		this.cursor = findEnabledIndex(rows, start, step);
+	}
+}
+
+function isTypedCharacter(char: string | undefined, key?: Key): char is string {
+	return Boolean(char) && !key?.ctrl && !key?.meta && isPrintable(char!);
+}
+
+/**
+ * Select with a trailing "Other..." entry for values that aren't listed.
+ * Resolves with the chosen option value or the trimmed custom text.
+ */
+export function selectWithOther(options: SelectWithOtherOptions): Promise<string | symbol> {
+	const otherLabel = options.otherLabel ?? DEFAULT_OTHER_LABEL;
+	const prompt = new OtherSelectPrompt({
+		options: options.options,
+		initialValue: options.initialValue,
+		otherInitialValue: options.otherInitialValue,
+		validate: options.validate,
+		help: options.help,
+		input: options.input,
+		output: options.output,
+		render() {
+			const { palette, symbols } = getTheme();
+			const header = `${palette.frame(symbols.bar)}
+${formatStateSymbol(this.state)}  ${this.helpPanel.message(options.message)}
+`;
+			const chosen = this.onOther ? this.draft.trim() : this.options[this.cursor]?.label ?? this.value;
+
+			if (this.state === "submit") {
+				return `${header}${palette.frame(symbols.bar)}  ${palette.muted(String(chosen ?? ""))}`;
+			}
+			if (this.state === "cancel") {
+				return `${header}${palette.frame(symbols.bar)}  ${palette.strikethrough(palette.muted(String(chosen ?? "")))}`;
+			}
+
+			const bar = this.state === "error" ? palette.warning(symbols.bar) : palette.accent(symbols.bar);
+			const lines = this.options.map((option, index) => {
+				const label = option.label ?? option.value;
+				if (isOptionDisabled(option)) {
+					return `${palette.muted(symbols.radioInactive)} ${formatDisabledOption(label, option)}`;
+				}
+				const hint = option.hint ? ` ${palette.muted(`(${option.hint})`)}` : "";
+				return index === this.cursor
+					? `${palette.success(symbols.radioActive)} ${label}${hint}`
+					: `${palette.muted(symbols.radioInactive)} ${palette.muted(label)}`;
+			});
+			lines.push(formatOtherRow(this, otherLabel, options.placeholder));
+
+			const body = lines.map((line) => `${bar}  ${line}`).join("\n");
+			const footer = this.state === "error"
+				? `${palette.warning(symbols.barEnd)}  ${palette.warning(this.error)}`
+				: `${palette.accent(symbols.barEnd)}  ${palette.muted(joinLegend(this.editing ? EDIT_LEGEND : [
+					`${symbols.arrowUpDown} move`,
+					"enter select",
+					`type on ${otherLabel} to enter a value`,
+				]))}`;
+			return `${header}${body}\n${footer}\n`;
+		},
+	});
+	return prompt.prompt() as Promise<string | symbol>;
+}
+
+function formatOtherRow(prompt: OtherSelectPrompt, label: string, placeholder?: string): string {
+	const { palette, symbols } = getTheme();
+	if (prompt.editing) {
+		const input = prompt.draft.length > 0
+			? `${prompt.draft}${palette.inverse(" ")}`
+			: buildPlaceholder(placeholder);
+		return `${palette.success(symbols.radioActive)} ${label} ${input}`;
+	}
+	const draft = prompt.draft.length > 0 ? ` ${prompt.draft}` : "";
+	return prompt.onOther
+		? `${palette.success(symbols.radioActive)} ${label}${draft}`
+		: `${palette.muted(symbols.radioInactive)} ${palette.muted(`${label}${draft}`)}`;
+}
@@ -0,0 +1,209 @@
+import { TextPrompt } from "@clack/core";
+import { readdirSync, statSync } from "node:fs";
+import path from "node:path";
+import type { Readable, Writable } from "node:stream";
+
+import { t } from "../i18n.js";
+import { buildPlaceholder } from "../textPrompt.js";
+import { formatStateSymbol, getTheme } from "../theme.js";
+import { replacePromptLine } from "./clackInternals.js";
+import { HELP_KEY, HelpPanel, type PromptHelp } from "./promptHelp.js";
+
+export interface PathValidationOptions {
+	mustExist?: boolean;
+	mustBeDirectory?: boolean;
+	insideRepo?: boolean;
+}
+
+export interface PathPromptOptions extends PathValidationOptions {
+	message: string;
+	/** Completion and validation resolve relative paths against this directory. */
+	repoRoot: string;
+	initialValue?: string;
+	placeholder?: string;
+	validate?: (value: string) => string | undefined;
+	/** Shown in a panel toggled by typing `?` on an empty line. */
+	help?: PromptHelp;
+	input?: Readable;
+	output?: Writable;
+}
+
+export interface PathCompletion {
+	value: string;
+	candidates: string[];
+}
+
+const MAX_LISTED_CANDIDATES = 8;
+
+/**
+ * Completes the last segment of `value` against the filesystem. A single
+ * match is completed in full (directories gain a trailing "/"); several
+ * matches complete their common prefix and are returned as candidates.
+ */
+export function completePath(value: string, repoRoot: string): PathCompletion {
+	const separator = value.lastIndexOf("/");
+	const directoryPart = separator === -1 ? "" : value.slice(0, separator + 1);
+	const prefix = value.slice(separator + 1);
+	const directory = path.resolve(repoRoot, directoryPart || ".");
+
+	let entries: Array<{ name: string; isDirectory: boolean }>;
+	try {
+		entries = readdirSync(directory, { withFileTypes: true })
+			.filter((entry) => entry.name.startsWith(prefix))
+			.filter((entry) => prefix.startsWith(".") || !entry.name.startsWith("."))
+			.map((entry) => ({
+				name: entry.name,
+				isDirectory: entry.isDirectory() || isSymlinkedDirectory(directory, entry),
+			}))
+			.sort((a, b) => a.name.localeCompare(b.name));
+	} catch {
+		return { value, candidates: [] };
+	}
+
+	if (entries.length === 0) {
+		return { value, candidates: [] };
+	}
+
+	const names = entries.map((entry) => (entry.isDirectory ? `${entry.name}/` : entry.name));
+	if (names.length === 1) {
+		return { value: `${directoryPart}${names[0]}`, candidates: [] };
+	}
+	return {
+		value: `${directoryPart}${commonPrefix(names)}`,
+		candidates: names,
+	};
+}
+
+function isSymlinkedDirectory(directory: string, entry: { name: string; isSymbolicLink(): boolean }) {
+	if (!entry.isSymbolicLink()) {
+		return false;
+	}
+	try {
+		return statSync(path.join(directory, entry.name)).isDirectory();
+	} catch {
+		return false;
+	}
+}
+
+function commonPrefix(values: string[]): string {
+	let prefix = values[0] ?? "";
+	for (const value of values.slice(1)) {
+		while (!value.startsWith(prefix)) {
+			prefix = prefix.slice(0, -1);
+		}
+	}
+	return prefix;
+}
+
+export function validatePath(
+	value: string,
+	repoRoot: string,
+	options: PathValidationOptions,
+): string | undefined {
+	const trimmed = value.trim();
+	if (trimmed.length === 0) {
+		return options.mustExist || options.mustBeDirectory ? t("path.enterPath") : undefined;
+	}
+
+	const resolved = path.resolve(repoRoot, trimmed);
+	if (options.insideRepo) {
+		const relative = path.relative(path.resolve(repoRoot), resolved);
+		if (relative.startsWith("..") || path.isAbsolute(relative)) {
+			return t("path.outsideRepo");
+		}
+	}
+
+	if (!options.mustExist && !options.mustBeDirectory) {
+		return undefined;
+	}
+	let isDirectory: boolean;
+	try {
+		isDirectory = statSync(resolved).isDirectory();
+	} catch {
+		return t("path.missing", { path: trimmed });
+	}
+	if (options.mustBeDirectory && !isDirectory) {
+		return t("path.notDirectory", { path: trimmed });
+	}
+	return undefined;
+}
+
+export function createPathPrompt(options: PathPromptOptions): Promise<string | symbol> {
+	let candidates: string[] = [];
+	const helpPanel = new HelpPanel(options.help);
+
+	const prompt = new TextPrompt({
+		validate: (value) =>
+			validatePath(String(value ?? ""), options.repoRoot, options) ??
+			options.validate?.(String(value ?? "").trim()),
+		placeholder: options.placeholder,
+		initialValue: options.initialValue,
+		input: options.input,
+		output: options.output,
+		render() {
+			const { palette, symbols } = getTheme();
+			const header = `${palette.frame(symbols.bar)}
+${formatStateSymbol(this.state)}  ${helpPanel.message(options.message)}
+`;
+			const currentValue = this.value ? this.valueWithCursor : buildPlaceholder(options.placeholder);
+
+			switch (this.state) {
+				case "error":
+					return (
+						`${header.trim()}\n` +
+						`${palette.warning(symbols.bar)}  ${currentValue}\n` +
+						`${palette.warning(symbols.barEnd)}  ${palette.warning(this.error)}\n`
+					);
+				case "submit":
+					return `${header}${palette.frame(symbols.bar)}  ${palette.muted(this.value ?? "")}`;
+				case "cancel":
+					return (
+						header +
+						`${palette.frame(symbols.bar)}  ${palette.strikethrough(palette.muted(this.value ?? ""))}`
+					);
+				default:
+					return (
+						header +
+						`${palette.accent(symbols.bar)}  ${currentValue}\n` +
+						formatCandidates(candidates) +
+						`${palette.accent(symbols.barEnd)}  ${palette.muted("tab complete")}\n`
+					);
+			}
+		},
+	});
+
+	prompt.on("value", () => {
+		candidates = [];
+	});
+
+	prompt.on("key", (char?: string) => {
+		if (char === HELP_KEY && helpPanel.enabled && prompt.value === HELP_KEY) {
+			replacePromptLine(prompt, "");
+			helpPanel.toggle();
+			return;
+		}
+		if (char !== "\t") {
+			return;
+		}
+		// readline has already put the tab into the line; the rewrite below drops it.
+		const current = String(prompt.value ?? "");
+		const completion = completePath(current, options.repoRoot);
+		replacePromptLine(prompt, completion.value);
+		candidates = completion.candidates;
+	});
+
+	return prompt.prompt().then((value) =>
+		typeof value === "string" ? value.trim() : value,
+	);
+}
+
+function formatCandidates(candidates: string[]): string {
+	if (candidates.length === 0) {
+		return "";
+	}
+	const { palette, symbols } = getTheme();
+	const listed = candidates.slice(0, MAX_LISTED_CANDIDATES);
+	const remaining = candidates.length - listed.length;
+	const suffix = remaining > 0 ? palette.muted(`  +${remaining} more`) : "";
+	return `${palette.accent(symbols.bar)}  ${palette.muted(listed.join("  "))}${suffix}\n`;
+}
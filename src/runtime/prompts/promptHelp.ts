@@ -0,0 +1,107 @@
+import process from "node:process";
+import type { Key } from "node:readline";
+import type { Readable } from "node:stream";
+
+import { t, type MessageKey } from "../i18n.js";
+import { getTheme, joinLegend } from "../theme.js";
+import { formatCountdown } from "./promptTimeout.js";
+
+export type DefaultSource = "persisted" | "override" | "config";
+
+/** Context shown in a prompt's `?` panel. */
+export interface PromptHelp {
+	/** Longer explanation than fits in the prompt message. */
+	description?: string;
+	/** Where the pre-filled answer came from. */
+	defaultSource?: DefaultSource;
+	flowId?: string;
+	stepId?: string;
+}
+
+export const HELP_KEY = "?";
+
+const DEFAULT_SOURCE_LABELS = {
+	persisted: "help.source.persisted",
+	override: "help.source.override",
+	config: "help.source.config",
+} as const satisfies Record<DefaultSource, MessageKey>;
+
+export function hasPromptHelp(help: PromptHelp | undefined): help is PromptHelp {
+	return Boolean(
+		help && (help.description?.trim() || help.defaultSource || help.flowId || help.stepId),
+	);
+}
+
+export function formatHelpLines(help: PromptHelp): string[] {
+	const lines = help.description?.trim().split("\n") ?? [];
+	if (help.defaultSource) {
+		lines.push(t("help.defaultFrom", { source: t(DEFAULT_SOURCE_LABELS[help.defaultSource]) }));
+	}
+	const origin = [
+		help.flowId ? t("help.flow", { id: help.flowId }) : undefined,
+		help.stepId ? t("help.step", { id: help.stepId }) : undefined,
+	].filter(Boolean);
+	if (origin.length > 0) {
+		lines.push(t("help.askedBy", { origin: joinLegend(origin) }));
+	}
+	return lines;
+}
+
+/**
+ * The prompt message with a `? help` hint, or followed by the help panel
+ * when expanded. Prompts render it wherever they render their message.
+ */
+export function formatHelpMessage(
+	message: string,
+	help: PromptHelp | undefined,
+	expanded: boolean,
+): string {
+	if (!hasPromptHelp(help)) {
+		return message;
+	}
+	const { palette, symbols } = getTheme();
+	if (!expanded) {
+		return `${message}  ${palette.muted(`(${HELP_KEY} help)`)}`;
+	}
+	const panel = formatHelpLines(help).map((line) => `${palette.frame(symbols.bar)}  ${palette.muted(line)}`);
+	return [message, ...panel].join("\n");
+}
+
+/** Expanded/collapsed state of one prompt's help panel. */
+export class HelpPanel {
+	expanded = false;
+
+	constructor(readonly help: PromptHelp | undefined) {}
+
+	get enabled(): boolean {
+		return hasPromptHelp(this.help);
+	}
+
+	toggle() {
+		if (this.enabled) {
+			this.expanded = !this.expanded;
+		}
+	}
+
+	/** Also carries the inactivity countdown while one is running. */
+	message(message: string): string {
+		return formatHelpMessage(`${message}${formatCountdown()}`, this.help, this.expanded);
+	}
+}
+
+/**
+ * Toggles `panel` on `?` for prompts whose instance isn't reachable (the
+ * `@clack/prompts` helpers). Only suitable for prompts that don't take text
+ * input, where `?` has no other meaning. Returns a disposer.
+ */
+export function watchHelpKey(panel: HelpPanel, input: Readable = process.stdin): () => void {
+	const onKeypress = (char: string | undefined, key?: Key) => {
+		if (char === HELP_KEY && !key?.ctrl && !key?.meta) {
+			panel.toggle();
+		}
+	};
+	input.on("keypress", onKeypress);
+	return () => {
+		input.off("keypress", onKeypress);
+	};
+}
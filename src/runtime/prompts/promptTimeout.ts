@@ -0,0 +1,147 @@
+import process from "node:process";
+import type { Key } from "node:readline";
+import type { Readable, Writable } from "node:stream";
+
+import { t } from "../i18n.js";
+import { getTheme } from "../theme.js";
+
+export interface PromptTimeoutEvent {
+	message: string;
+	timeoutMs: number;
+	/** "default" when the initial value was submitted, "cancelled" when there was none. */
+	outcome: "default" | "cancelled";
+	/** The auto-selected answer; absent when cancelled or for secrets. */
+	value?: unknown;
+}
+
+/** Log event for a prompt the inactivity timeout answered or cancelled. */
+export interface PromptAutoAnswerLogEvent extends PromptTimeoutEvent {
+	type: "prompt.auto-answer";
+}
+
+export interface InactivityWatchOptions {
+	timeoutMs: number;
+	/**
+	 * Keypress that submits the prompt's default, e.g. Enter. Without one,
+	 * or when it doesn't close the prompt, the prompt is cancelled.
+	 */
+	submitKey?: SyntheticKey;
+	input?: Readable;
+	/** Re-rendered every second so the countdown stays current. */
+	output?: Writable;
+}
+
+export interface InactivityWatch {
+	/** True once time ran out and the default was submitted (or the prompt cancelled). */
+	readonly expired: boolean;
+	dispose(): void;
+}
+
+export interface SyntheticKey {
+	char?: string;
+	key: Key;
+}
+
+export const RETURN_KEY: SyntheticKey = { char: "\r", key: { name: "return", sequence: "\r" } };
+const ESCAPE_KEY: SyntheticKey = { key: { name: "escape", sequence: "\u001b" } };
+const TICK_MS = 1_000;
+
+interface Countdown {
+	deadline: number;
+	submits: boolean;
+}
+
+// Only one prompt is open at a time, so the running countdown is shared with
+// the prompt headers (see `HelpPanel.message`) rather than threaded through.
+let activeCountdown: Countdown | undefined;
+
+/** Header suffix for the running countdown, or "" when none is running. */
+export function formatCountdown(now: number = Date.now()): string {
+	if (!activeCountdown) {
+		return "";
+	}
+	const seconds = Math.max(0, Math.ceil((activeCountdown.deadline - now) / 1000));
+	const countdown = activeCountdown.submits
+		? t("prompt.countdown.answer", { seconds })
+		: t("prompt.countdown.cancel", { seconds });
+	return `  ${getTheme().palette.warning(countdown)}`;
+}
+
+/**
+ * Answers an unattended prompt: once `timeoutMs` pass without a keypress,
+ * `submitKey` is emitted on `input` so the prompt takes its default, then
+ * Escape if the prompt is still open. The first real keypress means someone
+ * is there, so it stops the countdown for good.
+ */
+export function watchInactivity({
+	timeoutMs,
+	submitKey,
+	input = process.stdin,
+	output = process.stdout,
+}: InactivityWatchOptions): InactivityWatch {
+	let expired = false;
+	let disposed = false;
+	let emitting = false;
+	const countdown: Countdown = { deadline: Date.now() + timeoutMs, submits: submitKey !== undefined };
+	activeCountdown = countdown;
+
+	// The prompt opened after this watch subscribes its own render to "resize";
+	// calling just those listeners redraws it without waking anyone else's.
+	const outsideListeners = new Set(output.listeners("resize"));
+	const rerender = () => {
+		for (const listener of output.listeners("resize")) {
+			if (!outsideListeners.has(listener)) {
+				(listener as () => void).call(output);
+			}
+		}
+	};
+	const emitKey = ({ char, key }: SyntheticKey) => {
+		emitting = true;
+		try {
+			input.emit("keypress", char, key);
+		} finally {
+			emitting = false;
+		}
+	};
+	const stop = () => {
+		clearTimeout(timer);
+		clearInterval(ticker);
+		input.off("keypress", onKeypress);
+		if (activeCountdown === countdown) {
+			activeCountdown = undefined;
+		}
+	};
+
+	const onKeypress = () => {
+		if (emitting) {
+			return;
+		}
+		stop();
+		rerender();
+	};
+	const ticker = setInterval(rerender, TICK_MS);
+	const timer = setTimeout(() => {
+		expired = true;
+		stop();
+		emitKey(submitKey ?? ESCAPE_KEY);
+		if (submitKey) {
+			// Enter may not close the prompt (a failing validate, for one).
+			setImmediate(() => {
+				if (!disposed) {
+					emitKey(ESCAPE_KEY);
+				}
+			});
+		}
+	}, timeoutMs);
+	input.on("keypress", onKeypress);
+
+	return {
+		get expired() {
+			return expired;
+		},
+		dispose() {
+			disposed = true;
+			stop();
+		},
+	};
+}
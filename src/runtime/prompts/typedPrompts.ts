@@ -0,0 +1,194 @@
+import { TextPrompt } from "@clack/core";
+import type { Readable, Writable } from "node:stream";
+
+import { t } from "../i18n.js";
+import { buildPlaceholder } from "../textPrompt.js";
+import { formatStateSymbol, getTheme, joinLegend } from "../theme.js";
+import { replacePromptLine } from "./clackInternals.js";
+import { HELP_KEY, HelpPanel, type PromptHelp } from "./promptHelp.js";
+import {
+	formatDuration,
+	parseDateInput,
+	parseDuration,
+	parseNumber,
+	stepNumber,
+	type NumberConstraints,
+	type ParseResult,
+} from "./typedValues.js";
+
+interface TypedPromptOptions<T> {
+	message: string;
+	initialValue?: T;
+	placeholder?: string;
+	/** Runs on the parsed value, after the type's own checks. */
+	validate?: (value: T) => string | undefined;
+	help?: PromptHelp;
+	input?: Readable;
+	output?: Writable;
+}
+
+export type NumberPromptOptions = TypedPromptOptions<number> & NumberConstraints;
+
+export interface DatePromptOptions extends TypedPromptOptions<string> {
+	/** Reference point for "today" and "+7d"; defaults to the current date. */
+	now?: Date;
+}
+
+export type DurationPromptOptions = TypedPromptOptions<number>;
+
+export interface TypedConfirmPromptOptions
+	extends Omit<TypedPromptOptions<true>, "initialValue" | "placeholder" | "validate"> {
+	/** Text the user has to type exactly, e.g. a scenario id or environment name. */
+	phrase: string;
+}
+
+interface TypedValueCodec<T> {
+	parse(text: string): ParseResult<T>;
+	format(value: T): string;
+	/** Dim text after the input, e.g. what "+7d" resolves to. */
+	preview?(text: string, value: T): string | undefined;
+	/** Line rewrite for up/down; undefined leaves the input alone. */
+	step?(text: string, direction: 1 | -1): string | undefined;
+	legend: ReadonlyArray<string | undefined>;
+}
+
+export function numberPrompt(options: NumberPromptOptions): Promise<number | symbol> {
+	const constraints = { min: options.min, max: options.max, step: options.step };
+	const range = [
+		options.min !== undefined ? `min ${options.min}` : undefined,
+		options.max !== undefined ? `max ${options.max}` : undefined,
+	].filter(Boolean);
+	return createTypedPrompt(options, {
+		parse: (text) => parseNumber(text, constraints),
+		format: String,
+		step(text, direction) {
+			const current = text.trim().length === 0 ? undefined : Number(text);
+			if (current !== undefined && !Number.isFinite(current)) {
+				return undefined;
+			}
+			const base = current ?? options.min ?? 0;
+			return String(current === undefined ? base : stepNumber(base, direction, constraints));
+		},
+		legend: [`${getTheme().symbols.arrowUpDown} step`, ...range],
+	});
+}
+
+export function datePrompt(options: DatePromptOptions): Promise<string | symbol> {
+	return createTypedPrompt(options, {
+		parse: (text) => parseDateInput(text, options.now),
+		format: (value) => value,
+		preview: (text, value) => (text.trim() === value ? undefined : value),
+		legend: ["YYYY-MM-DD", "today", "tomorrow", "+7d", "-2w"],
+	});
+}
+
+export function durationPrompt(options: DurationPromptOptions): Promise<number | symbol> {
+	return createTypedPrompt(options, {
+		parse: parseDuration,
+		format: formatDuration,
+		preview: (text, value) => {
+			const formatted = formatDuration(value);
+			return text.trim().replace(/\s+/g, "") === formatted ? undefined : formatted;
+		},
+		legend: [`e.g. ${joinLegend(["90s", "5m", "1h30m"])}`],
+	});
+}
+
+/**
+ * Confirmation that only submits once `phrase` is typed exactly; there is
+ * no default, so Enter alone never confirms.
+ */
+export function typedConfirmPrompt(options: TypedConfirmPromptOptions): Promise<true | symbol> {
+	const { phrase } = options;
+	return createTypedPrompt<true>(options, {
+		parse: (text) =>
+			text === phrase
+				? { value: true }
+				: { error: text.length === 0 ? t("typed.confirmPhrase", { phrase }) : t("typed.phraseMismatch", { text, phrase }) },
+		format: () => phrase,
+		legend: [`type ${phrase} to confirm`, "esc cancel"],
+	});
+}
+
+/**
+ * Text input that only submits once `codec` can parse it, then resolves
+ * with the parsed value rather than the typed text.
+ */
+function createTypedPrompt<T>(
+	options: TypedPromptOptions<T>,
+	codec: TypedValueCodec<T>,
+): Promise<T | symbol> {
+	const helpPanel = new HelpPanel(options.help);
+
+	const prompt = new TextPrompt({
+		validate: (text) => {
+			const result = codec.parse(String(text ?? ""));
+			return "error" in result ? result.error : options.validate?.(result.value);
+		},
+		placeholder: options.placeholder,
+		initialValue: options.initialValue === undefined ? undefined : codec.format(options.initialValue),
+		input: options.input,
+		output: options.output,
+		render() {
+			const { palette, symbols } = getTheme();
+			const header = `${palette.frame(symbols.bar)}
+${formatStateSymbol(this.state)}  ${helpPanel.message(options.message)}
+`;
+			const text = this.value ?? "";
+			const currentValue = text ? this.valueWithCursor : buildPlaceholder(options.placeholder);
+
+			switch (this.state) {
+				case "error":
+					return (
+						`${header.trim()}\n` +
+						`${palette.warning(symbols.bar)}  ${currentValue}\n` +
+						`${palette.warning(symbols.barEnd)}  ${palette.warning(this.error)}\n`
+					);
+				case "submit": {
+					const result = codec.parse(text);
+					const shown = "value" in result ? codec.format(result.value) : text;
+					return `${header}${palette.frame(symbols.bar)}  ${palette.muted(shown)}`;
+				}
+				case "cancel":
+					return `${header}${palette.frame(symbols.bar)}  ${palette.strikethrough(palette.muted(text))}`;
+				default: {
+					const result = text ? codec.parse(text) : undefined;
+					const preview = result && "value" in result ? codec.preview?.(text, result.value) : undefined;
+					return (
+						header +
+						`${palette.accent(symbols.bar)}  ${currentValue}${preview ? palette.muted(`  ${symbols.arrowRight} ${preview}`) : ""}\n` +
+						`${palette.accent(symbols.barEnd)}  ${palette.muted(joinLegend(codec.legend))}\n`
+					);
+				}
+			}
+		},
+	});
+
+	prompt.on("key", (char?: string) => {
+		// readline has already put the "?" into the line; only a lone one toggles help.
+		if (char === HELP_KEY && helpPanel.enabled && prompt.value === HELP_KEY) {
+			replacePromptLine(prompt, "");
+			helpPanel.toggle();
+		}
+	});
+
+	if (codec.step) {
+		prompt.on("cursor", (direction?: string) => {
+			if (direction !== "up" && direction !== "down") {
+				return;
+			}
+			const next = codec.step?.(prompt.value ?? "", direction === "up" ? 1 : -1);
+			if (next !== undefined) {
+				replacePromptLine(prompt, next);
+			}
+		});
+	}
+
+	return prompt.prompt().then((text) => {
+		if (typeof text !== "string") {
+			return text;
+		}
+		// validate already turned away anything that doesn't parse.
+		return (codec.parse(text) as { value: T }).value;
+	});
+}
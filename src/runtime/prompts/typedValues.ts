@@ -0,0 +1,167 @@
+import { t } from "../i18n.js";
+
+/**
+ * Parsers for the typed prompts. Every parsed value is JSON-native (numbers
+ * and ISO date strings), so persisted answers round-trip without conversion.
+ */
+export type ParseResult<T> = { value: T } | { error: string };
+
+export interface NumberConstraints {
+	min?: number;
+	max?: number;
+	/** Arrow-key increment; also fixes the displayed precision. */
+	step?: number;
+}
+
+export function parseNumber(text: string, constraints: NumberConstraints = {}): ParseResult<number> {
+	const trimmed = text.trim();
+	if (trimmed.length === 0) {
+		return { error: t("typed.enterNumber") };
+	}
+	const value = Number(trimmed);
+	if (!Number.isFinite(value)) {
+		return { error: t("typed.notANumber", { text: trimmed }) };
+	}
+	if (constraints.min !== undefined && value < constraints.min) {
+		return { error: t("typed.atLeast", { min: constraints.min }) };
+	}
+	if (constraints.max !== undefined && value > constraints.max) {
+		return { error: t("typed.atMost", { max: constraints.max }) };
+	}
+	return { value };
+}
+
+/** `value` moved by one step in `direction`, clamped to min/max. */
+export function stepNumber(
+	value: number,
+	direction: 1 | -1,
+	constraints: NumberConstraints = {},
+): number {
+	const step = constraints.step ?? 1;
+	const decimals = countDecimals(step);
+	let next = Number((value + direction * step).toFixed(decimals));
+	if (constraints.min !== undefined) {
+		next = Math.max(constraints.min, next);
+	}
+	if (constraints.max !== undefined) {
+		next = Math.min(constraints.max, next);
+	}
+	return next;
+}
+
+function countDecimals(value: number): number {
+	const [, fraction = ""] = String(value).split(".");
+	return fraction.length;
+}
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const RELATIVE_DATE_PATTERN = /^([+-])\s*(\d+)\s*([dwmy])$/;
+const NAMED_DAYS: Record<string, number> = { yesterday: -1, today: 0, tomorrow: 1 };
+
+/**
+ * Accepts `YYYY-MM-DD`, "today", "tomorrow", "yesterday" or an offset from
+ * today such as "+7d", "-2w", "+1m" or "+1y". Resolves to a local
+ * `YYYY-MM-DD` string.
+ */
+export function parseDateInput(text: string, now: Date = new Date()): ParseResult<string> {
+	const trimmed = text.trim().toLowerCase();
+	if (trimmed.length === 0) {
+		return { error: t("typed.enterDate") };
+	}
+
+	const named = NAMED_DAYS[trimmed];
+	if (named !== undefined) {
+		return { value: formatIsoDate(addToDate(now, named, "d")) };
+	}
+
+	const relative = RELATIVE_DATE_PATTERN.exec(trimmed);
+	if (relative) {
+		const amount = Number(relative[2]) * (relative[1] === "-" ? -1 : 1);
+		return { value: formatIsoDate(addToDate(now, amount, relative[3] as "d" | "w" | "m" | "y")) };
+	}
+
+	const iso = ISO_DATE_PATTERN.exec(trimmed);
+	if (iso) {
+		const [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+		const date = new Date(year, month - 1, day);
+		if (date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day) {
+			return { value: trimmed };
+		}
+		return { error: t("typed.invalidDate", { text: trimmed }) };
+	}
+
+	return { error: t("typed.unreadableDate", { text: text.trim() }) };
+}
+
+function addToDate(base: Date, amount: number, unit: "d" | "w" | "m" | "y"): Date {
+	const date = new Date(base.getFullYear(), base.getMonth(), base.getDate());
+	switch (unit) {
+		case "d":
+			date.setDate(date.getDate() + amount);
+			break;
+		case "w":
+			date.setDate(date.getDate() + amount * 7);
+			break;
+		case "m":
+			date.setMonth(date.getMonth() + amount);
+			break;
+		case "y":
+			date.setFullYear(date.getFullYear() + amount);
+			break;
+	}
+	return date;
+}
+
+export function formatIsoDate(date: Date): string {
+	const pad = (value: number) => String(value).padStart(2, "0");
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+const DURATION_UNITS: Array<[unit: string, milliseconds: number]> = [
+	["d", 86_400_000],
+	["h", 3_600_000],
+	["m", 60_000],
+	["s", 1_000],
+	["ms", 1],
+];
+const DURATION_PATTERN = /(\d+(?:\.\d+)?)\s*(ms|d|h|m|s)/g;
+
+/** Parses "90s", "5m", "1h30m" or "250ms" into milliseconds. */
+export function parseDuration(text: string): ParseResult<number> {
+	const trimmed = text.trim().toLowerCase();
+	if (trimmed.length === 0) {
+		return { error: t("typed.enterDuration") };
+	}
+	if (/^\d+(\.\d+)?$/.test(trimmed)) {
+		return { error: t("typed.durationUnit", { text: trimmed }) };
+	}
+
+	let total = 0;
+	let consumed = "";
+	for (const match of trimmed.matchAll(DURATION_PATTERN)) {
+		const unit = DURATION_UNITS.find(([name]) => name === match[2])!;
+		total += Number(match[1]) * unit[1];
+		consumed += match[0];
+	}
+	if (consumed.replace(/\s+/g, "") !== trimmed.replace(/\s+/g, "")) {
+		return { error: t("typed.unreadableDuration", { text: text.trim() }) };
+	}
+	return { value: Math.round(total) };
+}
+
+/** Compact form of a millisecond duration, e.g. 5400000 → "1h30m". */
+export function formatDuration(milliseconds: number): string {
+	if (milliseconds === 0) {
+		return "0s";
+	}
+	let remaining = milliseconds;
+	let formatted = "";
+	for (const [unit, size] of DURATION_UNITS) {
+		const amount = Math.floor(remaining / size);
+		if (amount > 0) {
+			formatted += `${amount}${unit}`;
+			remaining -= amount * size;
+		}
+	}
+	return formatted;
+}
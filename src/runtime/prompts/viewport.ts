@@ -0,0 +1,86 @@
+import type { Writable } from "node:stream";
+
+export type ViewportRow<T> =
+	| { kind: "item"; item: T; index: number }
+	| { kind: "group"; group: string }
+	| { kind: "more" };
+
+export interface Viewport<T> {
+	start: number;
+	rows: ViewportRow<T>[];
+}
+
+/**
+ * Slices `items` into a scrolling window of `pageSize` rows that keeps the
+ * cursor two rows away from either edge. When the list overflows, the first
+ * and/or last row is replaced by a "more" marker (rendered as "...").
+ *
+ * With `groupOf`, a header row is inserted wherever the group changes; headers
+ * take up window rows like items, so `previousStart` counts them too.
+ */
+export function sliceViewport<T>(
+	items: readonly T[],
+	cursor: number,
+	previousStart: number,
+	pageSize: number,
+	groupOf?: (item: T) => string | undefined,
+): Viewport<T> {
+	const entries: ViewportRow<T>[] = [];
+	let cursorRow = cursor;
+	items.forEach((item, index) => {
+		const group = groupOf?.(item);
+		if (group !== undefined && (index === 0 || groupOf?.(items[index - 1]!) !== group)) {
+			entries.push({ kind: "group", group });
+		}
+		if (index === cursor) {
+			cursorRow = entries.length;
+		}
+		entries.push({ kind: "item", item, index });
+	});
+
+	let start = previousStart;
+	if (cursorRow >= start + pageSize - 3) {
+		start = Math.max(Math.min(cursorRow - pageSize + 3, entries.length - pageSize), 0);
+	} else if (cursorRow < start + 2) {
+		start = Math.max(cursorRow - 2, 0);
+	}
+
+	const hasWindow = pageSize < entries.length;
+	const showAbove = hasWindow && start > 0;
+	const showBelow = hasWindow && start + pageSize < entries.length;
+	const rows = entries
+		.slice(start, start + pageSize)
+		.map((entry, offset, array): ViewportRow<T> => {
+			if ((offset === 0 && showAbove) || (offset === array.length - 1 && showBelow)) {
+				return { kind: "more" };
+			}
+			return entry;
+		});
+
+	return { start, rows };
+}
+
+const MIN_VISIBLE_ROWS = 5;
+
+/**
+ * Number of option rows a windowed prompt may draw. The height comes from
+ * `output.rows` minus the prompt's own chrome, capped by `maxItems` when set,
+ * and never below five rows so the scroll margins still work. Call it from
+ * `render()`: clack re-renders on the output's "resize" event (SIGWINCH), so
+ * the window follows the terminal size. Streams without `rows` (pipes, tests)
+ * fall back to `maxItems`, or no window at all.
+ */
+export function resolveVisibleRows(
+	maxItems: number | undefined,
+	output: Writable,
+	reservedRows: number,
+): number {
+	const requested =
+		typeof maxItems === "number" ? Math.max(maxItems, MIN_VISIBLE_ROWS) : Infinity;
+	const terminalRows = (output as Writable & { rows?: number }).rows;
+	if (typeof terminalRows !== "number" || terminalRows <= 0) {
+		return requested;
+	}
+	const fitting = Math.max(terminalRows - reservedRows, MIN_VISIBLE_ROWS);
+	return Math.min(requested, fitting);
+}
@@ -0,0 +1,141 @@
+import type { PromptDriver } from "@ScaffoldStack/dev-wizard-engine/runtime/promptDriver.js";
+import { PromptCancelledError } from "@ScaffoldStack/dev-wizard-engine/runtime/promptDriver.js";
+import { ClackPromptDriver } from "./clackPromptDriver.js";
+import { isPromptNavigationSignal } from "./promptNavigation.js";
+import {
+	createPromptSession,
+	serializePromptOptions,
+	writePromptSession,
+	type PromptMethod,
+	type PromptOutcome,
+	type PromptSession,
+} from "./promptSession.js";
+import { REDACTED_SECRET } from "./secrets.js";
+
+/** Every prompt method a driver in this package offers. */
+export type SessionPromptDriver = Pick<ClackPromptDriver, PromptMethod>;
+
+type OptionsOf<Method extends PromptMethod> = Parameters<SessionPromptDriver[Method]>[0];
+
+export interface RecordingPromptDriverOptions {
+	/** Where the session is written; rewritten after every prompt so a crashed run keeps its answers. */
+	filePath: string;
+	/** Driver that actually asks; a `ClackPromptDriver` by default. */
+	driver?: SessionPromptDriver;
+}
+
+/**
+ * Asks through another driver and writes every call (method, message,
+ * options, answer and timing) to a session file that `ReplayPromptDriver`
+ * can answer from. Cancellations and steps back are recorded too, so a
+ * replay follows the same path. Passwords are stored redacted.
+ */
+export class RecordingPromptDriver implements PromptDriver {
+	readonly session: PromptSession = createPromptSession();
+	private readonly filePath: string;
+	private readonly driver: SessionPromptDriver;
+
+	constructor(options: RecordingPromptDriverOptions) {
+		this.filePath = options.filePath;
+		this.driver = options.driver ?? new ClackPromptDriver();
+	}
+
+	text(options: OptionsOf<"text">): Promise<string> {
+		return this.record("text", options, () => this.driver.text(options));
+	}
+
+	textWithHistory(options: OptionsOf<"textWithHistory">): Promise<string> {
+		return this.record("textWithHistory", options, () => this.driver.textWithHistory(options));
+	}
+
+	password(options: OptionsOf<"password">): Promise<string> {
+		return this.record("password", options, () => this.driver.password(options), { secret: true });
+	}
+
+	path(options: OptionsOf<"path">): Promise<string> {
+		return this.record("path", options, () => this.driver.path(options));
+	}
+
+	editor(options: OptionsOf<"editor">): Promise<string> {
+		return this.record("editor", options, () => this.driver.editor(options));
+	}
+
+	number(options: OptionsOf<"number">): Promise<number> {
+		return this.record("number", options, () => this.driver.number(options));
+	}
+
+	date(options: OptionsOf<"date">): Promise<string> {
+		return this.record("date", options, () => this.driver.date(options));
+	}
+
+	duration(options: OptionsOf<"duration">): Promise<number> {
+		return this.record("duration", options, () => this.driver.duration(options));
+	}
+
+	list(options: OptionsOf<"list">): Promise<string[]> {
+		return this.record("list", options, () => this.driver.list(options));
+	}
+
+	keyValue(options: OptionsOf<"keyValue">): Promise<Record<string, string>> {
+		return this.record("keyValue", options, () => this.driver.keyValue(options));
+	}
+
+	confirm(options: OptionsOf<"confirm">): Promise<boolean> {
+		return this.record("confirm", options, () => this.driver.confirm(options));
+	}
+
+	typedConfirm(options: OptionsOf<"typedConfirm">): Promise<boolean> {
+		return this.record("typedConfirm", options, () => this.driver.typedConfirm(options));
+	}
+
+	select<Value extends string>(options: OptionsOf<"select">): Promise<Value> {
+		return this.record("select", options, () => this.driver.select(options)) as Promise<Value>;
+	}
+
+	selectWithOther(options: OptionsOf<"selectWithOther">): Promise<string> {
+		return this.record("selectWithOther", options, () => this.driver.selectWithOther(options));
+	}
+
+	multiselect(options: OptionsOf<"multiselect">): Promise<string[]> {
+		return this.record("multiselect", options, () => this.driver.multiselect(options));
+	}
+
+	selectWithShortcuts<Value extends string>(options: OptionsOf<"selectWithShortcuts">): Promise<Value> {
+		return this.record("selectWithShortcuts", options, () => this.driver.selectWithShortcuts(options)) as Promise<Value>;
+	}
+
+	private async record<T>(
+		method: PromptMethod,
+		options: { message: string },
+		ask: () => Promise<T>,
+		{ secret = false }: { secret?: boolean } = {},
+	): Promise<T> {
+		const started = Date.now();
+		const save = (outcome: PromptOutcome, answer?: unknown) => {
+			this.session.prompts.push({
+				method,
+				message: options.message,
+				options: serializePromptOptions(options),
+				outcome,
+				...(outcome === "answered" ? { answer: secret ? REDACTED_SECRET : answer } : {}),
+				startedAt: new Date(started).toISOString(),
+				durationMs: Date.now() - started,
+			});
+			return writePromptSession(this.filePath, this.session);
+		};
+
+		let answer: T;
+		try {
+			answer = await ask();
+		} catch (error) {
+			if (error instanceof PromptCancelledError) {
+				await save("cancelled");
+			} else if (isPromptNavigationSignal(error)) {
+				await save("back");
+			}
+			throw error;
+		}
+		await save("answered", answer);
+		return answer;
+	}
+}
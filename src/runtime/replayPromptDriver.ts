@@ -0,0 +1,183 @@
+import type { PromptDriver } from "@ScaffoldStack/dev-wizard-engine/runtime/promptDriver.js";
+import { PromptCancelledError } from "@ScaffoldStack/dev-wizard-engine/runtime/promptDriver.js";
+import { PromptNavigationSignal } from "./promptNavigation.js";
+import {
+	PromptSessionMismatchError,
+	findPromptMismatch,
+	serializePromptOptions,
+	type PromptCall,
+	type PromptMethod,
+	type PromptSession,
+} from "./promptSession.js";
+import type { SessionPromptDriver } from "./recordingPromptDriver.js";
+import { REDACTED_SECRET, type SecretRegistry } from "./secrets.js";
+
+type OptionsOf<Method extends PromptMethod> = Parameters<SessionPromptDriver[Method]>[0];
+
+export interface ReplayPromptDriverOptions {
+	session: PromptSession;
+	/**
+	 * Answers for password prompts by message; sessions never contain them.
+	 * A password prompt without one fails the replay.
+	 */
+	secretAnswers?: Readonly<Record<string, string>>;
+	/** Receives every replayed password so callers can redact it. */
+	secrets?: SecretRegistry;
+}
+
+/**
+ * Messages of the recorded password prompts `secretAnswers` has no answer
+ * for; replaying the session would fail when it reaches them.
+ */
+export function findMissingSecretAnswers(
+	session: PromptSession,
+	secretAnswers: Readonly<Record<string, string>> = {},
+): string[] {
+	const messages = session.prompts
+		.filter((prompt) => prompt.method === "password" && prompt.answer === REDACTED_SECRET)
+		.map((prompt) => prompt.message)
+		.filter((message) => secretAnswers[message] === undefined);
+	return [...new Set(messages)];
+}
+
+/**
+ * Answers prompts from a session written by `RecordingPromptDriver`, in
+ * order. Each prompt must match the recorded one (method, message and
+ * option values, see `findPromptMismatch`) and a recorded answer must still
+ * pass the prompt's `validate`; otherwise a `PromptSessionMismatchError`
+ * says where the scenario and the session went apart.
+ */
+export class ReplayPromptDriver implements PromptDriver {
+	private readonly session: PromptSession;
+	private readonly secretAnswers: Readonly<Record<string, string>>;
+	private readonly secrets?: SecretRegistry;
+	private position = 0;
+
+	constructor(options: ReplayPromptDriverOptions) {
+		this.session = options.session;
+		this.secretAnswers = options.secretAnswers ?? {};
+		this.secrets = options.secrets;
+	}
+
+	/** Recorded prompts not asked yet; a finished replay of the same run leaves none. */
+	get remaining(): number {
+		return this.session.prompts.length - this.position;
+	}
+
+	async text(options: OptionsOf<"text">): Promise<string> {
+		return this.replay("text", options);
+	}
+
+	async textWithHistory(options: OptionsOf<"textWithHistory">): Promise<string> {
+		return this.replay("textWithHistory", options);
+	}
+
+	async password(options: OptionsOf<"password">): Promise<string> {
+		const recorded = await this.replay<string>("password", options);
+		const answer = recorded === REDACTED_SECRET ? this.secretAnswers[options.message] : recorded;
+		if (answer === undefined) {
+			throw new Error(`No secret answer for "${options.message}"; sessions don't store passwords, pass it in secretAnswers.`);
+		}
+		this.secrets?.register(answer);
+		return answer;
+	}
+
+	async path(options: OptionsOf<"path">): Promise<string> {
+		return this.replay("path", options);
+	}
+
+	async editor(options: OptionsOf<"editor">): Promise<string> {
+		return this.replay("editor", options);
+	}
+
+	async number(options: OptionsOf<"number">): Promise<number> {
+		return this.replay("number", options);
+	}
+
+	async date(options: OptionsOf<"date">): Promise<string> {
+		return this.replay("date", options);
+	}
+
+	async duration(options: OptionsOf<"duration">): Promise<number> {
+		return this.replay("duration", options);
+	}
+
+	async list(options: OptionsOf<"list">): Promise<string[]> {
+		return this.replay("list", options);
+	}
+
+	async keyValue(options: OptionsOf<"keyValue">): Promise<Record<string, string>> {
+		return this.replay("keyValue", options);
+	}
+
+	async confirm(options: OptionsOf<"confirm">): Promise<boolean> {
+		return this.replay("confirm", options);
+	}
+
+	async typedConfirm(options: OptionsOf<"typedConfirm">): Promise<boolean> {
+		return this.replay("typedConfirm", options);
+	}
+
+	async select<Value extends string>(options: OptionsOf<"select">): Promise<Value> {
+		return this.replay("select", options);
+	}
+
+	async selectWithOther(options: OptionsOf<"selectWithOther">): Promise<string> {
+		return this.replay("selectWithOther", options);
+	}
+
+	async multiselect(options: OptionsOf<"multiselect">): Promise<string[]> {
+		return this.replay("multiselect", options);
+	}
+
+	async selectWithShortcuts<Value extends string>(options: OptionsOf<"selectWithShortcuts">): Promise<Value> {
+		const answer = await this.replay<Value>("selectWithShortcuts", options);
+		const shortcut = options.shortcuts?.find((entry) => entry.value === answer);
+		if (shortcut) {
+			options.onShortcut?.(shortcut.action);
+		}
+		return answer;
+	}
+
+	private async replay<T>(
+		method: PromptMethod,
+		options: { message: string; validate?: (value: never) => string | undefined },
+	): Promise<T> {
+		const index = this.position;
+		const call: PromptCall = { method, message: options.message, options: serializePromptOptions(options) };
+		const recorded = this.session.prompts[index];
+		if (!recorded) {
+			throw new PromptSessionMismatchError(
+				index,
+				call,
+				undefined,
+				`the session ends after ${this.session.prompts.length} prompt${this.session.prompts.length === 1 ? "" : "s"}`,
+			);
+		}
+		const mismatch = findPromptMismatch(recorded, call);
+		if (mismatch) {
+			throw new PromptSessionMismatchError(index, call, recorded, mismatch);
+		}
+		this.position += 1;
+
+		if (recorded.outcome === "cancelled") {
+			throw new PromptCancelledError();
+		}
+		if (recorded.outcome === "back") {
+			throw new PromptNavigationSignal("back");
+		}
+		// selectWithOther only validates typed values; the others validate every answer.
+		if (method !== "selectWithOther" && method !== "password") {
+			const error = options.validate?.(recorded.answer as never);
+			if (error) {
+				throw new PromptSessionMismatchError(
+					index,
+					call,
+					recorded,
+					`the recorded answer ${JSON.stringify(recorded.answer)} is now rejected: ${error}`,
+				);
+			}
+		}
+		return recorded.answer as T;
+	}
+}
@@ -1,2 +0,0 @@
-import type { DevWizardOptions, DevWizardRunResult } from "@ScaffoldStack/dev-wizard-engine/runtime/types.js";
-export declare function runDevWizard(options: DevWizardOptions): Promise<DevWizardRunResult>;
@@ -8,8 +8,8 @@ import {
 	note,
 	confirm,
 	text,
+	type Option,
 } from "@clack/prompts";
-import chalk from "chalk";
 import path from "node:path";
 import { createHash } from "node:crypto";
 import type { Dirent } from "node:fs";
@@ -35,7 +35,43 @@ import {
 	WizardExecutionError,
 } from "@ScaffoldStack/dev-wizard-engine/runtime/executor.js";
 import { ClackPromptDriver } from "./clackPromptDriver.js";
+import {
+	DEFAULT_BACK_NAVIGATION_KEYS,
+	PromptNavigationSignal,
+	isPromptNavigationSignal,
+	watchBackNavigation,
+	type BackNavigationKey,
+	type BackNavigationWatch,
+} from "./promptNavigation.js";
+import {
+	SecretRegistry,
+	createRedactingLogWriter,
+	excludeSecretsFromHistory,
+	maskSecretPrompts,
+	redactPersistedSecrets,
+} from "./secrets.js";
+import {
+	LinearPromptDriver,
+	resolveScreenReaderMode,
+} from "./linearPromptDriver.js";
+import { LinearPrompter } from "./prompts/linearPrompts.js";
+import { selectWithOther, type SelectWithOtherOptions } from "./prompts/otherSelectPrompt.js";
+import {
+	RETURN_KEY,
+	watchInactivity,
+	type PromptAutoAnswerLogEvent,
+	type PromptTimeoutEvent,
+} from "./prompts/promptTimeout.js";
+import { typedConfirmPrompt } from "./prompts/typedPrompts.js";
+import { parseDuration } from "./prompts/typedValues.js";
+import { readPromptSession, type PromptSession } from "./promptSession.js";
+import { RecordingPromptDriver } from "./recordingPromptDriver.js";
+import { ReplayPromptDriver, findMissingSecretAnswers } from "./replayPromptDriver.js";
+import { selectWithShortcuts, type OptionDetails } from "./shortcutPrompts.js";
+import { setLocale, t } from "./i18n.js";
+import { getTheme, resolveThemeName, setTheme, type ThemeName } from "./theme.js";
 import { NonInteractivePromptDriver } from "@ScaffoldStack/dev-wizard-engine/runtime/promptDriver.js";
+import type { PromptDriver } from "@ScaffoldStack/dev-wizard-engine/runtime/promptDriver.js";
 import type {
 	DevWizardOptions,
 	DevWizardRunResult,
@@ -43,7 +79,10 @@ import type {
 	IdentitySegmentMetadata,
 } from "@ScaffoldStack/dev-wizard-engine/runtime/types.js";
 import { createLogWriter, createStreamLogWriter } from "@ScaffoldStack/dev-wizard-engine/runtime/logWriter.js";
-import type { WizardLogWriter } from "@ScaffoldStack/dev-wizard-engine/runtime/logWriter.js";
+import type {
+	WizardLogEvent,
+	WizardLogWriter,
+} from "@ScaffoldStack/dev-wizard-engine/runtime/logWriter.js";
 import { createOtlpLogWriter } from "@ScaffoldStack/dev-wizard-engine/runtime/telemetry/otlpExporter.js";
 import { createPolicyEngine } from "@ScaffoldStack/dev-wizard-engine/runtime/policyEngine.js";
 import type {
@@ -80,10 +119,181 @@ import {
 } from "@ScaffoldStack/dev-wizard-engine/runtime/manifest.js";
 import corePackage from "../../package.json" with { type: "json" };
 
+/** Events the runner logs on top of the engine's own. */
+type RunnerLogEvent = WizardLogEvent | PromptAutoAnswerLogEvent;
+
+/** The engine's writers serialize whatever they are given, the runner's events included. */
+interface RunnerLogWriter extends Omit<WizardLogWriter, "write"> {
+	write(event: RunnerLogEvent): void;
+}
+
 const CORE_VERSION = typeof corePackage.version === "string" ? corePackage.version : "0.0.0";
+const DEFAULT_PROTECTED_ENVIRONMENTS = ["prod", "production"];
+
+export type RunDevWizardOptions = DevWizardOptions & {
+	/**
+	 * Environments whose runs are confirmed by typing the environment name
+	 * instead of answering y/n. Falls back to the comma-separated
+	 * DEV_WIZARD_PROTECTED_ENVS, then to "prod" and "production".
+	 */
+	protectedEnvironments?: readonly string[];
+	/**
+	 * Lets a run against a protected environment execute when nobody can
+	 * type the confirmation (no terminal, or a non-interactive phase). Such
+	 * runs are refused otherwise.
+	 */
+	allowUnattendedProtected?: boolean;
+	/**
+	 * Milliseconds a prompt may wait for a keypress before it submits its
+	 * default (or cancels without one). Falls back to DEV_WIZARD_PROMPT_TIMEOUT,
+	 * a duration such as "10m"; off when neither is set.
+	 */
+	promptTimeoutMs?: number;
+	/**
+	 * Colors and symbols for this package's own prompts and for the runner's
+	 * messages and summary. Falls back to DEV_WIZARD_THEME, then "default".
+	 * Questions asked with clack's stock text, confirm, select, multiselect
+	 * and password prompts, and clack's intro, outro, log and note lines, keep
+	 * clack's glyphs; their colors follow NO_COLOR and FORCE_COLOR instead.
+	 */
+	theme?: ThemeName;
+	/**
+	 * Asks every question as plain numbered lines that are never redrawn,
+	 * for screen readers. Falls back to DEV_WIZARD_SCREEN_READER (1, true or
+	 * yes); off otherwise.
+	 */
+	screenReader?: boolean;
+	/**
+	 * Language for the runner's prompts and summary, e.g. "fr" or "fr-CA".
+	 * Falls back to LC_ALL, LC_MESSAGES, then LANG; untranslated messages
+	 * are shown in English.
+	 */
+	locale?: string;
+	/**
+	 * Records every prompt the scenario asks, with its answer and timing, to
+	 * this session file. Setup choices such as the config and scenario are
+	 * not part of it; pass them as options when replaying.
+	 */
+	recordSessionPath?: string;
+	/**
+	 * Answers the scenario's prompts from a session recorded with
+	 * `recordSessionPath`, even without a terminal. The run fails when the
+	 * scenario's questions no longer match the recording.
+	 */
+	replaySessionPath?: string;
+	/**
+	 * Answers for the recorded password prompts, by message, since sessions
+	 * store them redacted. A replay is refused up front when one is missing.
+	 */
+	replaySecretAnswers?: Readonly<Record<string, string>>;
+	/**
+	 * Keys that return from a scenario prompt to the previous one, which is
+	 * asked again with its answer pre-filled; shift+tab by default, none for
+	 * an empty list. The scenario is re-run up to that prompt, answering the
+	 * prompts before it as before, so steps between them run again.
+	 */
+	backNavigationKeys?: readonly BackNavigationKey[];
+	/**
+	 * Ids of prompt steps whose answers are secrets. They are asked through a
+	 * masked password prompt, persisted as a redacted marker and kept out of
+	 * prompt history and logs.
+	 */
+	secretSteps?: readonly string[];
+};
+
+/**
+ * The prompts runDevWizard asks itself (config, scenario, answers file and
+ * the final confirmation), so screen reader mode can swap all of them at
+ * once. Each resolves with clack's cancel symbol when cancelled.
+ */
+interface SetupPrompts {
+	text(options: { message: string; initialValue?: string; placeholder?: string }): Promise<string | symbol>;
+	select<Value extends string>(options: { message: string; options: Option<Value>[] }): Promise<Value | symbol>;
+	selectWithOther(options: SelectWithOtherOptions): Promise<string | symbol>;
+	confirm(options: { message: string; initialValue?: boolean }): Promise<boolean | symbol>;
+	typedConfirm(options: { message: string; phrase: string }): Promise<true | symbol>;
+	selectWithShortcuts<Value extends string>(options: {
+		message: string;
+		options: Array<{ value: Value; label?: string; hint?: string; group?: string }>;
+		/** A promise is only asked for once its option is highlighted. */
+		details?: (option: { value: Value; label?: string; hint?: string }) => OptionDetails | Promise<OptionDetails>;
+	}): Promise<Value | symbol>;
+}
+
+const CLACK_SETUP_PROMPTS: SetupPrompts = {
+	text: (options) => text(options),
+	select: (options) => select(options),
+	selectWithOther: (options) => selectWithOther(options),
+	confirm: (options) => confirm(options),
+	typedConfirm: (options) => typedConfirmPrompt(options),
+	selectWithShortcuts: (options) => selectWithShortcuts(options),
+};
+
+/**
+ * Clack setup prompts under the inactivity timeout the scenario's prompts
+ * get, so an unattended run can't hang before the scenario even starts.
+ */
+function createTimedSetupPrompts(
+	timeoutMs: number,
+	onPromptTimeout: (event: PromptTimeoutEvent) => void,
+): SetupPrompts {
+	async function timed<T>(
+		message: string,
+		hasDefault: boolean,
+		ask: () => Promise<T | symbol>,
+	): Promise<T | symbol> {
+		const inactivity = watchInactivity({ timeoutMs, submitKey: hasDefault ? RETURN_KEY : undefined });
+		let result: T | symbol;
+		try {
+			result = await ask();
+		} finally {
+			inactivity.dispose();
+		}
+		if (inactivity.expired) {
+			const cancelled = isCancel(result);
+			onPromptTimeout({
+				message,
+				timeoutMs,
+				outcome: cancelled ? "cancelled" : "default",
+				...(cancelled ? {} : { value: result }),
+			});
+		}
+		return result;
+	}
 
-export async function runDevWizard(options: DevWizardOptions): Promise<DevWizardRunResult> {
-	intro(chalk.cyan("Dev Wizard"));
+	return {
+		text: (options) =>
+			timed(options.message, options.initialValue !== undefined, () => CLACK_SETUP_PROMPTS.text(options)),
+		select: (options) => timed(options.message, false, () => CLACK_SETUP_PROMPTS.select(options)),
+		selectWithOther: (options) =>
+			timed(options.message, options.initialValue !== undefined, () => CLACK_SETUP_PROMPTS.selectWithOther(options)),
+		confirm: (options) =>
+			timed(options.message, options.initialValue !== undefined, () => CLACK_SETUP_PROMPTS.confirm(options)),
+		typedConfirm: (options) => timed(options.message, false, () => CLACK_SETUP_PROMPTS.typedConfirm(options)),
+		selectWithShortcuts: (options) =>
+			timed(options.message, false, () => CLACK_SETUP_PROMPTS.selectWithShortcuts(options)),
+	};
+}
+
+function createLinearSetupPrompts(prompter: LinearPrompter): SetupPrompts {
+	return {
+		text: (options) => prompter.text(options),
+		select: <Value extends string>(options: { message: string; options: Option<Value>[] }) =>
+			prompter.select<Value>(options),
+		selectWithOther: (options) => prompter.selectWithOther(options),
+		confirm: (options) => prompter.confirm(options),
+		typedConfirm: (options) => prompter.typedConfirm(options),
+		selectWithShortcuts: (options) => prompter.select(options),
+	};
+}
+
+export async function runDevWizard(options: RunDevWizardOptions): Promise<DevWizardRunResult> {
+	const screenReader = resolveScreenReaderMode(options.screenReader);
+	// Color codes are noise to a screen reader, so that mode is always plain.
+	setTheme(resolveThemeName(options.theme), screenReader ? { color: false } : {});
+	setLocale(options.locale);
+	const linearPrompter = screenReader ? new LinearPrompter() : undefined;
+	intro(getTheme().palette.accent("Dev Wizard"));
 
 	const interactiveTty = Boolean(process.stdin.isTTY && process.stdout.isTTY);
 	let repoRoot = process.cwd();
@@ -165,13 +375,21 @@ if (isRegisterMode) {
 	}
 
 	let config: DevWizardConfig;
-	let logWriter: WizardLogWriter | undefined;
+	let logWriter: RunnerLogWriter | undefined;
 	let scenario: DevWizardScenario;
 	let result: DevWizardRunResult | undefined;
 	let configResolution: ConfigResolution;
 	let resumeState: WizardState | undefined;
 	let checkpointManager: CheckpointManager | undefined;
 	let promptPersistence: PromptPersistenceManager | undefined;
+	const secrets = new SecretRegistry();
+	const promptTimeoutMs = resolvePromptTimeout(options.promptTimeoutMs);
+	const onPromptTimeout = (event: PromptTimeoutEvent) => reportPromptTimeout(event, logWriter);
+	const setupPrompts = linearPrompter
+		? createLinearSetupPrompts(linearPrompter)
+		: promptTimeoutMs !== undefined && promptTimeoutMs > 0
+			? createTimedSetupPrompts(promptTimeoutMs, onPromptTimeout)
+			: CLACK_SETUP_PROMPTS;
 
 	const effectiveEnvironment = options.environment ?? process.env.DEV_WIZARD_ENV;
 
@@ -209,7 +427,7 @@ if (isRegisterMode) {
 			repoRoot = defaultSelection.repoRoot;
 			options.configPath = defaultSelection.path;
 			log.info(
-				`Using ${chalk.cyan(
+				`Using ${getTheme().palette.accent(
 					relativeToRepo(repoRoot, defaultSelection.path),
 				)} for this run.`,
 			);
@@ -232,7 +450,7 @@ if (isRegisterMode) {
 			return { exitCode: 1 };
 		}
 		try {
-			const selection = await resolveConfigPathWithFallback(repoRoot);
+			const selection = await resolveConfigPathWithFallback(repoRoot, setupPrompts);
 			if (!selection) {
 				handleFatalError(
 					new Error(
@@ -353,7 +571,7 @@ if (isRegisterMode) {
 	}
 
 	if (effectiveEnvironment) {
-	log.info(`Environment overlay: ${chalk.cyan(effectiveEnvironment)}`);
+	log.info(`Environment overlay: ${getTheme().palette.accent(effectiveEnvironment)}`);
 	}
 
 	let pluginRegistryResult;
@@ -401,7 +619,7 @@ if (isRegisterMode) {
 
 	if (options.listScenarios) {
 		listScenarios(config);
-		outro(chalk.green("Scenarios listed."));
+		outro(getTheme().palette.success("Scenarios listed."));
 		return { exitCode: 0 };
 	}
 
@@ -413,12 +631,14 @@ if (isRegisterMode) {
 		throw new Error("Invalid CLI flags: quiet and verbose are mutually exclusive.");
 	}
 
-	const logWriters: WizardLogWriter[] = [];
+	const logWriters: RunnerLogWriter[] = [];
 
 	try {
 		if (options.logFile) {
 			try {
-				logWriters.push(createLogWriter(options.logFile));
+				logWriters.push(
+					createRedactingLogWriter(createLogWriter(options.logFile), secrets),
+				);
 			} catch (error) {
 				handleFatalError(
 					error instanceof Error ? error : new Error(String(error)),
@@ -439,13 +659,16 @@ if (isRegisterMode) {
 
 		if (options.logOtlpEndpoint) {
 			logWriters.push(
-				createOtlpLogWriter({
-					endpoint: options.logOtlpEndpoint,
-					headers: options.logOtlpHeaders,
-					serviceName: options.logOtlpServiceName,
-					scopeName: options.logOtlpScopeName,
-					resourceAttributes: options.logOtlpResourceAttributes,
-				}),
+				createRedactingLogWriter(
+					createOtlpLogWriter({
+						endpoint: options.logOtlpEndpoint,
+						headers: options.logOtlpHeaders,
+						serviceName: options.logOtlpServiceName,
+						scopeName: options.logOtlpScopeName,
+						resourceAttributes: options.logOtlpResourceAttributes,
+					}),
+					secrets,
+				),
 			);
 		}
 
@@ -476,7 +699,7 @@ if (isRegisterMode) {
 			};
 		}
 
-		scenario = await resolveScenario(config, options);
+		scenario = await resolveScenario(config, options, setupPrompts);
 	} catch (error) {
 		handleFatalError(
 			error instanceof Error ? error : new Error(String(error)),
@@ -487,7 +710,7 @@ if (isRegisterMode) {
 	}
 
 	log.info(
-		`Running scenario ${chalk.cyan(scenario.label)} ${chalk.gray(
+		`Running scenario ${getTheme().palette.accent(scenario.label)} ${getTheme().palette.muted(
 			`(${scenario.id})`,
 		)}.`,
 	);
@@ -501,9 +724,12 @@ if (isRegisterMode) {
 		acknowledgedRuleIds: options.policyAcks,
 	});
 
-		const promptHistory = createPromptHistoryManager({
-			storagePath: path.join(repoRoot, ".dev-wizard", "prompt-history.json"),
-		});
+		const promptHistory = excludeSecretsFromHistory(
+			createPromptHistoryManager({
+				storagePath: path.join(repoRoot, ".dev-wizard", "prompt-history.json"),
+			}),
+			secrets,
+		);
 
 		let identitySelection: WizardIdentitySelection | undefined;
 		const resolvedAnswersPath =
@@ -522,6 +748,7 @@ if (isRegisterMode) {
 				providedSegmentDetails: options.answersIdentitySegmentDetails,
 				usingExternalAnswers: Boolean(options.loadPersistedAnswers),
 				interactive: interactiveTty,
+				prompts: setupPrompts,
 			});
 		} catch (error) {
 			if (error instanceof IdentityPromptCancelledError) {
@@ -534,7 +761,7 @@ if (isRegisterMode) {
 
 		if (identitySelection) {
 			log.info(
-				`Using answers identity ${chalk.cyan(identitySelection.slug)} for this run.`,
+				`Using answers identity ${getTheme().palette.accent(identitySelection.slug)} for this run.`,
 			);
 		}
 
@@ -597,9 +824,9 @@ if (isRegisterMode) {
 						"utf8",
 					);
 					log.warn(
-						`Migrated legacy workspace bootstrap answers from ${chalk.cyan(
+						`Migrated legacy workspace bootstrap answers from ${getTheme().palette.accent(
 							relativeToRepo(repoRoot, legacyWorkspaceBootstrapAnswersPath),
-						)} to ${chalk.cyan(
+						)} to ${getTheme().palette.accent(
 							relativeToRepo(repoRoot, workspaceBootstrapAnswersPath),
 						)}.`,
 					);
@@ -631,14 +858,13 @@ if (isRegisterMode) {
 			);
 		} else if (!options.loadPersistedAnswers && !lockDefaultAnswersAlias) {
 			if (interactiveTty) {
-				const selectedAlias = await text({
-					message:
-						"Name for the answers file (stored under .dev-wizard/answers/<name>.json):",
+				const selectedAlias = await setupPrompts.text({
+					message: t("answers.name"),
 					initialValue: scenario.id,
 					placeholder: scenario.id,
 				});
 				if (isCancel(selectedAlias)) {
-					cancel("Execution cancelled before collecting answers.");
+					cancel(t("answers.cancelled"));
 					await logWriter?.close().catch(() => undefined);
 					await promptHistory.close().catch(() => undefined);
 					return { exitCode: 0 };
@@ -649,17 +875,20 @@ if (isRegisterMode) {
 				}
 			} else {
 				log.info(
-					`Using default answers file name ${chalk.cyan(answersAlias)} (interactive prompt disabled).`,
+					`Using default answers file name ${getTheme().palette.accent(answersAlias)} (interactive prompt disabled).`,
 				);
 			}
 	}
 
-		promptPersistence = await createPromptPersistenceManager({
-			repoRoot,
-			scenarioId: answersAlias,
-			filePath: persistencePath,
-			metadata: persistenceMetadata,
-		});
+		promptPersistence = redactPersistedSecrets(
+			await createPromptPersistenceManager({
+				repoRoot,
+				scenarioId: answersAlias,
+				filePath: persistencePath,
+				metadata: persistenceMetadata,
+			}),
+			secrets,
+		);
 
 		if (
 			!identitySelection &&
@@ -705,7 +934,7 @@ if (isRegisterMode) {
 		try {
 			const persistedAnswersStrategy = await promptForPersistedAnswersStrategy({
 				filePath: promptPersistence.getFilePath(),
-			});
+			}, setupPrompts);
 			if (persistedAnswersStrategy === "review") {
 				usePromptPersistenceAnswers = false;
 				log.info(
@@ -730,7 +959,7 @@ if (isRegisterMode) {
 		if (options.loadPersistedAnswers) {
 			if (options.answersPathUsed) {
 				log.info(
-					`Loaded prompt overrides from ${chalk.cyan(options.answersPathUsed)}.`,
+					`Loaded prompt overrides from ${getTheme().palette.accent(options.answersPathUsed)}.`,
 			);
 		} else {
 			log.info("Loaded prompt overrides from stdin (--answers -).");
@@ -739,18 +968,39 @@ if (isRegisterMode) {
 
 	if (promptPersistence.didLoadExistingSnapshot()) {
 		log.warn(
-			`Answers file ${chalk.cyan(promptPersistence.getFilePath())} already exists and will be overwritten after this run.`,
+			`Answers file ${getTheme().palette.accent(promptPersistence.getFilePath())} already exists and will be overwritten after this run.`,
 		);
 	} else {
 		log.info(
-			`Capturing prompt answers to ${chalk.cyan(promptPersistence.getFilePath())}. Edit this file or pass --answers <path> to reuse the values later.`,
+			`Capturing prompt answers to ${getTheme().palette.accent(promptPersistence.getFilePath())}. Edit this file or pass --answers <path> to reuse the values later.`,
 		);
 	}
 
+	let replaySession: PromptSession | undefined;
+	if (options.replaySessionPath) {
+		try {
+			replaySession = await readPromptSession(path.resolve(repoRoot, options.replaySessionPath));
+			const missingSecrets = findMissingSecretAnswers(replaySession, options.replaySecretAnswers);
+			if (missingSecrets.length > 0) {
+				throw new Error(
+					`The session has password prompts without a replay answer: ${missingSecrets.map((message) => `"${message}"`).join(", ")}. Pass them in replaySecretAnswers.`,
+				);
+			}
+		} catch (error) {
+			handleFatalError(
+				error instanceof Error ? error : new Error(String(error)),
+				"Failed to read prompt session",
+			);
+			await logWriter?.close().catch(() => undefined);
+			await promptHistory.close().catch(() => undefined);
+			return { exitCode: 1 };
+		}
+	}
+
 	const nonInteractive =
 		options.phase === "execute"
 			? true
-			: options.phase === "collect"
+			: options.phase === "collect" || replaySession
 				? false
 				: !interactiveTty ||
 					(usePromptPersistenceAnswers &&
@@ -758,9 +1008,40 @@ if (isRegisterMode) {
 						Boolean(options.answersPathUsed) &&
 						!options.answersPathImplicit);
 
-	const promptDriver = nonInteractive
-		? new NonInteractivePromptDriver()
-		: new ClackPromptDriver();
+	const secretMessages = collectSecretPromptMessages(config, options.secretSteps ?? []);
+	let promptDriver: PromptDriver;
+	let clackDriver: ClackPromptDriver | undefined;
+	if (nonInteractive) {
+		promptDriver = new NonInteractivePromptDriver();
+	} else if (replaySession) {
+		promptDriver = maskSecretPrompts(
+			new ReplayPromptDriver({
+				session: replaySession,
+				secretAnswers: options.replaySecretAnswers,
+				secrets,
+			}),
+			secretMessages,
+		);
+	} else {
+		clackDriver = linearPrompter
+			? undefined
+			: new ClackPromptDriver({
+				secrets,
+				backNavigationKeys: options.backNavigationKeys ?? DEFAULT_BACK_NAVIGATION_KEYS,
+				inactivityTimeoutMs: promptTimeoutMs,
+				onPromptTimeout,
+			});
+		const interactiveDriver = clackDriver ?? new LinearPromptDriver({ secrets, prompter: linearPrompter });
+		promptDriver = maskSecretPrompts(
+			options.recordSessionPath
+				? new RecordingPromptDriver({
+					filePath: path.resolve(repoRoot, options.recordSessionPath),
+					driver: interactiveDriver,
+				})
+				: interactiveDriver,
+			secretMessages,
+		);
+	}
 
 	const executorContext = {
 		config,
@@ -788,6 +1069,12 @@ if (isRegisterMode) {
 	executionMode,
 };
 
+const environmentIsProtected = isProtectedEnvironment(
+	effectiveEnvironment,
+	resolveProtectedEnvironments(options.protectedEnvironments),
+);
+let executionConfirmed = false;
+
 const planRequested = Boolean(options.plan) && !isRegisterMode;
 	if (planRequested) {
 		const planFormat: PlanFormat =
@@ -798,12 +1085,15 @@ const planRequested = Boolean(options.plan) && !isRegisterMode;
 		const stdoutStream = options.stdout ?? process.stdout;
 		const stdinStream = process.stdin;
 		applyPlanExpandSections(scenarioPlan, options.planExpand);
-		const interactiveStreams = resolveInteractivePlanPreviewStreams(
-			planFormat,
-			options,
-			stdoutStream,
-			stdinStream,
-		);
+		// The preview redraws in raw mode; screen reader mode prints the plan as it is.
+		const interactiveStreams = screenReader
+			? undefined
+			: resolveInteractivePlanPreviewStreams(
+				planFormat,
+				options,
+				stdoutStream,
+				stdinStream,
+			);
 		if (interactiveStreams) {
 			const updatedSections = await runInteractivePlanPreview({
 				plan: scenarioPlan,
@@ -831,7 +1121,7 @@ const planRequested = Boolean(options.plan) && !isRegisterMode;
 	const planOnly = !isRegisterMode &&
 		Boolean(options.planOnly || (options.dryRun ?? false));
 		if (planOnly) {
-			outro(chalk.green("Preview generated."));
+			outro(getTheme().palette.success("Preview generated."));
 			await logWriter?.close().catch(() => undefined);
 			await promptPersistence?.save().catch((error) => {
 				log.warn(`Failed to save prompt answers: ${String(error)}`);
@@ -841,19 +1131,34 @@ const planRequested = Boolean(options.plan) && !isRegisterMode;
 		}
 
 			if (!options.quiet && interactiveTty && !nonInteractive) {
-				const proceed = await confirm({
-					message: "Proceed with execution?",
-					initialValue: true,
-				});
-				if (isCancel(proceed) || proceed === false) {
-					cancel("Execution skipped after preview.");
+				const proceed = await confirmExecution(effectiveEnvironment, environmentIsProtected, setupPrompts);
+				if (!proceed) {
+					cancel(t("execution.skipped"));
 					await logWriter?.close().catch(() => undefined);
 					await promptHistory.close().catch(() => undefined);
 					return { exitCode: 0 };
 				}
+				executionConfirmed = true;
 			}
 		}
 
+	// Runs without a preview, or quiet ones, still type the protected environment's name.
+	if (environmentIsProtected && !executionConfirmed && !(options.dryRun ?? false)) {
+		if (interactiveTty && !nonInteractive) {
+			if (!(await confirmExecution(effectiveEnvironment, true, setupPrompts))) {
+				cancel(t("execution.cancelled"));
+				await logWriter?.close().catch(() => undefined);
+				await promptHistory.close().catch(() => undefined);
+				return { exitCode: 0 };
+			}
+		} else if (!options.allowUnattendedProtected) {
+			cancel(t("execution.protectedUnattended", { environment: effectiveEnvironment }));
+			await logWriter?.close().catch(() => undefined);
+			await promptHistory.close().catch(() => undefined);
+			return { exitCode: 1 };
+		}
+	}
+
 	try {
 		checkpointManager = await createCheckpointManager({
 			repoRoot,
@@ -866,17 +1171,41 @@ const planRequested = Boolean(options.plan) && !isRegisterMode;
 		});
 		executorContext.checkpoint = checkpointManager;
 
-		const finalState = await executeScenario(
-			executorContext,
-			{
-				initialState: resumeState,
-				checkpoint: checkpointManager,
-				identity: identitySelection,
-			},
-		);
+		if (clackDriver) {
+			skipAnswersGivenFromTrail(promptHistory, clackDriver);
+		}
+		const persistedAnswers = promptPersistence
+			? trackPersistedAnswers(promptPersistence)
+			: undefined;
+		let finalState: WizardState;
+		// A step back re-runs the scenario from the answers the run started with;
+		// the driver answers the prompts before the revisited one from its trail.
+		while (true) {
+			try {
+				finalState = await executeScenario(
+					executorContext,
+					{
+						initialState: resumeState,
+						checkpoint: checkpointManager,
+						identity: identitySelection,
+					},
+				);
+				break;
+			} catch (error) {
+				if (!isPromptNavigationSignal(error)) {
+					throw error;
+				}
+				persistedAnswers?.restore();
+				clackDriver?.rewind();
+			}
+		}
 
 		await checkpointManager?.finalize(finalState, "completed");
 
+		if (promptDriver instanceof ReplayPromptDriver && promptDriver.remaining > 0) {
+			log.warn(t("replay.unasked", { count: promptDriver.remaining }));
+		}
+
 		if (promptPersistence && finalState.answers.policies !== undefined) {
 			promptPersistence.set(
 				{ scope: "scenario", key: "policies" },
@@ -920,31 +1249,32 @@ const planRequested = Boolean(options.plan) && !isRegisterMode;
 			await writeManifest(registerManifestPath, manifestPayload);
 			const relativeManifestPath = relativeToRepo(repoRoot, registerManifestPath);
 			log.success(
-				`Manifest captured at ${chalk.cyan(relativeManifestPath)}. Re-run later with "dev-wizard execute --manifest ${relativeManifestPath}".`,
+				`Manifest captured at ${getTheme().palette.accent(relativeManifestPath)}. Re-run later with "dev-wizard execute --manifest ${relativeManifestPath}".`,
 			);
 		}
 		const summaryLines = buildSummaryLines(finalState, options);
 		if (options.logFile) {
-			summaryLines.push(`log file: ${path.resolve(options.logFile)}`);
+			summaryLines.push(t("summary.logFile", { path: path.resolve(options.logFile) }));
 		}
 
+		const { palette, symbols } = getTheme();
 		const summaryTitle =
 			finalState.failedSteps > 0
-				? chalk.red("❌ Wizard Summary")
+				? palette.danger(`${symbols.statusFailure} ${t("summary.title")}`)
 				: exitCode === 0
-					? chalk.green("✅ Wizard Summary")
-					: chalk.yellow("⚠️ Wizard Summary");
+					? palette.success(`${symbols.statusSuccess} ${t("summary.title")}`)
+					: palette.warning(`${symbols.statusWarning} ${t("summary.title")}`);
 
 		note(summaryLines.join("\n"), summaryTitle);
 
 		const outroMessage =
 			finalState.failedSteps > 0
-				? chalk.red("Wizard failed.")
+				? palette.danger(t("outro.failed"))
 				: finalState.exitedEarly
-					? chalk.yellow("Wizard exited early. Review the summary above.")
+					? palette.warning(t("outro.exitedEarly"))
 					: exitCode === 0
-						? chalk.green("Wizard complete.")
-						: chalk.yellow("Wizard finished with warnings.");
+						? palette.success(t("outro.complete"))
+						: palette.warning(t("outro.warnings"));
 
 		outro(outroMessage);
 
@@ -1029,12 +1359,13 @@ function listScenarios(config: DevWizardConfig) {
 		return;
 	}
 
+	const { palette } = getTheme();
 	note(
 		rows
 			.map(
 				(row) =>
-					`${chalk.cyan(row.label)} ${chalk.gray(`(${row.id})`)}${
-						row.description ? `\n${chalk.gray(row.description)}` : ""
+					`${palette.accent(row.label)} ${palette.muted(`(${row.id})`)}${
+						row.description ? `\n${palette.muted(row.description)}` : ""
 					}`,
 			)
 			.join("\n\n"),
@@ -1060,6 +1391,7 @@ function determineExitCode(state: WizardState): number {
 		providedSegmentDetails?: Record<string, IdentitySegmentMetadata>;
 		usingExternalAnswers: boolean;
 		interactive: boolean;
+		prompts: SetupPrompts;
 	}): Promise<WizardIdentitySelection | undefined> {
 		const identityConfig = options.scenario.identity;
 		const providedSegments = normalizeIdentitySegmentOverrides(
@@ -1115,6 +1447,7 @@ function determineExitCode(state: WizardState): number {
 				existing: persistedIdentities,
 				segments: identityConfig.segments,
 				metadataOverrides: providedSegmentDetails,
+				prompts: options.prompts,
 			});
 		}
 
@@ -1132,7 +1465,7 @@ function determineExitCode(state: WizardState): number {
 				options.interactive &&
 				!options.usingExternalAnswers
 			) {
-				return promptForIdentitySegments(identityConfig.segments, {
+				return promptForIdentitySegments(identityConfig.segments, options.prompts, {
 					metadataOverrides: providedSegmentDetails,
 					defaults: toIdentitySegmentDefaults(persistedIdentity),
 				});
@@ -1154,7 +1487,7 @@ function determineExitCode(state: WizardState): number {
 		);
 		}
 
-		return promptForIdentitySegments(identityConfig.segments, {
+		return promptForIdentitySegments(identityConfig.segments, options.prompts, {
 			provided: providedSegments,
 			metadataOverrides: providedSegmentDetails,
 			defaults: persistedIdentity
@@ -1196,6 +1529,7 @@ function parseIdentitySlug(
 
 	async function promptForIdentitySegments(
 		segments: DevWizardScenarioIdentity["segments"],
+		prompts: SetupPrompts,
 		options?: {
 			provided?: Record<string, string>;
 			metadataOverrides?: Record<string, IdentitySegmentMetadata>;
@@ -1204,8 +1538,12 @@ function parseIdentitySlug(
 	): Promise<WizardIdentitySelection> {
 		const selections: WizardIdentitySegmentSelection[] = [];
 		const selectionMap = new Map<string, WizardIdentitySegmentSelection>();
+		const defaults = { ...options?.defaults };
+		// Indexes of segments answered interactively, for stepping back with shift+tab.
+		const promptedIndexes: number[] = [];
 
-		for (const segment of segments) {
+		for (let index = 0; index < segments.length; index += 1) {
+			const segment = segments[index]!;
 			const overrideValue = options?.provided?.[segment.id];
 			if (overrideValue) {
 			const selection = buildWizardIdentitySegmentSelection(
@@ -1218,12 +1556,39 @@ function parseIdentitySlug(
 			selectionMap.set(segment.id, selection);
 			continue;
 		}
-			const selection = await promptForIdentitySegment(
-				segment,
-				selectionMap,
-				options?.metadataOverrides?.[segment.id],
-				options?.defaults?.[segment.id],
-			);
+			const backWatch = promptedIndexes.length > 0 ? watchBackNavigation() : undefined;
+			let selection: WizardIdentitySegmentSelection;
+			try {
+				selection = await promptForIdentitySegment(
+					segment,
+					selectionMap,
+					prompts,
+					options?.metadataOverrides?.[segment.id],
+					defaults[segment.id],
+					backWatch,
+				);
+			} catch (error) {
+				if (!(error instanceof PromptNavigationSignal)) {
+					throw error;
+				}
+				// Re-ask the previous prompted segment with its answer pre-selected and
+				// forget everything after it; CLI-provided segments are rebuilt on the way.
+				const previousIndex = promptedIndexes.pop()!;
+				const previousSegment = segments[previousIndex]!;
+				const previousValue = selectionMap.get(previousSegment.id)?.value;
+				if (previousValue !== undefined) {
+					defaults[previousSegment.id] = previousValue;
+				}
+				for (const dropped of segments.slice(previousIndex, index)) {
+					selectionMap.delete(dropped.id);
+				}
+				selections.length = previousIndex;
+				index = previousIndex - 1;
+				continue;
+			} finally {
+				backWatch?.dispose();
+			}
+			promptedIndexes.push(index);
 			selections.push(selection);
 			selectionMap.set(segment.id, selection);
 		}
@@ -1237,8 +1602,10 @@ function parseIdentitySlug(
 	async function promptForIdentitySegment(
 		segment: DevWizardScenarioIdentity["segments"][number],
 		selectionMap: Map<string, WizardIdentitySegmentSelection>,
+		prompts: SetupPrompts,
 		metadataOverride?: IdentitySegmentMetadata,
 		defaultValue?: string,
+		backWatch?: BackNavigationWatch,
 	): Promise<WizardIdentitySegmentSelection> {
 		if (segment.options && segment.options.length > 0) {
 			const options = segment.options.map((option) => ({
@@ -1246,33 +1613,34 @@ function parseIdentitySlug(
 				label: option.label ?? option.value,
 				hint: option.hint,
 			}));
-			const allowCustom = Boolean(segment.allowCustom);
-			if (allowCustom) {
-				options.push({
-					value: "__custom__",
-					label: "Custom value",
-					hint: "Enter a custom value",
-				});
-			}
 			if (defaultValue) {
 				const existing = options.find((option) => option.value === defaultValue);
 				if (existing) {
 					options.splice(options.indexOf(existing), 1);
 					options.unshift(existing);
-				} else if (allowCustom) {
-					options.unshift({
-						value: "__saved__",
-						label: defaultValue,
-						hint: "Saved value",
-					});
 				}
 			}
-			const choice = await select({
-				message: segment.prompt,
-				options,
-			});
+			// A saved custom value isn't listed; selectWithOther opens on it in the "Custom value..." entry.
+			const choice = segment.allowCustom
+				? await prompts.selectWithOther({
+					message: segment.prompt,
+					options,
+					initialValue: defaultValue,
+					otherLabel: t("identity.customValue"),
+					otherInitialValue: segment.defaultValue
+						? renderIdentityDefaultTemplate(segment.defaultValue, selectionMap)
+						: undefined,
+					placeholder: segment.placeholder,
+				})
+				: await prompts.select({
+					message: segment.prompt,
+					options,
+				});
 		if (isCancel(choice)) {
-			cancel("Execution cancelled before selecting an answers identity.");
+			if (backWatch?.requested) {
+				throw new PromptNavigationSignal("back");
+			}
+			cancel(t("identity.cancelled"));
 			throw new IdentityPromptCancelledError();
 		}
 			if (typeof choice !== "string") {
@@ -1280,29 +1648,19 @@ function parseIdentitySlug(
 					`Identity segment "${segment.id}" returned a non-string selection.`,
 				);
 			}
-			if (choice === "__saved__") {
-				return buildWizardIdentitySegmentSelection(
+		const option = segment.options.find((entry) => entry.value === choice);
+		if (!option && segment.allowCustom) {
+			// The saved value kept as-is counts like a CLI-provided one; anything else was typed now.
+			return choice === defaultValue
+				? buildWizardIdentitySegmentSelection(
 					segment,
-					defaultValue ?? "",
+					choice,
 					"cli",
 					metadataOverride,
 					{ acceptUnlistedValues: true },
-				);
-			}
-			if (choice === "__custom__") {
-				const customValue = await promptForCustomIdentityValue(
-					segment,
-					selectionMap,
-					defaultValue,
-				);
-				return buildWizardIdentitySegmentSelection(
-					segment,
-					customValue,
-					"custom",
-					metadataOverride,
-				);
-			}
-		const option = segment.options.find((entry) => entry.value === choice);
+				)
+				: buildWizardIdentitySegmentSelection(segment, choice, "custom", metadataOverride);
+		}
 		return buildWizardIdentitySegmentSelection(
 			segment,
 			choice,
@@ -1318,7 +1676,9 @@ function parseIdentitySlug(
 		const customValue = await promptForCustomIdentityValue(
 			segment,
 			selectionMap,
+			prompts,
 			defaultValue,
+			backWatch,
 		);
 		return buildWizardIdentitySegmentSelection(
 			segment,
@@ -1331,20 +1691,25 @@ function parseIdentitySlug(
 	async function promptForCustomIdentityValue(
 		segment: DevWizardScenarioIdentity["segments"][number],
 		selectionMap: Map<string, WizardIdentitySegmentSelection>,
+		prompts: SetupPrompts,
 		initialValueOverride?: string,
+		backWatch?: BackNavigationWatch,
 	): Promise<string> {
 		const initialValue = initialValueOverride
 			? initialValueOverride
 			: segment.defaultValue
 				? renderIdentityDefaultTemplate(segment.defaultValue, selectionMap)
 				: undefined;
-		const response = await text({
+		const response = await prompts.text({
 			message: segment.prompt,
 			placeholder: segment.placeholder,
 			initialValue,
 		});
 	if (isCancel(response)) {
-		cancel("Execution cancelled before selecting an answers identity.");
+		if (backWatch?.requested) {
+			throw new PromptNavigationSignal("back");
+		}
+		cancel(t("identity.cancelled"));
 		throw new IdentityPromptCancelledError();
 	}
 	const trimmed = response.trim();
@@ -1358,10 +1723,11 @@ function parseIdentitySlug(
 		existing: WizardIdentitySelection[];
 		segments: DevWizardScenarioIdentity["segments"];
 		metadataOverrides?: Record<string, IdentitySegmentMetadata>;
+		prompts: SetupPrompts;
 	}): Promise<WizardIdentitySelection> {
 		while (true) {
-			const response = await select({
-				message: "Select an existing answers identity (or create a new one):",
+			const response = await options.prompts.select({
+				message: t("identity.selectExisting"),
 				options: [
 					...options.existing.map((selection) => ({
 						value: selection.slug,
@@ -1370,23 +1736,23 @@ function parseIdentitySlug(
 					})),
 					{
 						value: "__new__",
-						label: "Create a new identity",
-						hint: "Answer the identity prompts before continuing.",
+						label: t("identity.createNew"),
+						hint: t("identity.createNewHint"),
 					},
 				],
 			});
 			if (isCancel(response)) {
-				cancel("Execution cancelled before selecting an answers identity.");
+				cancel(t("identity.cancelled"));
 				throw new IdentityPromptCancelledError();
 			}
 			if (response === "__new__") {
-				return promptForIdentitySegments(options.segments, {
+				return promptForIdentitySegments(options.segments, options.prompts, {
 					metadataOverrides: options.metadataOverrides,
 				});
 			}
 			const selected = options.existing.find((entry) => entry.slug === response);
 			if (selected) {
-				return promptForIdentitySegments(options.segments, {
+				return promptForIdentitySegments(options.segments, options.prompts, {
 					metadataOverrides: options.metadataOverrides,
 					defaults: toIdentitySegmentDefaults(selected),
 				});
@@ -1396,30 +1762,30 @@ function parseIdentitySlug(
 
 async function promptForPersistedAnswersStrategy(options: {
 	filePath: string;
-}): Promise<"reuse" | "review" | "reset"> {
+}, prompts: SetupPrompts): Promise<"reuse" | "review" | "reset"> {
 	while (true) {
-		const response = await select({
-			message: `Saved answers file ${chalk.cyan(options.filePath)} already exists. How should Dev Wizard proceed?`,
+		const response = await prompts.select({
+			message: t("answers.strategy", { filePath: getTheme().palette.accent(options.filePath) }),
 			options: [
 				{
 					value: "reuse",
-					label: "Reuse saved answers",
-					hint: "Skip prompts and keep the existing values for this run.",
+					label: t("answers.strategy.reuse"),
+					hint: t("answers.strategy.reuseHint"),
 				},
 				{
 					value: "review",
-					label: "Review and update answers",
-					hint: "Use saved answers as defaults, but run every prompt again.",
+					label: t("answers.strategy.review"),
+					hint: t("answers.strategy.reviewHint"),
 				},
 				{
 					value: "reset",
-					label: "Start from scratch",
-					hint: "Clear saved answers before prompting and capture new values.",
+					label: t("answers.strategy.reset"),
+					hint: t("answers.strategy.resetHint"),
 				},
 			],
 		});
 		if (isCancel(response)) {
-			cancel("Execution cancelled before confirming how to use the saved answers file.");
+			cancel(t("answers.strategy.cancelled"));
 			throw new PersistedAnswersStrategyCancelledError();
 		}
 		if (
@@ -1793,12 +2159,83 @@ class IdentityPromptCancelledError extends Error {}
 class PersistedAnswersStrategyCancelledError extends Error {}
 class ConfigPickerCancelledError extends Error {}
 
+function resolvePromptTimeout(configured: number | undefined): number | undefined {
+	if (configured !== undefined) {
+		return configured;
+	}
+	const fromEnv = process.env.DEV_WIZARD_PROMPT_TIMEOUT;
+	if (!fromEnv) {
+		return undefined;
+	}
+	const parsed = parseDuration(fromEnv);
+	if ("error" in parsed) {
+		log.warn(`Ignoring DEV_WIZARD_PROMPT_TIMEOUT: ${parsed.error}`);
+		return undefined;
+	}
+	return parsed.value;
+}
+
+function reportPromptTimeout(event: PromptTimeoutEvent, logWriter: RunnerLogWriter | undefined) {
+	const waited = formatDuration(event.timeoutMs);
+	if (event.outcome === "default") {
+		log.warn(`No answer to "${event.message}" after ${waited}; used the default.`);
+	} else {
+		log.warn(`No answer to "${event.message}" after ${waited} and no default; cancelled.`);
+	}
+	logWriter?.write({ type: "prompt.auto-answer", ...event });
+}
+
+function resolveProtectedEnvironments(configured: readonly string[] | undefined): string[] {
+	if (configured) {
+		return [...configured];
+	}
+	const fromEnv = process.env.DEV_WIZARD_PROTECTED_ENVS;
+	if (fromEnv !== undefined) {
+		return fromEnv
+			.split(",")
+			.map((entry) => entry.trim())
+			.filter((entry) => entry.length > 0);
+	}
+	return DEFAULT_PROTECTED_ENVIRONMENTS;
+}
+
+function isProtectedEnvironment(
+	environment: string | undefined,
+	protectedEnvironments: readonly string[],
+): environment is string {
+	return environment !== undefined &&
+		protectedEnvironments.some((entry) => entry.toLowerCase() === environment.toLowerCase());
+}
+
+/**
+ * Asks before executing the previewed plan. Runs against a protected
+ * environment need the environment name typed back.
+ */
+async function confirmExecution(
+	environment: string | undefined,
+	isProtected: boolean,
+	prompts: SetupPrompts,
+): Promise<boolean> {
+	if (isProtected && environment !== undefined) {
+		const confirmed = await prompts.typedConfirm({
+			message: t("execution.confirmProtected", { environment: getTheme().palette.warning(environment) }),
+			phrase: environment,
+		});
+		return !isCancel(confirmed);
+	}
+	const proceed = await prompts.confirm({
+		message: t("execution.confirm"),
+		initialValue: true,
+	});
+	return !isCancel(proceed) && proceed !== false;
+}
+
 function buildSummaryLines(state: WizardState, options: DevWizardOptions): string[] {
 	const lines = [
-		`${state.completedSteps} step${state.completedSteps === 1 ? "" : "s"} executed`,
-		options.dryRun ? "mode: dry-run" : "mode: live",
-		options.verbose ? "verbosity: verbose" : "verbosity: normal",
-		`duration: ${formatDuration(getScenarioDurationMs(state))}`,
+		t("summary.steps", { count: state.completedSteps }),
+		options.dryRun ? t("summary.modeDryRun") : t("summary.modeLive"),
+		options.verbose ? t("summary.verbosityVerbose") : t("summary.verbosityNormal"),
+		t("summary.duration", { duration: formatDuration(getScenarioDurationMs(state)) }),
 	];
 
 	if (options.quiet) {
@@ -1809,7 +2246,7 @@ function buildSummaryLines(state: WizardState, options: DevWizardOptions): strin
 	} else {
 		const flowTable = renderFlowSummaryTable(state.flowRuns);
 		if (flowTable) {
-			lines.push("flow timeline:");
+			lines.push(t("summary.flowTimeline"));
 			lines.push(flowTable);
 		} else {
 			const flowSummary = buildFlowSummary(state.flowRuns);
@@ -1820,11 +2257,9 @@ function buildSummaryLines(state: WizardState, options: DevWizardOptions): strin
 	}
 
 	if (state.failedSteps > 0) {
-		lines.push(
-			`${state.failedSteps} failure${state.failedSteps === 1 ? "" : "s"} encountered`,
-		);
+		lines.push(t("summary.failures", { count: state.failedSteps }));
 	} else if (state.exitedEarly) {
-		lines.push("status: exited early");
+		lines.push(t("summary.exitedEarly"));
 	}
 
 	const retrySummary = collectRetrySummary(state);
@@ -1872,11 +2307,11 @@ function collectPolicyDecisionSummary(state: WizardState): string | undefined {
 			decision.ruleLevel === decision.enforcedLevel
 				? decision.enforcedLevel
 				: `${decision.ruleLevel}->${decision.enforcedLevel}`;
-		const acknowledgement = decision.acknowledged ? ", acknowledged" : "";
+		const acknowledgement = decision.acknowledged ? `, ${t("summary.policyAcknowledged")}` : "";
 		summaries.add(`${decision.ruleId} (${enforcedLabel}${acknowledgement})`);
 	}
 
-	return `policy decisions: ${Array.from(summaries).join("; ")}`;
+	return t("summary.policyDecisions", { items: Array.from(summaries).join("; ") });
 }
 
 function buildFlowSummary(flowRuns: WizardState["flowRuns"]): string | undefined {
@@ -1891,8 +2326,8 @@ function buildFlowSummary(flowRuns: WizardState["flowRuns"]): string | undefined
 	});
 
 	return flowRuns.length === 1
-		? `flow: ${formatted[0]}`
-		: `flows: ${formatted.join(" → ")}`;
+		? t("summary.flow", { flow: formatted[0]! })
+		: t("summary.flows", { flows: formatted.join(` ${getTheme().symbols.arrowRight} `) });
 }
 
 function getScenarioDurationMs(state: WizardState): number {
@@ -1931,11 +2366,15 @@ function renderFlowSummaryTable(flowRuns: WizardState["flowRuns"]): string | und
 		return undefined;
 	}
 
-	const headers = ["Flow", "Duration", "Status"];
+	const headers = [
+		t("summary.flowTable.flow"),
+		t("summary.flowTable.duration"),
+		t("summary.flowTable.status"),
+	];
 	const rows = flowRuns.map((run) => [
 		run.flowId,
 		formatDuration(run.durationMs),
-		run.exitedEarly ? "exit" : "ok",
+		run.exitedEarly ? t("summary.flowTable.exit") : t("summary.flowTable.ok"),
 	]);
 
 	const widths = headers.map((header, index) =>
@@ -1972,13 +2411,11 @@ function collectCapturedOutputSummary(
 	}
 
 	if (options.quiet) {
-		return [
-			`captured output stored for ${captures.length} command${captures.length === 1 ? "" : "s"} (hidden in quiet mode)`,
-		];
+		return [t("summary.capturedOutputHidden", { count: captures.length })];
 	}
 
 	const maxEntries = 3;
-	const lines: string[] = ["captured output:"];
+	const lines: string[] = [t("summary.capturedOutput")];
 	const recentCaptures = captures.slice(-maxEntries);
 
 	for (const record of recentCaptures) {
@@ -1998,7 +2435,7 @@ function collectCapturedOutputSummary(
 	}
 
 	if (captures.length > maxEntries) {
-		lines.push("  …");
+		lines.push(`  ${getTheme().symbols.ellipsis}`);
 	}
 
 	return lines;
@@ -2031,7 +2468,7 @@ function collectRetrySummary(state: WizardState): string | undefined {
 		return undefined;
 	}
 
-	return `retries: ${formatted.join(", ")}`;
+	return t("summary.retries", { items: formatted.join(", ") });
 }
 
 function collectSkipSummary(state: WizardState): string | undefined {
@@ -2047,9 +2484,9 @@ function collectSkipSummary(state: WizardState): string | undefined {
 		const actionSuffix = entry.actionLabel
 			? ` -> ${entry.actionLabel}`
 			: entry.reason === "default"
-				? " (default)"
+				? ` (${t("summary.skipDefault")})`
 				: entry.reason === "policy"
-					? " (policy)"
+					? ` (${t("summary.skipPolicy")})`
 				: "";
 		const label = `${stepLabel}${actionSuffix}`;
 		const current = counts.get(label);
@@ -2068,7 +2505,7 @@ function collectSkipSummary(state: WizardState): string | undefined {
 		return undefined;
 	}
 
-	return `skips: ${formatted.join(", ")}`;
+	return t("summary.skips", { items: formatted.join(", ") });
 }
 
 async function emitScenarioPlan(
@@ -2150,10 +2587,11 @@ async function runInteractivePlanPreview({
 	const render = () => {
 		clearInteractivePreview(stdout);
 		const summary = `env: ${plan.preferences.expandEnv ? "on" : "off"} | templates: ${plan.preferences.expandTemplates ? "on" : "off"} | branches: ${plan.preferences.expandBranches ? "on" : "off"}`;
-		stdout.write(`${chalk.cyan("Dry-Run Preview (interactive)")}\n`);
-		stdout.write(`${chalk.gray(summary)}\n\n`);
+		const { palette } = getTheme();
+		stdout.write(`${palette.accent("Dry-Run Preview (interactive)")}\n`);
+		stdout.write(`${palette.muted(summary)}\n\n`);
 		stdout.write(formatScenarioPlanPretty(plan));
-		stdout.write(`\n${chalk.gray(instructions)}\n`);
+		stdout.write(`\n${palette.muted(instructions)}\n`);
 	};
 
 	return await new Promise<PlanExpandSection[]>((resolve) => {
@@ -2307,7 +2745,7 @@ function collectTimeoutSummary(state: WizardState): string | undefined {
 		return undefined;
 	}
 
-	return `timed-out commands: ${formatCommandList(timeouts)}`;
+	return t("summary.timedOut", { commands: formatCommandList(timeouts) });
 }
 
 function collectLongRunningSummary(state: WizardState): string | undefined {
@@ -2316,7 +2754,7 @@ function collectLongRunningSummary(state: WizardState): string | undefined {
 		return undefined;
 	}
 
-	return `long-running commands: ${formatCommandList(longRunning)}`;
+	return t("summary.longRunning", { commands: formatCommandList(longRunning) });
 }
 
 function formatCommandList(records: CommandExecutionRecord[]): string {
@@ -2326,7 +2764,7 @@ function formatCommandList(records: CommandExecutionRecord[]): string {
 	});
 
 	if (records.length > formatted.length) {
-		formatted.push("…");
+		formatted.push(getTheme().symbols.ellipsis);
 	}
 
 	return formatted.join(", ");
@@ -2376,6 +2814,7 @@ function formatConfigResolution(
 async function resolveScenario(
 	config: DevWizardConfig,
 	options: DevWizardOptions,
+	prompts: SetupPrompts,
 ): Promise<DevWizardScenario> {
 	if (options.scenario) {
 		const match = config.scenarios.find(
@@ -2399,17 +2838,24 @@ async function resolveScenario(
 		throw new Error("No scenarios are defined in the loaded configuration.");
 	}
 
-	const choice = await select({
-		message: "Select the scenario to run",
-		options: config.scenarios.map((scenario) => ({
-			value: scenario.id,
-			label: scenario.label,
-			hint: scenario.description,
-		})),
+	const scenarioOptions = config.scenarios.map((scenario) => ({
+		value: scenario.id,
+		label: scenario.label,
+		hint: scenario.description,
+		group: resolveScenarioGroup(scenario),
+	}));
+	const scenariosById = new Map(config.scenarios.map((scenario) => [scenario.id, scenario]));
+	const choice = await prompts.selectWithShortcuts({
+		message: t("scenario.select"),
+		options: scenarioOptions,
+		details: (option) => {
+			const scenario = scenariosById.get(option.value);
+			return scenario ? describeScenario(scenario) : undefined;
+		},
 	});
 
 	if (isCancel(choice)) {
-		cancel("Scenario selection cancelled.");
+		cancel(t("scenario.cancelled"));
 		throw new Error("User cancelled scenario selection.");
 	}
 
@@ -2422,9 +2868,90 @@ async function resolveScenario(
 	return selected;
 }
 
+type PromptHistoryManager = ReturnType<typeof createPromptHistoryManager>;
+
+/**
+ * Makes `history` skip the answers `driver` gives again from its trail after
+ * a step back; they were recorded when first given.
+ */
+function skipAnswersGivenFromTrail(history: PromptHistoryManager, driver: ClackPromptDriver) {
+	const record = history.record.bind(history);
+	history.record = (key: string, value: unknown) => {
+		if (!driver.answeredFromTrail) {
+			record(key, value);
+		}
+	};
+}
+
+type PersistenceKey = Parameters<PromptPersistenceManager["set"]>[0];
+
+/**
+ * Remembers what each answer `persistence` stores held before this run, so
+ * a re-run after a step back starts from the same answers as the first one
+ * instead of reusing what was answered since.
+ */
+function trackPersistedAnswers(persistence: PromptPersistenceManager): { restore(): void } {
+	const before = new Map<string, { key: PersistenceKey; value: unknown }>();
+	const set = persistence.set.bind(persistence);
+	persistence.set = (key: PersistenceKey, value: unknown) => {
+		const id = JSON.stringify(key);
+		if (!before.has(id)) {
+			before.set(id, { key, value: persistence.get(key) });
+		}
+		set(key, value);
+	};
+	return {
+		restore() {
+			for (const { key, value } of before.values()) {
+				set(key, value);
+			}
+			before.clear();
+		},
+	};
+}
+
+/** Messages of the prompt steps named in `secretSteps`, in any flow. */
+function collectSecretPromptMessages(
+	config: DevWizardConfig,
+	secretSteps: readonly string[],
+): Set<string> {
+	const messages = new Set<string>();
+	for (const flow of Object.values(config.flows)) {
+		for (const step of flow.steps) {
+			if (step.type === "prompt" && secretSteps.includes(step.id)) {
+				messages.add(step.prompt);
+			}
+		}
+	}
+	return messages;
+}
+
+/**
+ * Section a scenario is listed under in the picker: its `category`, falling
+ * back to its first tag. Scenarios without either stay ungrouped.
+ */
+function resolveScenarioGroup(scenario: DevWizardScenario): string | undefined {
+	return scenario.category?.trim() || scenario.tags?.[0]?.trim() || undefined;
+}
+
+/** Detail panel lines for the scenario picker. */
+function describeScenario(scenario: DevWizardScenario): string[] {
+	const flowIds = [
+		...new Set([...(scenario.flow ? [scenario.flow] : []), ...(scenario.flows ?? [])]),
+	];
+	const segments = scenario.identity?.segments ?? [];
+	return [
+		...(scenario.description ? [scenario.description] : []),
+		...(flowIds.length > 0 ? [t("summary.flows", { flows: flowIds.join(", ") })] : []),
+		...(segments.length > 0
+			? [t("scenario.identity", { segments: segments.map((segment) => segment.id).join(" / ") })]
+			: []),
+	];
+}
+
 function handleFatalError(error: Error, message: string) {
 	log.error(`${message}: ${error.message}`);
-	outro(chalk.red("Wizard exited with errors."));
+	outro(getTheme().palette.danger("Wizard exited with errors."));
 }
 
 function createConfigHash(config: DevWizardConfig): string {
@@ -2489,27 +3016,29 @@ const DEFAULT_CONFIG_DIRS = [
 
 const WIZARD_CONFIG_EXTENSIONS = [".yaml", ".yml", ".json", ".json5"];
 
-async function selectConfigPath(repoRoot: string): Promise<string | null> {
+async function selectConfigPath(repoRoot: string, prompts: SetupPrompts): Promise<string | null> {
 	const candidates = await collectConfigPickerCandidates(repoRoot);
 	if (candidates.length === 0) {
 		return null;
 	}
 	if (candidates.length === 1) {
 		log.info(
-			`Using ${chalk.cyan(candidates[0]?.label ?? candidates[0]!.path)} for this run.`,
+			`Using ${getTheme().palette.accent(candidates[0]?.label ?? candidates[0]!.path)} for this run.`,
 		);
 		return candidates[0]!.path;
 	}
-	const choice = await select({
-		message: "Select a configuration file to run",
+	const choice = await prompts.selectWithShortcuts({
+		message: t("config.select"),
 		options: candidates.map((candidate) => ({
 			value: candidate.path,
 			label: candidate.label,
 			hint: candidate.hint,
 		})),
+		// Loading every candidate up front would stall the picker on slow configs.
+		details: (option) => summarizeConfigScenarios(option.value, repoRoot),
 	});
 	if (isCancel(choice)) {
-		cancel("Configuration selection cancelled.");
+		cancel(t("config.cancelled"));
 		throw new ConfigPickerCancelledError();
 	}
 	if (typeof choice !== "string") {
@@ -2518,10 +3047,34 @@ async function selectConfigPath(repoRoot: string): Promise<string | null> {
 	return choice;
 }
 
+/**
+ * Scenario list for a config picker candidate. Files that don't load on
+ * their own (e.g. overlays) show the load error instead.
+ */
+async function summarizeConfigScenarios(configPath: string, repoRoot: string): Promise<string[]> {
+	try {
+		const config = await loadConfig({
+			configPaths: [configPath],
+			cwd: repoRoot,
+			onWarning: () => undefined,
+		});
+		if (config.scenarios.length === 0) {
+			return [t("scenario.none")];
+		}
+		return [
+			t("scenario.count", { count: config.scenarios.length }),
+			...config.scenarios.map((scenario) => `${scenario.label} (${scenario.id})`),
+		];
+	} catch (error) {
+		return [t("scenario.loadFailed", { error: error instanceof Error ? error.message : String(error) })];
+	}
+}
+
 async function resolveConfigPathWithFallback(
 	repoRoot: string,
+	prompts: SetupPrompts,
 ): Promise<{ path: string; repoRoot: string } | null> {
-	const primary = await selectConfigPath(repoRoot);
+	const primary = await selectConfigPath(repoRoot, prompts);
 	if (primary) {
 		return { path: primary, repoRoot };
 	}
@@ -2531,7 +3084,7 @@ async function resolveConfigPathWithFallback(
 		return null;
 	}
 
-	const fallback = await selectConfigPath(fallbackRoot);
+	const fallback = await selectConfigPath(fallbackRoot, prompts);
 	if (!fallback) {
 		return null;
 	}
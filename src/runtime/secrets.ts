@@ -0,0 +1,185 @@
+import type { WizardLogWriter } from "@ScaffoldStack/dev-wizard-engine/runtime/logWriter.js";
+import type { createPromptHistoryManager } from "@ScaffoldStack/dev-wizard-engine/runtime/promptHistory.js";
+import type { PromptPersistenceManager } from "@ScaffoldStack/dev-wizard-engine/runtime/promptPersistence.js";
+import type { SessionPromptDriver } from "./recordingPromptDriver.js";
+
+type PromptHistoryManager = ReturnType<typeof createPromptHistoryManager>;
+type PersistenceKey = Parameters<PromptPersistenceManager["set"]>[0];
+
+export const REDACTED_SECRET = "[redacted]";
+
+// Shorter secrets are only redacted when they make up a whole string; replacing
+// every occurrence of a one- or two-character value would shred the logs.
+const MIN_SUBSTRING_REDACTION_LENGTH = 4;
+
+/**
+ * Values answered through masked prompts during a run. The prompt driver
+ * registers them; log writers, prompt persistence and prompt history consult
+ * the registry so secrets never leave the process in clear text.
+ */
+export class SecretRegistry {
+	private readonly values = new Set<string>();
+
+	register(value: string) {
+		if (value.length > 0) {
+			this.values.add(value);
+		}
+	}
+
+	has(value: unknown): boolean {
+		return typeof value === "string" && this.values.has(value);
+	}
+
+	get size(): number {
+		return this.values.size;
+	}
+
+	redactText(text: string): string {
+		if (this.values.has(text)) {
+			return REDACTED_SECRET;
+		}
+		let redacted = text;
+		for (const secret of this.values) {
+			if (secret.length >= MIN_SUBSTRING_REDACTION_LENGTH) {
+				redacted = redacted.split(secret).join(REDACTED_SECRET);
+			}
+		}
+		return redacted;
+	}
+
+	/** Deep-copies `value`, replacing secrets inside every string it contains. */
+	redact<T>(value: T): T {
+		if (this.values.size === 0) {
+			return value;
+		}
+		return redactValue(value, (text) => this.redactText(text)) as T;
+	}
+
+	/**
+	 * Deep-copies `value`, replacing only strings that are a secret as a
+	 * whole. For stored answers, where a substring match would rewrite an
+	 * unrelated answer that happens to contain the secret.
+	 */
+	redactAnswers<T>(value: T): T {
+		if (this.values.size === 0) {
+			return value;
+		}
+		return redactValue(value, (text) => (this.values.has(text) ? REDACTED_SECRET : text)) as T;
+	}
+
+	/** True when `value` is, or holds, a string that is a secret as a whole. */
+	holdsSecret(value: unknown): boolean {
+		if (typeof value === "string") {
+			return this.values.has(value);
+		}
+		if (Array.isArray(value)) {
+			return value.some((entry) => this.holdsSecret(entry));
+		}
+		if (value && typeof value === "object") {
+			return Object.values(value).some((entry) => this.holdsSecret(entry));
+		}
+		return false;
+	}
+}
+
+function redactValue(value: unknown, redactString: (text: string) => string): unknown {
+	if (typeof value === "string") {
+		return redactString(value);
+	}
+	if (Array.isArray(value)) {
+		return value.map((entry) => redactValue(entry, redactString));
+	}
+	if (value && typeof value === "object" && !(value instanceof Date)) {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, entry]) => [key, redactValue(entry, redactString)]),
+		);
+	}
+	return value;
+}
+
+export function createRedactingLogWriter(
+	writer: WizardLogWriter,
+	secrets: SecretRegistry,
+): WizardLogWriter {
+	return {
+		write(event) {
+			writer.write(secrets.redact(event));
+		},
+		close() {
+			return writer.close();
+		},
+	};
+}
+
+/**
+ * Makes a prompt persistence manager store secret answers as
+ * `REDACTED_SECRET`; other answers are stored untouched even when they
+ * contain a secret's text. Reads of an answer that holds the marker come out
+ * as `undefined`, so a redacted answer is asked for again instead of reused.
+ */
+export function redactPersistedSecrets(
+	persistence: PromptPersistenceManager,
+	secrets: SecretRegistry,
+): PromptPersistenceManager {
+	const set = persistence.set.bind(persistence);
+	const get = persistence.get.bind(persistence);
+	persistence.set = (key: PersistenceKey, value: unknown) => set(key, secrets.redactAnswers(value));
+	persistence.get = (key: PersistenceKey) => {
+		const value = get(key);
+		return holdsRedactedSecret(value) ? undefined : value;
+	};
+	return persistence;
+}
+
+/**
+ * Makes a prompt history manager skip answers that hold a secret, so masked
+ * prompts never show up in history suggestions.
+ */
+export function excludeSecretsFromHistory(
+	history: PromptHistoryManager,
+	secrets: SecretRegistry,
+): PromptHistoryManager {
+	const record = history.record.bind(history);
+	history.record = (key: string, value: unknown) => {
+		if (!secrets.holdsSecret(value)) {
+			record(key, value);
+		}
+	};
+	return history;
+}
+
+function holdsRedactedSecret(value: unknown): boolean {
+	if (value === REDACTED_SECRET) {
+		return true;
+	}
+	if (value && typeof value === "object") {
+		return Object.values(value).some(holdsRedactedSecret);
+	}
+	return false;
+}
+
+type SecretPromptDriver = Pick<SessionPromptDriver, "text" | "textWithHistory" | "password">;
+
+/**
+ * Makes a driver ask the text prompts with one of `messages` through
+ * `password` instead, so secret steps are masked on screen and their answers
+ * registered for redaction. The engine only hands the driver a prompt's
+ * message, so steps are matched on it.
+ */
+export function maskSecretPrompts<Driver extends SecretPromptDriver>(
+	driver: Driver,
+	messages: ReadonlySet<string>,
+): Driver {
+	if (messages.size === 0) {
+		return driver;
+	}
+	const text = driver.text.bind(driver);
+	const textWithHistory = driver.textWithHistory.bind(driver);
+	const password = driver.password.bind(driver);
+	const masked = ({ message, help, timeoutMs, validate }: Parameters<Driver["password"]>[0]) =>
+		password({ message, help, timeoutMs, validate });
+	driver.text = (options) => (messages.has(options.message) ? masked(options) : text(options));
+	driver.textWithHistory = (options) =>
+		messages.has(options.message) ? masked(options) : textWithHistory(options);
+	return driver;
+}
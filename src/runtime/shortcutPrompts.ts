@@ -1,16 +1,55 @@
-import { SelectPrompt } from "@clack/core";
+import { SelectPrompt, type Prompt } from "@clack/core";
 import process from "node:process";
-import pc from "picocolors";
+import type { Readable, Writable } from "node:stream";
 
-export type ShortcutAction = "skip-step" | "replay-command" | "safe-abort";
+import { t } from "./i18n.js";
+import {
+	AsyncOptionsLoader,
+	isOptionsProvider,
+	type OptionsSource,
+} from "./prompts/asyncOptions.js";
+import { closePrompt, renderPrompt } from "./prompts/clackInternals.js";
+import {
+	DISABLED_OPTION_ERROR,
+	formatDisabledOption,
+	isOptionDisabled,
+	skipDisabledOptions,
+	type DisableableOption,
+} from "./prompts/disabledOptions.js";
+import { FilterSelectPrompt } from "./prompts/filterSelectPrompt.js";
+import { highlightMatches, type OptionMatch } from "./prompts/fuzzyMatch.js";
+import {
+	formatGroupHeader,
+	groupOf,
+	sortByGroup,
+	type GroupableOption,
+} from "./prompts/optionGroups.js";
+import { HELP_KEY, HelpPanel, type PromptHelp } from "./prompts/promptHelp.js";
+import { resolveVisibleRows, sliceViewport } from "./prompts/viewport.js";
+import {
+	ShortcutConflictError,
+	defaultShortcutRegistry,
+	detectShortcutConflicts,
+	normalizeShortcutKey,
+	type BuiltInShortcutAction,
+	type ShortcutActionDefinition,
+	type ShortcutBinding,
+	type ShortcutRegistry,
+} from "./shortcutRegistry.js";
+import { formatStateSymbol, getTheme } from "./theme.js";
+
+/** Built-in actions, or any action id registered by a plugin or embedder. */
+export type ShortcutAction = BuiltInShortcutAction | (string & {});
 
 export interface ShortcutConfig<Value> {
 	key: string;
 	value: Value;
 	action: ShortcutAction;
+	/** Legend text; defaults to the registry label for `action`. */
+	label?: string;
 }
 
-export interface ShortcutSelectOption<Value> {
+export interface ShortcutSelectOption<Value> extends DisableableOption, GroupableOption {
 	value: Value;
 	label?: string;
 	hint?: string;
@@ -18,161 +57,405 @@ export interface ShortcutSelectOption<Value> {
 
 export interface ShortcutSelectOptions<Value> {
 	message: string;
-	options: ShortcutSelectOption<Value>[];
+	/**
+	 * The options, or a provider that loads them once the prompt is open.
+	 * Provider-backed lists always get the filter and reload with ctrl+l.
+	 */
+	options: OptionsSource<ShortcutSelectOption<Value>>;
 	initialValue?: Value;
 	maxItems?: number;
 	shortcuts?: ShortcutConfig<Value>[];
 	onShortcut?: (action: ShortcutAction) => void;
+	/**
+	 * Typing narrows the list with fuzzy matching on label, value and hint.
+	 * Shortcut keys only fire while the filter is empty.
+	 */
+	filter?: boolean;
+	/**
+	 * Source of handler-backed actions and shortcut labels. Its actions are
+	 * bound alongside `shortcuts`; conflicting keys throw a
+	 * `ShortcutConflictError` before the prompt opens.
+	 */
+	registry?: ShortcutRegistry;
+	/** Shown in a panel toggled with `?` (on an empty filter when filtering). */
+	help?: PromptHelp;
+	/**
+	 * Extended details for the highlighted option, shown in a panel under the
+	 * list that follows the cursor. Long details are cut to a few lines. A
+	 * promise is asked for once per option, when it is first highlighted.
+	 */
+	details?: (option: ShortcutSelectOption<Value>) => OptionDetails | Promise<OptionDetails>;
+	input?: Readable;
+	output?: Writable;
 }
 
-const unicodeSupported = detectUnicodeSupport();
-const pickUnicode = (unicode: string, fallback: string) =>
-	unicodeSupported ? unicode : fallback;
-
-const ICON_PRIMARY = pickUnicode("♦", "*");
-const ICON_WARN = pickUnicode("■", "x");
-const ICON_ERROR = pickUnicode("▲", "x");
-const ICON_SUCCESS = pickUnicode("◇", "o");
-const FRAME_TOP = pickUnicode("┌", "T");
-const FRAME_SIDE = pickUnicode("│", "|");
-const FRAME_BOTTOM = pickUnicode("└", "—");
-const OPTION_ACTIVE = pickUnicode("●", ">");
-const OPTION_INACTIVE = pickUnicode("○", " ");
-
-function detectUnicodeSupport(): boolean {
-	if (process.platform !== "win32") {
-		return process.env.TERM !== "linux";
-	}
-	return Boolean(process.env.CI) ||
-		Boolean(process.env.WT_SESSION) ||
-		Boolean(process.env.TERMINUS_SUBLIME) ||
-		process.env.ConEmuTask === "{cmd::Cmder}" ||
-		process.env.TERM_PROGRAM === "Terminus-Sublime" ||
-		process.env.TERM_PROGRAM === "vscode" ||
-		process.env.TERM === "xterm-256color" ||
-		process.env.TERM === "alacritty" ||
-		process.env.TERMINAL_EMULATOR === "JetBrains-JediTerm";
-}
+export type OptionDetails = string | readonly string[] | undefined;
 
-function formatStateIcon(state: "initial" | "active" | "cancel" | "submit" | "error"): string {
-	switch (state) {
-		case "cancel":
-			return pc.red(ICON_WARN);
-		case "submit":
-			return pc.green(ICON_SUCCESS);
-		case "error":
-			return pc.yellow(ICON_ERROR);
-		default:
-			return pc.cyan(ICON_PRIMARY);
-	}
-}
+// Untracked select prompts treat these as arrow keys (vim aliases).
+const NAVIGATION_KEYS = ["h", "j", "k", "l"];
+const MAX_DETAIL_LINES = 8;
 
 function formatOption<Value>(
 	option: ShortcutSelectOption<Value>,
 	state: "active" | "inactive" | "selected" | "cancelled",
+	match?: OptionMatch<ShortcutSelectOption<Value>>,
 ): string {
-	const label = option.label ?? String(option.value);
-	const hint = option.hint ? ` ${pc.dim(`(${option.hint})`)}` : "";
+	const { palette, symbols } = getTheme();
+	const rawLabel = option.label ?? String(option.value);
+	const highlight = (value: string) => palette.strong(palette.accent(value));
+
+	if (isOptionDisabled(option) && (state === "active" || state === "inactive")) {
+		return `${palette.muted(symbols.radioInactive)} ${formatDisabledOption(rawLabel, option)}`;
+	}
 
 	switch (state) {
 		case "active":
-			return `${pc.green(OPTION_ACTIVE)} ${label}${hint}`;
+			return `${palette.success(symbols.radioActive)} ${highlightMatches(rawLabel, match?.labelIndices ?? [], highlight)}${formatHint(option, match)}`;
 		case "selected":
-			return `${pc.dim(label)}${hint}`;
+			return `${palette.muted(rawLabel)}${formatHint(option)}`;
 		case "cancelled":
-			return `${pc.strikethrough(pc.dim(label))}${hint}`;
+			return `${palette.strikethrough(palette.muted(rawLabel))}${formatHint(option)}`;
 		default:
-			return `${pc.dim(OPTION_INACTIVE)} ${pc.dim(label)}${hint}`;
+			return `${palette.muted(symbols.radioInactive)} ${highlightMatches(rawLabel, match?.labelIndices ?? [], highlight, palette.muted)}${formatHint(option, match)}`;
+	}
+}
+
+function formatHint<Value>(
+	option: ShortcutSelectOption<Value>,
+	match?: OptionMatch<ShortcutSelectOption<Value>>,
+): string {
+	if (!option.hint) {
+		return "";
 	}
+	const { palette } = getTheme();
+	const hint = highlightMatches(
+		option.hint,
+		match?.hintIndices ?? [],
+		(value) => palette.accent(value),
+		palette.muted,
+	);
+	return ` ${palette.muted("(")}${hint}${palette.muted(")")}`;
+}
+
+function formatFilterLine(query: string, state: string): string {
+	if (state === "submit" || state === "cancel") {
+		return "";
+	}
+	const { palette, symbols } = getTheme();
+	const input = query.length > 0
+		? `${query}${palette.inverse(palette.hidden("_"))}`
+		: `${palette.inverse(palette.hidden("_"))}${palette.muted(" type to filter")}`;
+	return `${palette.accent(symbols.bar)}  ${palette.muted("/")} ${input}\n`;
 }
 
 export async function selectWithShortcuts<Value>({
 	message,
-	options,
+	options: optionSource,
 	initialValue,
 	maxItems,
 	shortcuts,
 	onShortcut,
+	filter,
+	registry = defaultShortcutRegistry,
+	help,
+	details,
+	input,
+	output = process.stdout,
 }: ShortcutSelectOptions<Value>): Promise<Value | symbol> {
+	const provider = isOptionsProvider(optionSource) ? optionSource : undefined;
+	const useFilter = filter || provider !== undefined;
+	const options = isOptionsProvider(optionSource) ? [] : sortByGroup(optionSource);
 	let windowStart = 0;
-	const visibleRows = typeof maxItems === "number" ? Math.max(maxItems, 5) : undefined;
+	// Header (2), filter line, bottom frame and the line clack leaves for the cursor.
+	const reservedRows = useFilter ? 5 : 4;
 	const shortcutMap = new Map<string, ShortcutConfig<Value>>();
+	const actionMap = new Map<string, ShortcutActionDefinition>();
+	const helpPanel = new HelpPanel(help);
+
+	for (const shortcut of shortcuts ?? []) {
+		shortcutMap.set(normalizeShortcutKey(shortcut.key), shortcut);
+	}
+	const boundActions = new Set((shortcuts ?? []).map((shortcut) => shortcut.action));
+	for (const definition of registry.list()) {
+		if (!boundActions.has(definition.action)) {
+			actionMap.set(definition.key, definition);
+		}
+	}
+
+	const bindings: ShortcutBinding[] = [
+		...(shortcuts ?? []).map((shortcut) => ({
+			key: normalizeShortcutKey(shortcut.key),
+			action: shortcut.action,
+			label: shortcut.label ?? registry.labelFor(shortcut.action),
+		})),
+		...[...actionMap.values()].map(({ key, action, label }) => ({ key, action, label })),
+	];
+	const reservedKeys = [
+		...(useFilter ? [] : NAVIGATION_KEYS),
+		...(helpPanel.enabled ? [HELP_KEY] : []),
+	];
+	const conflicts = detectShortcutConflicts(bindings, reservedKeys);
+	if (conflicts.length > 0) {
+		throw new ShortcutConflictError(conflicts);
+	}
+	const legend = formatShortcutLegend(bindings);
+	let loader: AsyncOptionsLoader<ShortcutSelectOption<Value>> | undefined;
+	const loadedDetails = new Map<Value, { details: OptionDetails; settled: boolean }>();
 
-	if (shortcuts) {
-		for (const shortcut of shortcuts) {
-			shortcutMap.set(shortcut.key, shortcut);
+	function detailsFor(option: ShortcutSelectOption<Value>): OptionDetails {
+		const loaded = loadedDetails.get(option.value);
+		if (loaded) {
+			return loaded.settled ? loaded.details : t("prompt.details.loading");
+		}
+		const result = details?.(option);
+		if (!(result instanceof Promise)) {
+			return result;
 		}
+		const entry: { details: OptionDetails; settled: boolean } = { details: undefined, settled: false };
+		loadedDetails.set(option.value, entry);
+		void result
+			.then(
+				(resolved) => {
+					entry.details = resolved;
+				},
+				(error: unknown) => {
+					entry.details = t("prompt.details.failed", {
+						error: error instanceof Error ? error.message : String(error),
+					});
+				},
+			)
+			.finally(() => {
+				entry.settled = true;
+				if (prompt.state !== "submit" && prompt.state !== "cancel") {
+					renderPrompt(prompt);
+				}
+			});
+		return t("prompt.details.loading");
 	}
 
-	const prompt = new SelectPrompt<ShortcutSelectOption<Value>>({
-		options,
-		initialValue,
-		render() {
-			const header = `${pc.gray(FRAME_SIDE)}
-${formatStateIcon(this.state)}  ${message}
+	type SelectView = {
+		state: string;
+		error: string;
+		options: ShortcutSelectOption<Value>[];
+		cursor: number;
+	};
+
+	function render(this: SelectView): string {
+		const filterPrompt = this instanceof FilterSelectPrompt
+			? (this as FilterSelectPrompt<ShortcutSelectOption<Value>>)
+			: undefined;
+		const { palette, symbols } = getTheme();
+		const header = `${palette.frame(symbols.bar)}
+${formatStateSymbol(this.state)}  ${helpPanel.message(message)}
 `;
 
-			if (this.state === "submit") {
-				return `${header}${pc.gray(FRAME_SIDE)}  ${formatOption(this.options[this.cursor], "selected")}`;
-			}
+		if (this.state === "submit") {
+			return `${header}${palette.frame(symbols.bar)}  ${formatOption(this.options[this.cursor], "selected")}`;
+		}
 
-			if (this.state === "cancel") {
-				return `${header}${pc.gray(FRAME_SIDE)}  ${formatOption(this.options[this.cursor], "cancelled")}
-${pc.gray(FRAME_SIDE)}`;
-			}
+		if (this.state === "cancel") {
+			const cancelled = this.options[this.cursor];
+			const line = cancelled ? formatOption(cancelled, "cancelled") : "";
+			return `${header}${palette.frame(symbols.bar)}  ${line}
+${palette.frame(symbols.bar)}`;
+		}
+
+		const filterLine = filterPrompt
+			? formatFilterLine(filterPrompt.query, this.state)
+			: "";
+
+		if (loader?.blocking) {
+			return `${header}${filterLine}${palette.accent(symbols.bar)}  ${loader.formatStatus()}
+${palette.accent(symbols.barEnd)}  ${palette.muted(loader.formatLegend())}`;
+		}
 
-			const pageSize = visibleRows ?? Infinity;
-			if (this.cursor >= windowStart + pageSize - 3) {
-				windowStart = Math.max(
-					Math.min(this.cursor - pageSize + 3, this.options.length - pageSize),
-					0,
+		const footerLegend = [legend, loader ? palette.muted(loader.formatLegend()) : ""]
+			.filter(Boolean)
+			.join(palette.muted(` ${symbols.separator} `));
+		const footer = this.state === "error"
+			? palette.warning(`${symbols.barEnd}  ${this.error}`)
+			: `${palette.accent(symbols.barEnd)}${footerLegend ? `  ${footerLegend}` : ""}`;
+
+		if (this.options.length === 0) {
+			const empty = filterPrompt?.isFiltering ? "No matches" : "No options";
+			return `${header}${filterLine}${palette.accent(symbols.bar)}  ${palette.muted(empty)}
+${footer}`;
+		}
+
+		const highlighted = this.options[this.cursor];
+		const detailLines = details && highlighted ? formatDetails(detailsFor(highlighted)) : [];
+		const detailPanel = detailLines
+			.map((line) => `${palette.accent(symbols.bar)}  ${line}\n`)
+			.join("");
+		const viewport = sliceViewport(
+			this.options,
+			this.cursor,
+			windowStart,
+			resolveVisibleRows(maxItems, output, reservedRows + detailLines.length),
+			filterPrompt?.isFiltering ? undefined : groupOf,
+		);
+		windowStart = viewport.start;
+		const list = viewport.rows
+			.map((row) => {
+				if (row.kind === "more") {
+					return palette.muted("...");
+				}
+				if (row.kind === "group") {
+					return formatGroupHeader(row.group);
+				}
+				return formatOption(
+					row.item,
+					row.index === this.cursor ? "active" : "inactive",
+					filterPrompt?.getMatch(row.item),
 				);
-			} else if (this.cursor < windowStart + 2) {
-				windowStart = Math.max(this.cursor - 2, 0);
+			})
+			.join(`\n${palette.accent(symbols.bar)}  `);
+
+		return `${header}${filterLine}${palette.accent(symbols.bar)}  ${list}
+${detailPanel}${footer}`;
+	}
+
+	const prompt = useFilter
+		? new FilterSelectPrompt<ShortcutSelectOption<Value>>({
+			options,
+			initialValue,
+			holdInput: () => loader?.blocking ?? false,
+			render,
+			input,
+			output,
+		})
+		: new SelectPrompt<ShortcutSelectOption<Value>>({
+			options,
+			initialValue,
+			render,
+			input,
+			output,
+			validate: (value) =>
+				isOptionDisabled(options.find((option) => option.value === value))
+					? DISABLED_OPTION_ERROR
+					: undefined,
+		});
+
+	if (provider && prompt instanceof FilterSelectPrompt) {
+		let loaded = false;
+		loader = new AsyncOptionsLoader(
+			provider,
+			(next) => {
+				// The first load lands on initialValue; refreshes keep the highlighted option.
+				prompt.setOptions(next, loaded ? prompt.highlighted?.value : initialValue);
+				loaded = true;
+			},
+			() => renderPrompt(prompt),
+		);
+		loader.attach(prompt, () => prompt.allOptions);
+		loader.load();
+	}
+
+	if (prompt instanceof SelectPrompt) {
+		const syncValue = () => {
+			prompt.value = prompt.options[prompt.cursor]?.value;
+		};
+		if (skipDisabledOptions(prompt)) {
+			syncValue();
+		}
+		prompt.on("cursor", (action) => {
+			if (skipDisabledOptions(prompt, action)) {
+				syncValue();
 			}
+		});
+	}
 
-			const hasWindow = pageSize < this.options.length;
-			const showAbove = hasWindow && windowStart > 0;
-			const showBelow = hasWindow && windowStart + pageSize < this.options.length;
-			const list = this.options
-				.slice(windowStart, windowStart + pageSize)
-				.map((option, index, array) => {
-					if (index === 0 && showAbove) {
-						return pc.dim("...");
-					}
-					if (index === array.length - 1 && showBelow) {
-						return pc.dim("...");
-					}
-					const globalIndex = index + windowStart;
-					return formatOption(
-						option,
-						globalIndex === this.cursor ? "active" : "inactive",
-					);
-				})
-				.join(`\n${pc.cyan(FRAME_SIDE)}  `);
-
-			return `${header}${pc.cyan(FRAME_SIDE)}  ${list}
-${pc.cyan(FRAME_BOTTOM)}`;
-		},
-	});
-
-	if (shortcutMap.size > 0) {
+	if (helpPanel.enabled) {
 		prompt.on("key", (keyValue?: string) => {
-			if (!keyValue) {
+			if (keyValue !== HELP_KEY) {
+				return;
+			}
+			if (prompt instanceof FilterSelectPrompt) {
+				if (prompt.query !== HELP_KEY) {
+					return;
+				}
+				prompt.resetQuery();
+			}
+			helpPanel.toggle();
+		});
+	}
+
+	if (shortcutMap.size > 0 || actionMap.size > 0) {
+		prompt.on("key", (keyValue?: string) => {
+			if (!keyValue || prompt.state === "submit") {
 				return;
 			}
 			const shortcut = shortcutMap.get(keyValue);
-			if (!shortcut || prompt.state === "submit") {
+			const definition = actionMap.get(keyValue);
+			if (!shortcut && !definition) {
+				return;
+			}
+			// With a filter the key has already landed in the query; only an otherwise empty query counts.
+			if (prompt instanceof FilterSelectPrompt) {
+				if (normalizeShortcutKey(prompt.query) !== keyValue) {
+					return;
+				}
+				prompt.resetQuery();
+			}
+			if (definition) {
+				runShortcutHandler(prompt, definition, message);
 				return;
 			}
-			prompt.value = shortcut.value;
-			onShortcut?.(shortcut.action);
+			onShortcut?.(shortcut!.action);
 			prompt.state = "submit";
 			prompt.emit("finalize");
-			prompt.emit("submit", shortcut.value);
-			(prompt as unknown as { close(): void }).close();
+			prompt.value = shortcut!.value;
+			prompt.emit("submit", shortcut!.value);
+			closePrompt(prompt);
 		});
 	}
 
 	return prompt.prompt() as Promise<Value | symbol>;
 }
+
+/** Detail lines under a dim rule, capped at `MAX_DETAIL_LINES`. */
+function formatDetails(details: OptionDetails): string[] {
+	const lines = (typeof details === "string" ? details.split("\n") : [...(details ?? [])])
+		.filter((line) => line.trim().length > 0);
+	if (lines.length === 0) {
+		return [];
+	}
+	const { palette, symbols } = getTheme();
+	const shown = lines.length > MAX_DETAIL_LINES
+		? [...lines.slice(0, MAX_DETAIL_LINES - 1), `${symbols.ellipsis} ${lines.length - MAX_DETAIL_LINES + 1} more`]
+		: lines;
+	return [palette.muted(symbols.rule.repeat(24)), ...shown.map((line) => palette.muted(line))];
+}
+
+function formatShortcutLegend(bindings: readonly ShortcutBinding[]): string {
+	if (bindings.length === 0) {
+		return "";
+	}
+	const { palette, symbols } = getTheme();
+	return bindings
+		.map((binding) => `${palette.strong(binding.key)} ${palette.muted(binding.label)}`)
+		.join(palette.muted(` ${symbols.separator} `));
+}
+
+/**
+ * Runs a registry handler while the prompt stays open. Failures surface as
+ * the prompt's error line; either way the prompt re-renders afterwards.
+ */
+function runShortcutHandler(
+	prompt: Prompt,
+	definition: ShortcutActionDefinition,
+	message: string,
+) {
+	const rerender = () => renderPrompt(prompt);
+	void Promise.resolve()
+		.then(() => definition.handler({ action: definition.action, key: definition.key, message }))
+		.catch((error: unknown) => {
+			prompt.state = "error";
+			prompt.error = `${definition.label} failed: ${error instanceof Error ? error.message : String(error)}`;
+		})
+		.finally(() => {
+			if (prompt.state !== "submit" && prompt.state !== "cancel") {
+				rerender();
+			}
+		});
+}
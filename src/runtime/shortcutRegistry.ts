@@ -0,0 +1,107 @@
+export type BuiltInShortcutAction = "skip-step" | "replay-command" | "safe-abort";
+
+export interface ShortcutActionContext {
+	action: string;
+	key: string;
+	/** Message of the prompt the shortcut fired in. */
+	message: string;
+}
+
+/**
+ * A shortcut contributed by a plugin or embedder. Pressing `key` in a
+ * shortcut-enabled select runs `handler` and keeps the prompt open.
+ */
+export interface ShortcutActionDefinition {
+	action: string;
+	key: string;
+	label: string;
+	handler: (context: ShortcutActionContext) => void | Promise<void>;
+}
+
+export interface ShortcutBinding {
+	key: string;
+	action: string;
+	label: string;
+}
+
+export interface ShortcutConflict {
+	key: string;
+	/** Actions bound to `key`; a single entry means it collides with navigation. */
+	actions: string[];
+}
+
+const BUILT_IN_LABELS: Record<BuiltInShortcutAction, string> = {
+	"skip-step": "skip step",
+	"replay-command": "replay",
+	"safe-abort": "abort",
+};
+
+export class ShortcutConflictError extends Error {
+	constructor(readonly conflicts: ShortcutConflict[]) {
+		super(
+			`Conflicting shortcut keys: ${conflicts
+				.map((conflict) =>
+					conflict.actions.length > 1
+						? `"${conflict.key}" is bound to ${conflict.actions.join(", ")}`
+						: `"${conflict.key}" (${conflict.actions[0]}) is reserved for navigation`,
+				)
+				.join("; ")}.`,
+		);
+	}
+}
+
+export class ShortcutRegistry {
+	private readonly actions = new Map<string, ShortcutActionDefinition>();
+
+	/** Registers `definition`, replacing any action with the same id. Returns an unregister callback. */
+	register(definition: ShortcutActionDefinition): () => void {
+		const normalized = { ...definition, key: normalizeShortcutKey(definition.key) };
+		this.actions.set(definition.action, normalized);
+		return () => {
+			if (this.actions.get(definition.action) === normalized) {
+				this.actions.delete(definition.action);
+			}
+		};
+	}
+
+	get(action: string): ShortcutActionDefinition | undefined {
+		return this.actions.get(action);
+	}
+
+	list(): ShortcutActionDefinition[] {
+		return [...this.actions.values()];
+	}
+
+	labelFor(action: string): string {
+		return (
+			this.actions.get(action)?.label ??
+			BUILT_IN_LABELS[action as BuiltInShortcutAction] ??
+			action
+		);
+	}
+}
+
+/** Registry consulted by `selectWithShortcuts` when none is passed explicitly. */
+export const defaultShortcutRegistry = new ShortcutRegistry();
+
+/** clack reports printable keys lowercased, so bindings are matched that way. */
+export function normalizeShortcutKey(key: string): string {
+	return key.toLowerCase();
+}
+
+export function detectShortcutConflicts(
+	bindings: readonly ShortcutBinding[],
+	reservedKeys: readonly string[] = [],
+): ShortcutConflict[] {
+	const byKey = new Map<string, string[]>();
+	for (const binding of bindings) {
+		const actions = byKey.get(binding.key) ?? [];
+		if (!actions.includes(binding.action)) {
+			actions.push(binding.action);
+		}
+		byKey.set(binding.key, actions);
+	}
+	return [...byKey.entries()]
+		.filter(([key, actions]) => actions.length > 1 || reservedKeys.includes(key))
+		.map(([key, actions]) => ({ key, actions }));
+}
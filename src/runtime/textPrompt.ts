@@ -1,6 +1,8 @@
 import { TextPrompt } from "@clack/core";
-import process from "node:process";
-import color from "picocolors";
+import type { Readable, Writable } from "node:stream";
+import { writePromptLine } from "./prompts/clackInternals.js";
+import { HELP_KEY, HelpPanel, type PromptHelp } from "./prompts/promptHelp.js";
+import { formatStateSymbol, getTheme, joinLegend } from "./theme.js";
 
 export interface TextPromptWithHistoryOptions {
 	message: string;
@@ -9,124 +11,100 @@ export interface TextPromptWithHistoryOptions {
 	initialValue?: string;
 	validate?: (value: string) => string | void;
 	history?: readonly string[];
+	/** Shown in a panel toggled by typing `?` on an empty line. */
+	help?: PromptHelp;
+	input?: Readable;
+	output?: Writable;
 }
 
-const isUnicodeSupported = detectUnicodeSupport();
-
-const STEP_SYMBOL_ACTIVE = isUnicodeSupported ? "◆" : "*";
-const STEP_SYMBOL_CANCEL = isUnicodeSupported ? "■" : "x";
-const STEP_SYMBOL_ERROR = isUnicodeSupported ? "▲" : "x";
-const STEP_SYMBOL_SUBMIT = isUnicodeSupported ? "◇" : "o";
-
-const BAR_SYMBOL = isUnicodeSupported ? "│" : "|";
-const BAR_END_SYMBOL = isUnicodeSupported ? "└" : "—";
-
-const STATE_SYMBOLS = {
-	initial: color.cyan(STEP_SYMBOL_ACTIVE),
-	active: color.cyan(STEP_SYMBOL_ACTIVE),
-	cancel: color.red(STEP_SYMBOL_CANCEL),
-	error: color.yellow(STEP_SYMBOL_ERROR),
-	submit: color.green(STEP_SYMBOL_SUBMIT),
-} as const;
-
-function detectUnicodeSupport(): boolean {
-	if (process.platform !== "win32") {
-		return process.env.TERM !== "linux";
-	}
-
-	if (process.env.CI) return true;
-	if (process.env.WT_SESSION) return true;
-	if (process.env.TERMINUS_SUBLIME) return true;
-	if (process.env.ConEmuTask === "{cmd::Cmder}") return true;
-	if (process.env.TERM_PROGRAM === "Terminus-Sublime") return true;
-	if (process.env.TERM_PROGRAM === "vscode") return true;
-	if (process.env.TERM === "xterm-256color") return true;
-	if (process.env.TERM === "alacritty") return true;
-	if (process.env.TERMINAL_EMULATOR === "JetBrains-JediTerm") return true;
-
-	return false;
-}
-
-function buildPlaceholder(placeholder?: string): string {
+export function buildPlaceholder(placeholder?: string): string {
+	const { palette } = getTheme();
 	if (!placeholder || placeholder.length === 0) {
-		return color.inverse(color.hidden("_"));
+		return palette.inverse(palette.hidden("_"));
 	}
 
 	return (
-		color.inverse(placeholder[0] ?? "") + color.dim(placeholder.slice(1))
+		palette.inverse(placeholder[0] ?? "") + palette.muted(placeholder.slice(1))
 	);
 }
 
 function clearLine(prompt: TextPrompt) {
-	const rl = (prompt as unknown as { rl?: { write: (chunk: unknown, key?: unknown) => void } }).rl;
-	if (!rl?.write) {
-		return;
-	}
-
-	rl.write(null, { ctrl: true, name: "u" });
+	writePromptLine(prompt, null, { ctrl: true, name: "u" });
 }
 
 function writeLine(prompt: TextPrompt, value: string) {
-	const rl = (prompt as unknown as { rl?: { write: (chunk: unknown, key?: unknown) => void } }).rl;
-	if (!rl?.write) {
-		return;
-	}
-
 	if (value.length > 0) {
-		rl.write(value);
+		writePromptLine(prompt, value);
 	}
 }
 
 export function createTextPromptWithHistory(
 	options: TextPromptWithHistoryOptions,
 ): Promise<string | symbol> {
-	const historyEntries = [...(options.history ?? [])];
+	const historyEntries = collapseConsecutiveDuplicates(options.history ?? []);
 	let historyIndex: number | undefined;
 	let draftValue: string | undefined;
+	// Entries reachable with up/down: those starting with the draft, or all of them.
+	let navigableEntries: string[] = historyEntries;
+	let search: ReverseSearchState | undefined;
+	const helpPanel = new HelpPanel(options.help);
+
+	const currentSearchMatch = () =>
+		search?.matchIndex === undefined ? undefined : historyEntries[search.matchIndex];
 
 	const prompt = new TextPrompt({
 		validate: options.validate
-			? (value) => options.validate?.(String(value)) ?? undefined
+			? (value) => options.validate?.(String(currentSearchMatch() ?? value)) ?? undefined
 			: undefined,
 		placeholder: options.placeholder,
 		defaultValue: options.defaultValue,
 		initialValue: options.initialValue,
+		input: options.input,
+		output: options.output,
 		render() {
-			const state = this.state as keyof typeof STATE_SYMBOLS;
-			const header = `${color.gray(BAR_SYMBOL)}
-${STATE_SYMBOLS[state]}  ${options.message}
+			const { palette, symbols } = getTheme();
+			const header = `${palette.frame(symbols.bar)}
+${formatStateSymbol(this.state)}  ${helpPanel.message(options.message)}
 `;
 			const placeholder = buildPlaceholder(options.placeholder);
-			const currentValue = this.value ? this.valueWithCursor : placeholder;
+			const currentValue = search
+				? formatReverseSearch(this.value ?? "", currentSearchMatch())
+				: this.value ? this.valueWithCursor : placeholder;
 
 			switch (this.state) {
 				case "error":
 					return (
 						`${header.trim()}\n` +
-						`${color.yellow(BAR_SYMBOL)}  ${currentValue}\n` +
-						`${color.yellow(BAR_END_SYMBOL)}  ${color.yellow(this.error)}\n`
+						`${palette.warning(symbols.bar)}  ${currentValue}\n` +
+						`${palette.warning(symbols.barEnd)}  ${palette.warning(this.error)}\n`
 					);
 				case "submit":
 					return (
 						header +
-						`${color.gray(BAR_SYMBOL)}  ${color.dim(this.value || options.placeholder || "")}`
+						`${palette.frame(symbols.bar)}  ${palette.muted(this.value || options.placeholder || "")}`
 					);
 				case "cancel": {
 					const value = this.value ?? "";
-					const suffix = value.trim().length > 0 ? `\n${color.gray(BAR_SYMBOL)}` : "";
+					const suffix = value.trim().length > 0 ? `\n${palette.frame(symbols.bar)}` : "";
 					return (
 						header +
-						`${color.gray(BAR_SYMBOL)}  ${color.strikethrough(
-							color.dim(value),
+						`${palette.frame(symbols.bar)}  ${palette.strikethrough(
+							palette.muted(value),
 						)}${suffix}`
 					);
 				}
-				default:
+				default: {
+					const hint = search
+						? palette.muted(
+							joinLegend(["ctrl+r older", "enter accept", `${symbols.arrowRight} edit`, "ctrl+g abort"]),
+						)
+						: "";
 					return (
 						header +
-						`${color.cyan(BAR_SYMBOL)}  ${currentValue}\n` +
-						`${color.cyan(BAR_END_SYMBOL)}\n`
+						`${palette.accent(symbols.bar)}  ${currentValue}\n` +
+						`${palette.accent(symbols.barEnd)}${hint ? `  ${hint}` : ""}\n`
 					);
+				}
 			}
 		},
 	});
@@ -136,7 +114,56 @@ ${STATE_SYMBOLS[state]}  ${options.message}
 		writeLine(prompt, value);
 	};
 
+	const exitSearch = (lineValue: string) => {
+		search = undefined;
+		historyIndex = undefined;
+		applyHistoryValue(lineValue);
+	};
+
+	prompt.on("value", (value?: string) => {
+		if (search && value !== undefined && value !== search.query) {
+			search.query = value;
+			search.matchIndex = findHistoryMatch(historyEntries, value, historyEntries.length - 1);
+		}
+	});
+
+	prompt.on("key", (char?: string) => {
+		// readline has already put the "?" into the line; only a lone one toggles help.
+		if (char === HELP_KEY && !search && helpPanel.enabled && prompt.value === HELP_KEY) {
+			clearLine(prompt);
+			helpPanel.toggle();
+			return;
+		}
+		if (char === REVERSE_SEARCH_KEY) {
+			if (!search) {
+				search = { query: "", matchIndex: undefined, draft: prompt.value ?? "" };
+				clearLine(prompt);
+				return;
+			}
+			// Repeated ctrl+r steps to the next older match for the same query.
+			const from = (search.matchIndex ?? historyEntries.length) - 1;
+			search.matchIndex =
+				findHistoryMatch(historyEntries, search.query, from) ?? search.matchIndex;
+			return;
+		}
+		if (!search) {
+			return;
+		}
+		if (char === ABORT_SEARCH_KEY) {
+			exitSearch(search.draft);
+		} else if (char === "\t") {
+			exitSearch(currentSearchMatch() ?? search.query);
+		}
+	});
+
 	prompt.on("cursor", (direction?: string) => {
+		if (search) {
+			if (direction === "right") {
+				exitSearch(currentSearchMatch() ?? search.query);
+			}
+			return;
+		}
+
 		if (direction !== "up" && direction !== "down") {
 			return;
 		}
@@ -147,13 +174,21 @@ ${STATE_SYMBOLS[state]}  ${options.message}
 
 		if (direction === "up") {
 			if (historyIndex === undefined) {
-				draftValue = prompt.value ?? "";
-				historyIndex = historyEntries.length - 1;
+				const draft = prompt.value ?? "";
+				const matching = draft.length > 0
+					? historyEntries.filter((entry) => entry.startsWith(draft) && entry !== draft)
+					: historyEntries;
+				if (matching.length === 0) {
+					return;
+				}
+				draftValue = draft;
+				navigableEntries = matching;
+				historyIndex = navigableEntries.length - 1;
 			} else if (historyIndex > 0) {
 				historyIndex -= 1;
 			}
 
-			const nextValue = historyEntries[historyIndex];
+			const nextValue = navigableEntries[historyIndex];
 			if (typeof nextValue === "string") {
 				applyHistoryValue(nextValue);
 			}
@@ -165,9 +200,9 @@ ${STATE_SYMBOLS[state]}  ${options.message}
 			return;
 		}
 
-		if (historyIndex < historyEntries.length - 1) {
+		if (historyIndex < navigableEntries.length - 1) {
 			historyIndex += 1;
-			const nextValue = historyEntries[historyIndex];
+			const nextValue = navigableEntries[historyIndex];
 			if (typeof nextValue === "string") {
 				applyHistoryValue(nextValue);
 			}
@@ -179,9 +214,59 @@ ${STATE_SYMBOLS[state]}  ${options.message}
 	});
 
 	prompt.on("finalize", () => {
+		const match = currentSearchMatch();
+		if (prompt.state === "submit" && match !== undefined) {
+			prompt.value = match;
+		}
+		search = undefined;
 		historyIndex = undefined;
 		draftValue = undefined;
 	});
 
 	return prompt.prompt();
 }
+
+interface ReverseSearchState {
+	query: string;
+	matchIndex: number | undefined;
+	/** Line content before the search started, restored on abort. */
+	draft: string;
+}
+
+const REVERSE_SEARCH_KEY = "\u0012";
+const ABORT_SEARCH_KEY = "\u0007";
+
+function collapseConsecutiveDuplicates(entries: readonly string[]): string[] {
+	return entries.filter((entry, index) => index === 0 || entries[index - 1] !== entry);
+}
+
+/** Newest entry at or before `from` that contains `query`. */
+function findHistoryMatch(
+	entries: readonly string[],
+	query: string,
+	from: number,
+): number | undefined {
+	if (query.length === 0) {
+		return undefined;
+	}
+	for (let index = Math.min(from, entries.length - 1); index >= 0; index -= 1) {
+		if (entries[index]?.includes(query)) {
+			return index;
+		}
+	}
+	return undefined;
+}
+
+function formatReverseSearch(query: string, match: string | undefined): string {
+	const { palette, symbols } = getTheme();
+	const label = palette.muted(`(reverse-i-search)\`${query}':`);
+	if (match === undefined) {
+		return query.length > 0 ? `${label} ${palette.warning("no match")}` : `${label} ${symbols.cursor}`;
+	}
+	const start = match.indexOf(query);
+	return (
+		`${label} ${match.slice(0, start)}` +
+		palette.strong(palette.accent(match.slice(start, start + query.length))) +
+		match.slice(start + query.length)
+	);
+}
@@ -0,0 +1,275 @@
+import process from "node:process";
+import pc from "picocolors";
+
+export type ThemeName = "default" | "high-contrast" | "ascii";
+
+export const THEME_NAMES: readonly ThemeName[] = ["default", "high-contrast", "ascii"];
+export const THEME_ENV_VAR = "DEV_WIZARD_THEME";
+
+export type ThemeStyle = (text: string) => string;
+
+/** Colors by role, so a palette can restyle every prompt at once. */
+export interface ThemePalette {
+	/** Active prompt frame, pointers and match highlights. */
+	accent: ThemeStyle;
+	success: ThemeStyle;
+	warning: ThemeStyle;
+	danger: ThemeStyle;
+	/** Spinners and other in-progress markers. */
+	progress: ThemeStyle;
+	/** Label of the highlighted option once it is chosen. */
+	selected: ThemeStyle;
+	/** Hints, legends and unselected options. */
+	muted: ThemeStyle;
+	/** Frame of answered and cancelled prompts. */
+	frame: ThemeStyle;
+	strong: ThemeStyle;
+	inverse: ThemeStyle;
+	hidden: ThemeStyle;
+	strikethrough: ThemeStyle;
+}
+
+export interface ThemeSymbols {
+	stepActive: string;
+	stepCancel: string;
+	stepError: string;
+	stepSubmit: string;
+	bar: string;
+	barStart: string;
+	barEnd: string;
+	pointer: string;
+	radioActive: string;
+	radioInactive: string;
+	checkboxActive: string;
+	checkboxInactive: string;
+	/** Joins the parts of key legends and breadcrumbs. */
+	separator: string;
+	arrowUpDown: string;
+	arrowRight: string;
+	ellipsis: string;
+	rule: string;
+	cursor: string;
+	statusSuccess: string;
+	statusWarning: string;
+	statusFailure: string;
+	spinner: readonly string[];
+}
+
+export interface Theme {
+	name: ThemeName;
+	palette: ThemePalette;
+	symbols: ThemeSymbols;
+}
+
+export interface CreateThemeOptions {
+	/** Defaults to `detectColorSupport()`. */
+	color?: boolean;
+	/** Defaults to `detectUnicodeSupport()`; without it every theme draws ASCII. */
+	unicode?: boolean;
+}
+
+type Colors = ReturnType<typeof pc.createColors>;
+
+const PALETTES: Record<"default" | "high-contrast", (colors: Colors) => ThemePalette> = {
+	default: (c) => ({
+		accent: c.cyan,
+		success: c.green,
+		warning: c.yellow,
+		danger: c.red,
+		progress: c.magenta,
+		selected: c.white,
+		muted: c.dim,
+		frame: c.gray,
+		strong: c.bold,
+		inverse: c.inverse,
+		hidden: c.hidden,
+		strikethrough: c.strikethrough,
+	}),
+	// Bright, bold foregrounds and no dimmed text: dim is the first thing to
+	// vanish on low-vision and projector setups.
+	"high-contrast": (c) => ({
+		accent: (text) => c.bold(c.cyanBright(text)),
+		success: (text) => c.bold(c.greenBright(text)),
+		warning: (text) => c.bold(c.yellowBright(text)),
+		danger: (text) => c.bold(c.redBright(text)),
+		progress: (text) => c.bold(c.magentaBright(text)),
+		selected: (text) => c.bold(c.whiteBright(text)),
+		muted: c.white,
+		frame: c.whiteBright,
+		strong: (text) => c.bold(c.underline(text)),
+		inverse: c.inverse,
+		hidden: c.hidden,
+		strikethrough: c.strikethrough,
+	}),
+};
+
+const UNICODE_SYMBOLS: ThemeSymbols = {
+	stepActive: "◆",
+	stepCancel: "■",
+	stepError: "▲",
+	stepSubmit: "◇",
+	bar: "│",
+	barStart: "┌",
+	barEnd: "└",
+	pointer: "❯",
+	radioActive: "●",
+	radioInactive: "○",
+	checkboxActive: "◼",
+	checkboxInactive: "◻",
+	separator: "·",
+	arrowUpDown: "↑/↓",
+	arrowRight: "→",
+	ellipsis: "…",
+	rule: "─",
+	cursor: "█",
+	statusSuccess: "✅",
+	statusWarning: "⚠️",
+	statusFailure: "❌",
+	spinner: ["◒", "◐", "◓", "◑"],
+};
+
+const ASCII_SYMBOLS: ThemeSymbols = {
+	stepActive: "*",
+	stepCancel: "x",
+	stepError: "x",
+	stepSubmit: "o",
+	bar: "|",
+	barStart: "+",
+	barEnd: "+",
+	pointer: ">",
+	radioActive: ">",
+	radioInactive: " ",
+	checkboxActive: "[x]",
+	checkboxInactive: "[ ]",
+	separator: "|",
+	arrowUpDown: "up/down",
+	arrowRight: "->",
+	ellipsis: "...",
+	rule: "-",
+	cursor: "_",
+	statusSuccess: "[ok]",
+	statusWarning: "[!]",
+	statusFailure: "[x]",
+	spinner: ["|", "/", "-", "\\"],
+};
+
+export function isThemeName(value: unknown): value is ThemeName {
+	return typeof value === "string" && (THEME_NAMES as readonly string[]).includes(value);
+}
+
+/** The explicit choice, else `DEV_WIZARD_THEME`, else "default". */
+export function resolveThemeName(
+	name?: string,
+	env: NodeJS.ProcessEnv = process.env,
+): ThemeName {
+	if (name !== undefined) {
+		if (!isThemeName(name)) {
+			throw new Error(`Unknown theme "${name}". Expected one of: ${THEME_NAMES.join(", ")}.`);
+		}
+		return name;
+	}
+	const fromEnv = env[THEME_ENV_VAR]?.trim().toLowerCase();
+	return isThemeName(fromEnv) ? fromEnv : "default";
+}
+
+export function detectUnicodeSupport(
+	env: NodeJS.ProcessEnv = process.env,
+	platform: NodeJS.Platform = process.platform,
+): boolean {
+	if (platform !== "win32") {
+		return env.TERM !== "linux";
+	}
+	return Boolean(env.CI) ||
+		Boolean(env.WT_SESSION) ||
+		Boolean(env.TERMINUS_SUBLIME) ||
+		env.ConEmuTask === "{cmd::Cmder}" ||
+		env.TERM_PROGRAM === "Terminus-Sublime" ||
+		env.TERM_PROGRAM === "vscode" ||
+		env.TERM === "xterm-256color" ||
+		env.TERM === "alacritty" ||
+		env.TERMINAL_EMULATOR === "JetBrains-JediTerm";
+}
+
+/**
+ * One answer for whether to color output; picocolors alone lets NO_COLOR
+ * beat FORCE_COLOR. Here the `--color`/`--no-color` flags win, then
+ * FORCE_COLOR ("0" and "false" turn colors off), then a non-empty NO_COLOR,
+ * then whether stdout is a terminal.
+ */
+export function detectColorSupport(
+	env: NodeJS.ProcessEnv = process.env,
+	stream: { isTTY?: boolean } = process.stdout,
+	argv: readonly string[] = process.argv,
+): boolean {
+	if (argv.includes("--no-color")) {
+		return false;
+	}
+	if (argv.includes("--color")) {
+		return true;
+	}
+	if (env.FORCE_COLOR !== undefined) {
+		return env.FORCE_COLOR !== "0" && env.FORCE_COLOR !== "false";
+	}
+	if (env.NO_COLOR) {
+		return false;
+	}
+	if (env.TERM === "dumb") {
+		return false;
+	}
+	return Boolean(stream.isTTY) || Boolean(env.CI);
+}
+
+export function createTheme(name: ThemeName, options: CreateThemeOptions = {}): Theme {
+	const color = options.color ?? detectColorSupport();
+	const unicode = (options.unicode ?? detectUnicodeSupport()) && name !== "ascii";
+	const palette = PALETTES[name === "high-contrast" ? "high-contrast" : "default"];
+	return {
+		name,
+		palette: palette(pc.createColors(color)),
+		symbols: unicode ? UNICODE_SYMBOLS : ASCII_SYMBOLS,
+	};
+}
+
+// Prompts read the theme when they render, so switching it applies to the
+// next prompt without threading it through every prompt's options.
+let activeTheme: Theme | undefined;
+
+export function getTheme(): Theme {
+	return activeTheme ?? setTheme();
+}
+
+/**
+ * Makes `theme` (a name, or `resolveThemeName()` when omitted) the one this
+ * package's prompts and runner messages render with. The color decision
+ * lives in the theme's palette, so nothing global is touched; clack's stock
+ * prompts and log lines keep their own glyphs and picocolors' detection.
+ */
+export function setTheme(theme?: ThemeName | Theme, options: CreateThemeOptions = {}): Theme {
+	activeTheme = typeof theme === "object"
+		? theme
+		: createTheme(theme ?? resolveThemeName(), options);
+	return activeTheme;
+}
+
+type PromptState = "initial" | "active" | "cancel" | "error" | "submit";
+
+/** Colored step symbol for a clack prompt state. */
+export function formatStateSymbol(state: string): string {
+	const { palette, symbols } = getTheme();
+	switch (state as PromptState) {
+		case "cancel":
+			return palette.danger(symbols.stepCancel);
+		case "error":
+			return palette.warning(symbols.stepError);
+		case "submit":
+			return palette.success(symbols.stepSubmit);
+		default:
+			return palette.accent(symbols.stepActive);
+	}
+}
+
+/** Joins legend entries with the theme separator, skipping empty ones. */
+export function joinLegend(parts: ReadonlyArray<string | false | undefined>): string {
+	const { symbols } = getTheme();
+	return parts.filter(Boolean).join(` ${symbols.separator} `);
+}
@@ -0,0 +1,322 @@
+import { PassThrough, type Readable, type Writable } from "node:stream";
+
+/**
+ * Keystrokes as a script: a string of space-separated tokens such as
+ * `down down space enter`, or one token per array entry. A token is a key
+ * name (see `KEY_SEQUENCES`, plus `ctrl+<letter>`), `wait:<ms>` to let
+ * async work such as option loading finish, or text typed as-is. In a
+ * string, text with spaces goes in double quotes: `"hello world" enter`.
+ */
+export type KeyScript = string | readonly string[];
+
+export type KeyStroke =
+	| { kind: "keys"; sequence: string }
+	| { kind: "wait"; ms: number };
+
+export const KEY_SEQUENCES: Readonly<Record<string, string>> = {
+	up: "\u001b[A",
+	down: "\u001b[B",
+	right: "\u001b[C",
+	left: "\u001b[D",
+	"shift+up": "\u001b[1;2A",
+	"shift+down": "\u001b[1;2B",
+	home: "\u001b[H",
+	end: "\u001b[F",
+	pageup: "\u001b[5~",
+	pagedown: "\u001b[6~",
+	enter: "\r",
+	return: "\r",
+	space: " ",
+	tab: "\t",
+	"shift+tab": "\u001b[Z",
+	escape: "\u001b",
+	esc: "\u001b",
+	backspace: "\u007f",
+	delete: "\u001b[3~",
+};
+
+export interface VirtualTerminalOptions {
+	columns?: number;
+	rows?: number;
+}
+
+export interface RunPromptOptions extends VirtualTerminalOptions {
+	keys?: KeyScript;
+	/** How long the prompt may take to resolve once every key is sent. Defaults to 2000 ms. */
+	timeoutMs?: number;
+}
+
+export interface PromptRunResult<T> {
+	value: T | symbol;
+	cancelled: boolean;
+	/** The screen after the first render and after every keystroke that changed it. */
+	frames: string[];
+	/** The screen once the prompt resolved. */
+	finalFrame: string;
+	/** Everything the prompt wrote, escape sequences included. */
+	output: string;
+}
+
+/** A lone Escape is only reported once readline's escape-code timeout (50 ms in clack) has passed. */
+const ESCAPE_SETTLE_MS = 100;
+const CLACK_CANCEL_DESCRIPTION = "clack:cancel";
+const ESCAPE = "\u001b";
+const BELL = "\u0007";
+/** The rest of a CSI sequence, matched right after its ESC. */
+const CSI_SEQUENCE = /\[([?\d;]*)([A-Za-z])/y;
+
+/**
+ * In-memory stand-in for a terminal: prompts read keystrokes from `input`
+ * and write to `output`, and `screen` is what a real terminal would show,
+ * after the cursor moves and line erases clack uses to repaint. Colors are
+ * dropped from the screen but kept in `transcript`.
+ */
+export class VirtualTerminal {
+	readonly input: PassThrough & { isTTY: true; setRawMode(mode: boolean): void };
+	readonly output: PassThrough & { isTTY: true; columns: number; rows: number };
+	private lines: string[] = [""];
+	private row = 0;
+	private column = 0;
+	private written = "";
+
+	constructor({ columns = 80, rows = 24 }: VirtualTerminalOptions = {}) {
+		this.input = Object.assign(new PassThrough(), {
+			isTTY: true as const,
+			setRawMode: () => undefined,
+		});
+		this.output = Object.assign(new PassThrough(), { isTTY: true as const, columns, rows });
+		this.output.on("data", (chunk) => {
+			this.write(String(chunk));
+		});
+	}
+
+	/** Visible text, without trailing spaces or trailing blank lines. */
+	get screen(): string {
+		const lines = this.lines.map((line) => line.trimEnd());
+		while (lines.length > 0 && lines[lines.length - 1] === "") {
+			lines.pop();
+		}
+		return lines.join("\n");
+	}
+
+	get transcript(): string {
+		return this.written;
+	}
+
+	/**
+	 * Sends `keys`, letting the prompt handle each one before the next.
+	 * Parsed strokes are sent as they are, so their text is never read as a key name.
+	 */
+	async press(keys: KeyScript | readonly KeyStroke[], onKey?: () => void): Promise<void> {
+		const strokes = isKeyStrokeList(keys) ? keys : parseKeyScript(keys);
+		for (const stroke of strokes) {
+			if (stroke.kind === "wait") {
+				await delay(stroke.ms);
+				continue;
+			}
+			this.input.write(stroke.sequence);
+			await delay(stroke.sequence === KEY_SEQUENCES.escape ? ESCAPE_SETTLE_MS : 0);
+			onKey?.();
+		}
+	}
+
+	private write(text: string) {
+		this.written += text;
+		let index = 0;
+		while (index < text.length) {
+			if (text[index] === ESCAPE && index + 1 < text.length) {
+				index = this.escape(text, index + 1);
+				continue;
+			}
+			const char = String.fromCodePoint(text.codePointAt(index)!);
+			this.put(char);
+			index += char.length;
+		}
+	}
+
+	private put(char: string) {
+		switch (char) {
+			case "\n":
+				this.moveTo(this.row + 1, 0);
+				return;
+			case "\r":
+				this.column = 0;
+				return;
+			case BELL:
+				return;
+		}
+		const cells = Array.from(this.lines[this.row]!.padEnd(this.column, " "));
+		cells[this.column] = char;
+		this.lines[this.row] = cells.join("");
+		this.column += 1;
+	}
+
+	/**
+	 * Applies the escape sequence that starts after the ESC at `start - 1`
+	 * and returns the index the text resumes at. OSC strings run to the bell;
+	 * any other escape swallows one character.
+	 */
+	private escape(text: string, start: number): number {
+		CSI_SEQUENCE.lastIndex = start;
+		const csi = CSI_SEQUENCE.exec(text);
+		if (csi) {
+			this.control(csi[1]!, csi[2]!);
+			return start + csi[0].length;
+		}
+		if (text[start] === "]") {
+			const bell = text.indexOf(BELL, start);
+			if (bell !== -1) {
+				return bell + 1;
+			}
+		}
+		return start + 1;
+	}
+
+	/** The CSI sequences sisteransi emits for clack; colors and cursor visibility are ignored. */
+	private control(parameters: string, command: string) {
+		if (parameters.startsWith("?")) {
+			return;
+		}
+		const [first = 0, second = 0] = parameters.split(";").map((value) => Number(value) || 0);
+		const count = Math.max(1, first);
+		switch (command) {
+			case "A":
+				this.moveTo(Math.max(0, this.row - count), this.column);
+				break;
+			case "B":
+				this.moveTo(this.row + count, this.column);
+				break;
+			case "C":
+				this.column += count;
+				break;
+			case "D":
+				this.column = Math.max(0, this.column - count);
+				break;
+			case "G":
+				this.column = Math.max(0, first - 1);
+				break;
+			case "H":
+				this.moveTo(Math.max(0, first - 1), Math.max(0, second - 1));
+				break;
+			case "K":
+				this.eraseLine(first);
+				break;
+			case "J":
+				this.eraseLine(0);
+				this.lines.length = this.row + 1;
+				break;
+		}
+	}
+
+	private eraseLine(mode: number) {
+		const line = this.lines[this.row]!;
+		if (mode === 2) {
+			this.lines[this.row] = "";
+		} else if (mode === 1) {
+			this.lines[this.row] = " ".repeat(this.column + 1) + Array.from(line).slice(this.column + 1).join("");
+		} else {
+			this.lines[this.row] = Array.from(line).slice(0, this.column).join("");
+		}
+	}
+
+	private moveTo(row: number, column: number) {
+		while (this.lines.length <= row) {
+			this.lines.push("");
+		}
+		this.row = row;
+		this.column = column;
+	}
+}
+
+/**
+ * Runs a prompt against a `VirtualTerminal`: `prompt` receives the
+ * terminal's streams, `keys` are sent one by one, and the result carries
+ * the resolved value with every distinct screen along the way. Rejects
+ * when the prompt is still open `timeoutMs` after the last key; the prompt
+ * is cancelled first so nothing is left reading the input.
+ */
+export async function runPrompt<T>(
+	prompt: (streams: { input: Readable; output: Writable }) => Promise<T | symbol>,
+	{ keys = [], timeoutMs = 2_000, ...terminalOptions }: RunPromptOptions = {},
+): Promise<PromptRunResult<T>> {
+	const terminal = new VirtualTerminal(terminalOptions);
+	const frames: string[] = [];
+	const capture = () => {
+		const screen = terminal.screen;
+		if (screen.length > 0 && screen !== frames[frames.length - 1]) {
+			frames.push(screen);
+		}
+	};
+
+	let settled = false;
+	const result = prompt({ input: terminal.input, output: terminal.output }).finally(() => {
+		settled = true;
+	});
+	await delay(0);
+	capture();
+	const strokes = parseKeyScript(keys);
+	for (const [index, stroke] of strokes.entries()) {
+		if (settled) {
+			throw new Error(`The prompt resolved before key ${index + 1} of ${strokes.length} was sent.`);
+		}
+		await terminal.press([stroke], capture);
+	}
+
+	let timer: NodeJS.Timeout | undefined;
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(() => {
+			const screen = terminal.screen;
+			terminal.input.write("\u0003");
+			reject(new Error(`The prompt did not resolve within ${timeoutMs} ms of the last key. Screen:\n${screen}`));
+		}, timeoutMs);
+	});
+	try {
+		const value = await Promise.race([result, timeout]);
+		await delay(0);
+		capture();
+		return {
+			value,
+			cancelled: typeof value === "symbol" && value.description === CLACK_CANCEL_DESCRIPTION,
+			frames,
+			finalFrame: terminal.screen,
+			output: terminal.transcript,
+		};
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+export function parseKeyScript(script: KeyScript): KeyStroke[] {
+	const tokens = typeof script === "string"
+		? Array.from(script.matchAll(/"((?:[^"\\]|\\.)*)"|(\S+)/g), (match) =>
+			match[1] !== undefined ? { text: match[1].replace(/\\(.)/g, "$1") } : match[2]!,
+		)
+		: script;
+	return tokens.map((token): KeyStroke => {
+		if (typeof token !== "string") {
+			return { kind: "keys", sequence: token.text };
+		}
+		const wait = /^wait:(\d+)$/.exec(token);
+		if (wait) {
+			return { kind: "wait", ms: Number(wait[1]) };
+		}
+		const name = token.toLowerCase().replace(/^(ctrl|shift)-/, "$1+");
+		const named = KEY_SEQUENCES[name];
+		if (named !== undefined) {
+			return { kind: "keys", sequence: named };
+		}
+		const ctrl = /^ctrl\+([a-z])$/.exec(name);
+		if (ctrl) {
+			return { kind: "keys", sequence: String.fromCharCode(ctrl[1]!.charCodeAt(0) - 96) };
+		}
+		return { kind: "keys", sequence: token };
+	});
+}
+
+function isKeyStrokeList(keys: KeyScript | readonly KeyStroke[]): keys is readonly KeyStroke[] {
+	return typeof keys !== "string" && keys.some((key) => typeof key !== "string");
+}
+
+function delay(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}